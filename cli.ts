@@ -20,14 +20,31 @@ if (result.error) {
 import { Command } from 'commander';
 import { logger } from './utils/logger.js';
 import { runExperiment } from './services/experiment-runner.js';
+import { runEventExperiment } from './services/event-runner.js';
 import { getAllExperimentMetadata } from './experiments/config.js';
+import type { ExperimentRunOptions } from './experiments/types.js';
+import { ENSEMBLE_AGGREGATORS, isEnsembleAggregator, type EnsembleAggregator } from './utils/ensemble.js';
+import { getAvailableModels, isModelId } from './config/models.js';
+import { PRICE_MODES, isPriceMode, type PriceMode } from './experiments/exp006/prepare-prompts.js';
 import { publishPrediction, checkGhCliAvailable, publishExistingPrediction } from './services/prediction-publisher.js';
 import { generateTrade } from './services/trade-generator.js';
+import { backfillPredictionColumns, listPredictionsByTemplate } from './services/prediction-storage.js';
+import { replayPrediction } from './services/prediction-replay.js';
+import { enableReplayMode } from './services/llm-cache.js';
+import { getPromptTemplate, hashPromptTemplate, listPromptTemplateVersions } from './services/prompt-templates.js';
+import { diffLines, formatDiff } from './utils/text-diff.js';
+import { syncMarketResolutions } from './services/market-resolution.js';
+import { buildScoreReport } from './services/score-report.js';
+import { buildCostReport } from './services/cost-report.js';
+import { estimateBatchCost, getBudgetStatus } from './services/budget.js';
+import { runBenchmark } from './services/benchmark-service.js';
+import { getWatchedMarketIds, ingestMarketPrices } from './services/polymarket-storage.js';
 
 const program = new Command();
 
 /**
  * Helper: Extract slug from URL or return slug as-is
+ * Note: a bare event URL (/event/{event-slug}) is treated as a single-market event; use run:event for events with several markets.
  */
 function getMarketSlug(options: { url?: string; slug?: string }): string {
   let slug = options.slug;
@@ -62,6 +79,124 @@ function getMarketSlug(options: { url?: string; slug?: string }): string {
   return slug;
 }
 
+/**
+ * Helper: Extract event slug from an event URL (with or without a market segment) or return slug as-is
+ */
+function getEventSlug(options: { url?: string; slug?: string }): string {
+  let slug = options.slug;
+
+  if (options.url) {
+    // Handle /event/{event-slug} and /event/{event-slug}/{market-slug}
+    const eventUrlMatch = options.url.match(/polymarket\.com\/event\/([^/?]+)/);
+    slug = eventUrlMatch ? eventUrlMatch[1] : options.url;
+  }
+
+  if (!slug) {
+    logger.error('Either --url or --slug must be provided');
+    process.exit(1);
+  }
+
+  return slug;
+}
+
+/**
+ * Helper: Build per-run experiment options from CLI flags (--models, --aggregator, --samples, --price-mode, --critic,
+ * --research-agent, --research-max-steps, --research-max-cost, --research-plan, --no-reference-class,
+ * --research-max-age)
+ */
+function getRunOptions(options: {
+  models?: string;
+  aggregator?: string;
+  samples?: string;
+  priceMode?: string;
+  critic?: boolean | string; // --critic [model]
+  researchAgent?: boolean | string; // --research-agent [model]
+  researchMaxSteps?: string;
+  researchMaxCost?: string;
+  researchPlan?: boolean | string; // --research-plan [model]
+  referenceClass?: boolean; // false with --no-reference-class
+  researchMaxAge?: string;
+}): ExperimentRunOptions {
+  const models = options.models?.split(',').map(model => model.trim()).filter(Boolean);
+  const unknownModels = models?.filter(model => !isModelId(model)) ?? [];
+  if (unknownModels.length > 0) {
+    logger.error({ models: unknownModels }, 'Invalid models');
+    console.error(`Error: --models must be model IDs from ${getAvailableModels().join(', ')} (unknown: ${unknownModels.join(', ')})`);
+    process.exit(1);
+  }
+
+  if (options.aggregator && !isEnsembleAggregator(options.aggregator)) {
+    logger.error({ aggregator: options.aggregator }, 'Invalid aggregator');
+    console.error(`Error: --aggregator must be one of ${ENSEMBLE_AGGREGATORS.join(', ')}`);
+    process.exit(1);
+  }
+
+  const samples = options.samples !== undefined ? parseInt(options.samples, 10) : undefined;
+  if (samples !== undefined && (isNaN(samples) || samples < 1)) {
+    logger.error({ samples: options.samples }, 'Invalid samples');
+    console.error('Error: --samples must be a positive integer');
+    process.exit(1);
+  }
+
+  if (options.priceMode && !isPriceMode(options.priceMode)) {
+    logger.error({ priceMode: options.priceMode }, 'Invalid price mode');
+    console.error(`Error: --price-mode must be one of ${PRICE_MODES.join(', ')}`);
+    process.exit(1);
+  }
+
+  const researchMaxSteps = options.researchMaxSteps !== undefined ? parseInt(options.researchMaxSteps, 10) : undefined;
+  if (researchMaxSteps !== undefined && (isNaN(researchMaxSteps) || researchMaxSteps < 1)) {
+    logger.error({ researchMaxSteps: options.researchMaxSteps }, 'Invalid research max steps');
+    console.error('Error: --research-max-steps must be a positive integer');
+    process.exit(1);
+  }
+
+  const researchMaxCost = options.researchMaxCost !== undefined ? parseFloat(options.researchMaxCost) : undefined;
+  if (researchMaxCost !== undefined && (isNaN(researchMaxCost) || researchMaxCost <= 0)) {
+    logger.error({ researchMaxCost: options.researchMaxCost }, 'Invalid research max cost');
+    console.error('Error: --research-max-cost must be a positive number (USD)');
+    process.exit(1);
+  }
+
+  const researchMaxAgeHours = options.researchMaxAge !== undefined ? parseFloat(options.researchMaxAge) : undefined;
+  if (researchMaxAgeHours !== undefined && (isNaN(researchMaxAgeHours) || researchMaxAgeHours < 0)) {
+    logger.error({ researchMaxAge: options.researchMaxAge }, 'Invalid research max age');
+    console.error('Error: --research-max-age must be a non-negative number of hours');
+    process.exit(1);
+  }
+
+  // Either limit implies the research agent
+  const researchAgent =
+    options.researchAgent !== undefined || researchMaxSteps !== undefined || researchMaxCost !== undefined
+      ? {
+          model: typeof options.researchAgent === 'string' ? options.researchAgent : undefined,
+          maxSteps: researchMaxSteps,
+          maxCostUsd: researchMaxCost,
+        }
+      : undefined;
+
+  if (researchAgent && options.researchPlan !== undefined) {
+    console.error('Error: --research-plan cannot be combined with the research agent');
+    process.exit(1);
+  }
+
+  return {
+    models,
+    aggregator: options.aggregator as EnsembleAggregator | undefined,
+    samples,
+    priceMode: options.priceMode as PriceMode | undefined,
+    critic: options.critic !== undefined,
+    criticModel: typeof options.critic === 'string' ? options.critic : undefined,
+    researchAgent,
+    researchPlanner:
+      options.researchPlan !== undefined
+        ? { model: typeof options.researchPlan === 'string' ? options.researchPlan : undefined }
+        : undefined,
+    referenceClass: options.referenceClass,
+    researchMaxAgeHours,
+  };
+}
+
 program
   .name('betteraiengine')
   .description('CLI for BetterAI Engine - AI-enhanced predictions for Polymarket')
@@ -116,14 +251,32 @@ program
   .option('-u, --url <url>', 'Polymarket market URL')
   .option('-s, --slug <slug>', 'Market slug')
   .option('-p, --publish', 'Publish prediction results to GitHub repository (better-labs/prediction-history)')
+  .option('--models <ids>', 'Comma-separated model IDs for ensemble experiments (e.g., openai/gpt-5,x-ai/grok-4)')
+  .option('--aggregator <name>', `Ensemble aggregator: ${ENSEMBLE_AGGREGATORS.join(', ')}`)
+  .option('--samples <n>', 'Sample each prediction N times and derive confidence from their dispersion')
+  .option('--price-mode <mode>', `Market prices in the prompt: ${PRICE_MODES.join(', ')} (default anchored)`)
+  .option('--critic [model]', 'Challenge the prediction with a critic (default: the predicting model), then adjudicate (exp006)')
+  .option('--research-agent [model]', 'Research with a tool-using agent that runs follow-up searches (default: openai/gpt-5)')
+  .option('--research-max-steps <n>', 'Research agent tool-call limit (default 8)')
+  .option('--research-max-cost <usd>', 'Research agent cost limit in USD, agent and tools combined (default 0.50)')
+  .option('--research-plan [model]', 'Plan sub-questions and targeted queries before researching (default: openai/gpt-5)')
+  .option('--no-reference-class', 'Skip the Reference Class section (similar resolved markets from the database)')
+  .option('--research-max-age <hours>', 'Reuse stored Exa/Grok research for the market or event up to this old (default 6, 0 = always search)')
+  .option('--replay', 'Re-run offline from the market snapshot saved with the last run and cached research/model responses (see LLM_CACHE)')
   .action(async (options) => {
+    if (options.replay) {
+      enableReplayMode();
+    }
+
     const marketSlug = getMarketSlug(options);
-    logger.info({ experiment: options.experiment, marketSlug }, 'Starting run:experiment command');
+    const runOptions = getRunOptions(options);
+    logger.info({ experiment: options.experiment, marketSlug, runOptions }, 'Starting run:experiment command');
 
     try {
       const result = await runExperiment({
         experimentNumber: options.experiment,
         marketSlug,
+        runOptions,
       });
 
       if (result.success) {
@@ -186,6 +339,76 @@ program
     }
   });
 
+/**
+ * Command: run:event
+ * Run an experiment over every market in an event and make negRisk probabilities coherent
+ */
+program
+  .command('run:event')
+  .description('Run a prediction experiment on every open market in a Polymarket event')
+  .option('-e, --experiment <number>', 'Experiment number (e.g., 001, 002)', '001')
+  .option('-u, --url <url>', 'Polymarket event URL')
+  .option('-s, --slug <slug>', 'Event slug')
+  .action(async (options) => {
+    const eventSlug = getEventSlug(options);
+    logger.info({ experiment: options.experiment, eventSlug }, 'Starting run:event command');
+
+    try {
+      const result = await runEventExperiment({
+        experimentNumber: options.experiment,
+        eventSlug,
+      });
+
+      const { coherence } = result;
+
+      console.log('\n=== EVENT RUN COMPLETED ===');
+      console.log(`Event: ${result.eventTitle} (${result.eventId})`);
+      console.log(`Experiment: ${result.experimentId}`);
+      console.log(`Mutually exclusive (negRisk): ${result.negRisk ? 'Yes' : 'No'}`);
+      console.log(`Predicted: ${result.predictedCount}/${result.marketCount} markets`);
+      if (result.budgetExceeded) {
+        console.log('Stopped early: budget exceeded');
+      }
+
+      console.table(
+        coherence.results.map(market => ({
+          question: market.question,
+          raw: market.rawProbability !== null ? `${market.rawProbability.toFixed(1)}%` : 'N/A',
+          normalized: market.normalizedProbability !== null ? `${market.normalizedProbability.toFixed(1)}%` : '-',
+          predictionId: market.predictionId ?? market.error ?? '',
+        }))
+      );
+
+      if (coherence.rawProbabilitySum !== null) {
+        console.log(`Raw probability sum: ${coherence.rawProbabilitySum.toFixed(1)}%`);
+      }
+      if (coherence.incoherence !== null) {
+        console.log(`Incoherence: ${coherence.incoherence.toFixed(1)} points`);
+        console.log(
+          coherence.normalized
+            ? 'Normalized probabilities saved to predictions.event_normalized_probability'
+            : 'Not normalized: some markets have no prediction'
+        );
+      }
+
+      console.log(`Run ID: ${result.runId}`);
+      console.log('===========================\n');
+
+      process.exit(result.predictedCount > 0 ? 0 : 1);
+    } catch (error) {
+      logger.error(
+        {
+          error: error instanceof Error ? error.message : String(error),
+          experiment: options.experiment,
+          eventSlug,
+        },
+        'Failed to run event experiment'
+      );
+      console.error('\nError:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
 /**
  * Command: run:experiments-batch
  * Run experiments on multiple markets from a JSON file
@@ -196,7 +419,26 @@ program
   .option('-e, --experiment <number>', 'Experiment number (e.g., 001, 002)', '001')
   .option('-j, --json <path>', 'Path to JSON file containing array of Polymarket market URLs')
   .option('-p, --publish', 'Publish prediction results to GitHub repository for each market')
+  .option('--estimate', 'Project token usage and USD cost from historical averages without running anything')
+  .option('--models <ids>', 'Comma-separated model IDs for ensemble experiments (e.g., openai/gpt-5,x-ai/grok-4)')
+  .option('--aggregator <name>', `Ensemble aggregator: ${ENSEMBLE_AGGREGATORS.join(', ')}`)
+  .option('--samples <n>', 'Sample each prediction N times and derive confidence from their dispersion')
+  .option('--price-mode <mode>', `Market prices in the prompt: ${PRICE_MODES.join(', ')} (default anchored)`)
+  .option('--critic [model]', 'Challenge the prediction with a critic (default: the predicting model), then adjudicate (exp006)')
+  .option('--research-agent [model]', 'Research with a tool-using agent that runs follow-up searches (default: openai/gpt-5)')
+  .option('--research-max-steps <n>', 'Research agent tool-call limit (default 8)')
+  .option('--research-max-cost <usd>', 'Research agent cost limit in USD, agent and tools combined (default 0.50)')
+  .option('--research-plan [model]', 'Plan sub-questions and targeted queries before researching (default: openai/gpt-5)')
+  .option('--no-reference-class', 'Skip the Reference Class section (similar resolved markets from the database)')
+  .option('--research-max-age <hours>', 'Reuse stored Exa/Grok research for the market or event up to this old (default 6, 0 = always search)')
+  .option('--replay', 'Re-run offline from the stored market and cached research/model responses (see LLM_CACHE)')
   .action(async (options) => {
+    if (options.replay) {
+      enableReplayMode();
+    }
+
+    const runOptions = getRunOptions(options);
+
     if (!options.json) {
       logger.error('--json option is required');
       console.error('Error: --json option is required');
@@ -213,6 +455,37 @@ program
         throw new Error('JSON file must contain an array of URLs');
       }
 
+      if (options.estimate) {
+        const experimentId = String(options.experiment).padStart(3, '0');
+        const estimate = await estimateBatchCost(experimentId, urls.length);
+        const budget = await getBudgetStatus();
+        const formatTokens = (value: number | null) => (value === null ? 'N/A' : Math.round(value).toLocaleString());
+        const formatUsd = (value: number | null) => (value === null ? 'N/A' : `$${value.toFixed(4)}`);
+
+        console.log('\n=== BATCH COST ESTIMATE ===');
+        console.log(`Experiment: ${experimentId}`);
+        console.log(`Markets: ${estimate.marketCount}`);
+        console.log(`Based on: ${estimate.samples} recent predictions`);
+
+        if (estimate.samples === 0) {
+          console.log('No prediction history for this experiment, cannot estimate');
+        } else {
+          console.log(`Avg tokens per market: ${formatTokens(estimate.avgPromptTokens)} prompt / ${formatTokens(estimate.avgCompletionTokens)} completion`);
+          console.log(`Avg cost per market: ${formatUsd(estimate.avgCostUsd)}`);
+          console.log(`Projected tokens: ${formatTokens(estimate.projectedPromptTokens)} prompt / ${formatTokens(estimate.projectedCompletionTokens)} completion`);
+          console.log(`Projected cost: ${formatUsd(estimate.projectedCostUsd)}`);
+        }
+
+        for (const period of budget) {
+          if (period.limitUsd !== null) {
+            console.log(`${period.period === 'daily' ? 'Daily' : 'Monthly'} budget: $${period.spentUsd.toFixed(2)} spent of $${period.limitUsd.toFixed(2)} ($${period.remainingUsd!.toFixed(2)} remaining)`);
+          }
+        }
+        console.log('===========================\n');
+
+        process.exit(0);
+      }
+
       console.log(`\n=== BATCH EXPERIMENT RUN ===`);
       console.log(`Experiment: ${options.experiment}`);
       console.log(`Total markets: ${urls.length}\n`);
@@ -229,6 +502,7 @@ program
       const results = [];
       let successCount = 0;
       let failCount = 0;
+      let budgetExceeded = false;
       const gistUrls: string[] = [];
 
       for (let i = 0; i < urls.length; i++) {
@@ -240,6 +514,7 @@ program
           const result = await runExperiment({
             experimentNumber: options.experiment,
             marketSlug,
+            runOptions,
           });
 
           results.push({
@@ -280,6 +555,12 @@ program
             failCount++;
             console.log(`✗ Failed: ${result.error}`);
           }
+
+          if (result.budgetExceeded) {
+            budgetExceeded = true;
+            console.log(`\nBudget exceeded, skipping remaining ${urls.length - i - 1} markets`);
+            break;
+          }
         } catch (error) {
           failCount++;
           const errorMsg = error instanceof Error ? error.message : String(error);
@@ -297,6 +578,9 @@ program
       console.log(`Total: ${urls.length}`);
       console.log(`Success: ${successCount}`);
       console.log(`Failed: ${failCount}`);
+      if (budgetExceeded) {
+        console.log(`Not run (budget exceeded): ${urls.length - successCount - failCount}`);
+      }
 
       if (options.publish && gistUrls.length > 0) {
         console.log(`\n=== PUBLISHED FILES (${gistUrls.length}) ===`);
@@ -368,6 +652,47 @@ program
     }
   });
 
+/**
+ * Command: replay:prediction
+ * Re-send a stored prediction's prompts to another model and save the linked result
+ */
+program
+  .command('replay:prediction')
+  .description('Re-send the stored rawRequest of a prediction to a different model (research is reused, not re-paid)')
+  .requiredOption('-p, --prediction-id <id>', 'Prediction ID (UUID from database)')
+  .requiredOption('-m, --model <id>', 'Model ID to replay with (e.g., anthropic/claude-sonnet-4.5)')
+  .action(async (options) => {
+    try {
+      console.log(`\n=== REPLAYING PREDICTION ${options.predictionId} WITH ${options.model} ===\n`);
+
+      const result = await replayPrediction({ predictionId: options.predictionId, model: options.model });
+
+      if (!result.success) {
+        console.error(`Error: ${result.error}`);
+        process.exit(1);
+      }
+
+      console.log(`New prediction ID: ${result.predictionId}`);
+      console.log(`Probability: ${result.probability?.toFixed(1)}% (original: ${result.originalProbability?.toFixed(1) ?? 'N/A'}%)`);
+      console.log(`Delta vs market at original prediction: ${result.predictionDelta?.toFixed(4) ?? 'N/A'}`);
+      console.log(`Cost: $${result.costUsd?.toFixed(4)}`);
+      console.log('\n=================================\n');
+
+      process.exit(0);
+    } catch (error) {
+      logger.error(
+        {
+          error: error instanceof Error ? error.message : String(error),
+          predictionId: options.predictionId,
+          model: options.model,
+        },
+        'Failed to replay prediction'
+      );
+      console.error('\nError:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
 /**
  * Command: generate:trade
  * Generate a trade plan from an existing prediction
@@ -416,6 +741,15 @@ program
           console.log(`Delta: ${result.metadata.delta.toFixed(2)}%`);
           console.log(`Confidence: ${result.metadata.confidence}%`);
           console.log(`Strategy: ${result.metadata.strategyUsed}`);
+
+          if (result.metadata.outcomeDeltas) {
+            console.log('\nPer-outcome:');
+            result.metadata.outcomeDeltas.forEach(delta => {
+              const marketPrice = delta.marketPrice !== null ? `${(delta.marketPrice * 100).toFixed(2)}%` : 'N/A';
+              const edge = delta.delta !== null ? `${(delta.delta * 100).toFixed(2)}%` : 'N/A';
+              console.log(`- ${delta.outcome}: AI ${delta.probability.toFixed(1)}%, market ${marketPrice}, edge ${edge}`);
+            });
+          }
         }
 
         console.log('\n============================\n');
@@ -448,4 +782,408 @@ program
     }
   });
 
+/**
+ * Command: backfill:predictions
+ * Populate canonical prediction columns from existing JSONB payloads
+ */
+program
+  .command('backfill:predictions')
+  .description('Backfill canonical outcome/probability/confidence/data_quality columns on existing predictions')
+  .option('-a, --all', 'Re-normalize all predictions, not only rows with empty columns')
+  .action(async (options) => {
+    try {
+      console.log('\n=== BACKFILLING PREDICTION COLUMNS ===\n');
+
+      const result = await backfillPredictionColumns({ all: options.all });
+
+      console.log(`Scanned: ${result.scanned}`);
+      console.log(`Updated: ${result.updated}`);
+      console.log(`Failed: ${result.failures.length}`);
+
+      if (result.failures.length > 0) {
+        console.log('\nUnrecognized predictions:');
+        result.failures.forEach(failure => {
+          console.log(`- ${failure.predictionId}: ${failure.error}`);
+        });
+      }
+
+      console.log('\n======================================\n');
+      process.exit(0);
+    } catch (error) {
+      logger.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Failed to backfill predictions'
+      );
+      console.error('\nError:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Command: sync:resolutions
+ * Re-fetch markets referenced by predictions and record how they resolved
+ */
+program
+  .command('sync:resolutions')
+  .description('Fetch resolution outcomes for markets referenced by predictions')
+  .option('-a, --all', 'Re-check markets that already have a recorded resolution')
+  .action(async (options) => {
+    try {
+      console.log('\n=== SYNCING MARKET RESOLUTIONS ===\n');
+
+      const result = await syncMarketResolutions({ all: options.all });
+
+      console.log(`Checked: ${result.checked}`);
+      console.log(`Resolved: ${result.resolved.length}`);
+      console.log(`Still open or pending: ${result.pending.length}`);
+      console.log(`Failed: ${result.failures.length}`);
+
+      if (result.resolved.length > 0) {
+        console.log('\nResolved markets:');
+        result.resolved.forEach(resolution => {
+          console.log(`- ${resolution.marketId}: ${resolution.status}${resolution.resolvedOutcome ? ` (${resolution.resolvedOutcome})` : ''}`);
+        });
+      }
+
+      if (result.failures.length > 0) {
+        console.log('\nFailures:');
+        result.failures.forEach(failure => {
+          console.log(`- ${failure.marketId}: ${failure.error}`);
+        });
+      }
+
+      console.log('\n==================================\n');
+      process.exit(0);
+    } catch (error) {
+      logger.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Failed to sync market resolutions'
+      );
+      console.error('\nError:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Command: report:scores
+ * Score resolved predictions (Brier, log loss, accuracy) against the market-price baseline
+ */
+program
+  .command('report:scores')
+  .description('Score resolved predictions per experiment, model and category against the market baseline')
+  .option('-e, --experiment <number>', 'Only score predictions from this experiment')
+  .option('-o, --output <path>', 'Write the JSON report to a file instead of printing it')
+  .option('--event-normalized', 'Score run:event predictions by their event-normalized probability')
+  .action(async (options) => {
+    try {
+      const report = await buildScoreReport({ experimentId: options.experiment, eventNormalized: options.eventNormalized });
+      const formatScore = (value: number | null, digits = 4) => (value === null ? 'N/A' : value.toFixed(digits));
+
+      console.log('\n=== PREDICTION SCORES ===\n');
+      console.log(`Resolved predictions: ${report.resolvedPredictions}`);
+      console.log(`Skipped (unrecognized or void): ${report.skippedPredictions}\n`);
+
+      console.table(
+        report.groups.map(group => ({
+          Dimension: group.dimension,
+          Key: group.key,
+          Resolved: group.forecast.count,
+          Brier: formatScore(group.forecast.brierScore),
+          'Log Loss': formatScore(group.forecast.logLoss),
+          Accuracy: group.forecast.accuracy === null ? 'N/A' : `${(group.forecast.accuracy * 100).toFixed(1)}%`,
+          'Market Brier': formatScore(group.market.brierScore),
+          'Market N': group.market.count,
+          'Brier vs Market': formatScore(group.brierVsMarket),
+        }))
+      );
+
+      const { anchoring } = report;
+      if (anchoring.count > 0) {
+        console.log(`\nAnchoring (anchored vs blind prompts, ${anchoring.count} pairs, ${anchoring.anchored.count} resolved):`);
+        console.log(`  Mean distance to market: anchored ${formatScore(anchoring.anchoredDistance)}, blind ${formatScore(anchoring.blindDistance)}`);
+        console.log(`  Anchoring bias (blind - anchored distance): ${formatScore(anchoring.anchoringBias)}`);
+        console.table(
+          (['anchored', 'blind', 'market', 'blindMarketBlend'] as const).map(key => ({
+            Forecast: key,
+            Brier: formatScore(anchoring[key].brierScore),
+            'Log Loss': formatScore(anchoring[key].logLoss),
+          }))
+        );
+      }
+
+      if (options.output) {
+        const fs = await import('fs/promises');
+        await fs.writeFile(options.output, JSON.stringify(report, null, 2), 'utf-8');
+        console.log(`\nJSON report written to ${options.output}`);
+      } else {
+        console.log('\nJSON report:');
+        console.log(JSON.stringify(report, null, 2));
+      }
+
+      console.log('\n=========================\n');
+      process.exit(0);
+    } catch (error) {
+      logger.error(
+        { error: error instanceof Error ? error.message : String(error), experiment: options.experiment },
+        'Failed to build score report'
+      );
+      console.error('\nError:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Command: report:costs
+ * Aggregate prediction spend (research + LLM) by day, experiment and model
+ */
+program
+  .command('report:costs')
+  .description('Report prediction spend in USD by day, experiment and model')
+  .option('-e, --experiment <number>', 'Only include predictions from this experiment')
+  .option('-d, --days <number>', 'Only include predictions from the last N days')
+  .option('-o, --output <path>', 'Write the JSON report to a file instead of printing it')
+  .action(async (options) => {
+    const days = options.days ? parseInt(options.days, 10) : undefined;
+    if (days !== undefined && (isNaN(days) || days <= 0)) {
+      console.error('Error: --days must be a positive integer');
+      process.exit(1);
+    }
+
+    try {
+      const since = days !== undefined ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined;
+      const report = await buildCostReport({ experimentId: options.experiment, since });
+      const formatUsd = (value: number | null) => (value === null ? 'N/A' : `$${value.toFixed(4)}`);
+
+      console.log('\n=== PREDICTION COSTS ===\n');
+      if (report.since) {
+        console.log(`Since: ${report.since}\n`);
+      }
+
+      console.table(
+        report.groups.map(group => ({
+          Dimension: group.dimension,
+          Key: group.key,
+          Predictions: group.predictions,
+          'Total (USD)': formatUsd(group.totalCostUsd),
+          'Avg (USD)': formatUsd(group.avgCostUsd),
+          Estimated: group.estimatedPredictions,
+          Unpriced: group.unpricedPredictions,
+          Brier: group.brierScore === null ? '' : group.brierScore.toFixed(4),
+        }))
+      );
+      console.log('Estimated = no stored cost, priced from LLM tokens only (research spend not included)');
+
+      if (options.output) {
+        const fs = await import('fs/promises');
+        await fs.writeFile(options.output, JSON.stringify(report, null, 2), 'utf-8');
+        console.log(`\nJSON report written to ${options.output}`);
+      } else {
+        console.log('\nJSON report:');
+        console.log(JSON.stringify(report, null, 2));
+      }
+
+      console.log('\n========================\n');
+      process.exit(0);
+    } catch (error) {
+      logger.error(
+        { error: error instanceof Error ? error.message : String(error), experiment: options.experiment },
+        'Failed to build cost report'
+      );
+      console.error('\nError:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Command: prompts:diff
+ * Diff two versions of a prompt template and list the predictions made with each
+ */
+program
+  .command('prompts:diff')
+  .description('Diff two prompt template versions and list predictions made with each')
+  .requiredOption('-t, --template <id>', 'Prompt template ID (e.g. exp006-system)')
+  .option('-a, --from <version>', 'Older version (defaults to the version before --to)')
+  .option('-b, --to <version>', 'Newer version (defaults to the latest)')
+  .action(async (options) => {
+    const versions = listPromptTemplateVersions(options.template);
+    if (versions.length === 0) {
+      console.error(`Error: Prompt template ${options.template} is not registered`);
+      process.exit(1);
+    }
+
+    const to = options.to ? getPromptTemplate(options.template, options.to) : versions[versions.length - 1];
+    const toIndex = to ? versions.indexOf(to) : -1;
+    const from = options.from ? getPromptTemplate(options.template, options.from) : versions[toIndex - 1];
+
+    if (!to || !from) {
+      const available = versions.map(template => template.version).join(', ');
+      console.error(
+        versions.length === 1 && !options.from
+          ? `Error: ${options.template} has only one version (${available})`
+          : `Error: Unknown version. Available versions: ${available}`
+      );
+      process.exit(1);
+    }
+
+    try {
+      console.log(`\n=== PROMPT DIFF: ${options.template} ${from.version} -> ${to.version} ===\n`);
+      console.log(`--- ${from.version} (${hashPromptTemplate(from).slice(0, 12)})`);
+      console.log(`+++ ${to.version} (${hashPromptTemplate(to).slice(0, 12)})\n`);
+      console.log(formatDiff(diffLines(from.template, to.template)));
+
+      for (const template of [from, to]) {
+        const rows = await listPredictionsByTemplate(template.id, template.version);
+        console.log(`\nPredictions with ${template.version}: ${rows.length}`);
+        if (rows.length > 0) {
+          console.table(
+            rows.map(row => ({
+              'Prediction ID': row.id,
+              Market: row.marketId,
+              Experiment: row.experimentId,
+              Model: row.model,
+              Probability: row.probability,
+              Created: row.createdAt.toISOString(),
+            }))
+          );
+        }
+      }
+
+      console.log('\n========================\n');
+      process.exit(0);
+    } catch (error) {
+      logger.error(
+        { error: error instanceof Error ? error.message : String(error), template: options.template },
+        'Failed to diff prompt templates'
+      );
+      console.error('\nError:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Command: benchmark:run
+ * Snapshot current market prices for every active prediction and update convergence metrics
+ */
+program
+  .command('benchmark:run')
+  .description('Snapshot market prices for active predictions and track convergence (run hourly via cron)')
+  .option('--every <minutes>', 'Keep running and repeat every N minutes instead of exiting after one run')
+  .action(async (options) => {
+    const intervalMinutes = options.every ? parseFloat(options.every) : undefined;
+    if (intervalMinutes !== undefined && (isNaN(intervalMinutes) || intervalMinutes <= 0)) {
+      console.error('Error: --every must be a positive number of minutes');
+      process.exit(1);
+    }
+
+    const runOnce = async () => {
+      console.log(`\n=== BENCHMARK RUN (${new Date().toISOString()}) ===\n`);
+
+      const result = await runBenchmark();
+
+      console.log(`Processed: ${result.processed}`);
+      console.log(`Converging: ${result.converging}`);
+      console.log(`Diverging: ${result.diverging}`);
+      console.log(`Stable: ${result.stable}`);
+      console.log(`Closed (no longer tracked): ${result.closed}`);
+      console.log(`Failed: ${result.failures.length}`);
+
+      if (result.failures.length > 0) {
+        console.log('\nFailures:');
+        result.failures.forEach(failure => {
+          console.log(`- ${failure.predictionId}: ${failure.error}`);
+        });
+      }
+
+      console.log('\n=================================\n');
+    };
+
+    try {
+      await runOnce();
+
+      if (intervalMinutes === undefined) {
+        process.exit(0);
+      }
+
+      // Simple in-process scheduler; a failed run is logged and retried on the next tick
+      console.log(`Next run in ${intervalMinutes} minute(s). Press Ctrl+C to stop.`);
+      setInterval(() => {
+        runOnce().catch(error => {
+          logger.error({ error: error instanceof Error ? error.message : String(error) }, 'Scheduled benchmark run failed');
+        });
+      }, intervalMinutes * 60 * 1000);
+    } catch (error) {
+      logger.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Failed to run benchmark'
+      );
+      console.error('\nError:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Command: ingest:prices
+ * Append a price snapshot for each market in the watch set
+ */
+program
+  .command('ingest:prices')
+  .description('Capture price snapshots (outcome prices, volume, liquidity) for a watch set of markets')
+  .option('-m, --markets <ids>', 'Comma-separated market IDs (default: open markets with predictions and no resolution)')
+  .option('--every <minutes>', 'Keep running and repeat every N minutes instead of exiting after one run')
+  .action(async (options) => {
+    const intervalMinutes = options.every ? parseFloat(options.every) : undefined;
+    if (intervalMinutes !== undefined && (isNaN(intervalMinutes) || intervalMinutes <= 0)) {
+      console.error('Error: --every must be a positive number of minutes');
+      process.exit(1);
+    }
+
+    const explicitMarketIds: string[] | undefined = options.markets
+      ? options.markets.split(',').map((id: string) => id.trim()).filter(Boolean)
+      : undefined;
+
+    const runOnce = async () => {
+      console.log(`\n=== PRICE INGESTION (${new Date().toISOString()}) ===\n`);
+
+      // Resolve the default watch set on every run so new predictions are picked up
+      const marketIds = explicitMarketIds ?? (await getWatchedMarketIds());
+      console.log(`Markets: ${marketIds.length}`);
+
+      const result = await ingestMarketPrices(marketIds);
+
+      console.log(`Captured: ${result.captured}`);
+      console.log(`Failed: ${result.failures.length}`);
+
+      if (result.failures.length > 0) {
+        console.log('\nFailures:');
+        result.failures.forEach(failure => {
+          console.log(`- ${failure.marketId}: ${failure.error}`);
+        });
+      }
+
+      console.log('\n=================================\n');
+    };
+
+    try {
+      await runOnce();
+
+      if (intervalMinutes === undefined) {
+        process.exit(0);
+      }
+
+      console.log(`Next run in ${intervalMinutes} minute(s). Press Ctrl+C to stop.`);
+      setInterval(() => {
+        runOnce().catch(error => {
+          logger.error({ error: error instanceof Error ? error.message : String(error) }, 'Scheduled price ingestion failed');
+        });
+      }, intervalMinutes * 60 * 1000);
+    } catch (error) {
+      logger.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Failed to ingest market prices'
+      );
+      console.error('\nError:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
 program.parse();
@@ -9,6 +9,18 @@ export const env = {
   get OPENROUTER_API_KEY() {
     return process.env.OPENROUTER_API_KEY || '';
   },
+  get DAILY_BUDGET_USD() {
+    return process.env.DAILY_BUDGET_USD || '';
+  },
+  get MONTHLY_BUDGET_USD() {
+    return process.env.MONTHLY_BUDGET_USD || '';
+  },
+  get LLM_CACHE() {
+    return process.env.LLM_CACHE || 'postgres';
+  },
+  get LLM_CACHE_DIR() {
+    return process.env.LLM_CACHE_DIR || '.cache/llm';
+  },
   get NODE_ENV() {
     return process.env.NODE_ENV || 'development';
   },
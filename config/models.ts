@@ -6,6 +6,7 @@
 export const MODEL_IDS = {
   ANTHROPIC_CLAUDE_SONNET_4_5: 'anthropic/claude-sonnet-4.5',
   XAI_GROK_4: 'x-ai/grok-4',
+  XAI_GROK_3_MINI: 'x-ai/grok-3-mini',
   OPENAI_GPT_5_PRO: 'openai/gpt-5-pro',
   OPENAI_GPT_5: 'openai/gpt-5',
 } as const;
@@ -21,3 +22,98 @@ export type ModelId = typeof MODEL_IDS[keyof typeof MODEL_IDS];
 export function getAvailableModels(): ModelId[] {
   return Object.values(MODEL_IDS);
 }
+
+/**
+ * Whether a string is one of the configured model IDs
+ */
+export function isModelId(value: string): value is ModelId {
+  return (getAvailableModels() as string[]).includes(value);
+}
+
+// tiktoken BPE encodings (js-tiktoken)
+export type TokenizerEncoding = 'o200k_base' | 'cl100k_base';
+
+/**
+ * Context window and maximum completion length in tokens (OpenRouter model listings)
+ */
+export interface ModelLimits {
+  contextWindow: number;
+  maxOutputTokens: number;
+  encoding: TokenizerEncoding; // Counts prompt tokens: OpenAI's own, cl100k_base for models without a public tokenizer
+}
+
+export const MODEL_LIMITS: Record<string, ModelLimits> = {
+  [MODEL_IDS.ANTHROPIC_CLAUDE_SONNET_4_5]: { contextWindow: 200_000, maxOutputTokens: 64_000, encoding: 'cl100k_base' },
+  [MODEL_IDS.XAI_GROK_4]: { contextWindow: 256_000, maxOutputTokens: 64_000, encoding: 'cl100k_base' },
+  [MODEL_IDS.XAI_GROK_3_MINI]: { contextWindow: 131_072, maxOutputTokens: 32_768, encoding: 'cl100k_base' },
+  [MODEL_IDS.OPENAI_GPT_5_PRO]: { contextWindow: 400_000, maxOutputTokens: 128_000, encoding: 'o200k_base' },
+  [MODEL_IDS.OPENAI_GPT_5]: { contextWindow: 400_000, maxOutputTokens: 128_000, encoding: 'o200k_base' },
+  // Legacy services/prediction.ts
+  'anthropic/claude-3.5-sonnet': { contextWindow: 200_000, maxOutputTokens: 8_192, encoding: 'cl100k_base' },
+};
+
+/**
+ * Assumed for models missing from MODEL_LIMITS
+ */
+export const DEFAULT_MODEL_LIMITS: ModelLimits = { contextWindow: 128_000, maxOutputTokens: 16_384, encoding: 'cl100k_base' };
+
+/**
+ * Get the context window and output limit for a model (DEFAULT_MODEL_LIMITS when it is not listed)
+ */
+export function getModelLimits(model: string): ModelLimits {
+  return MODEL_LIMITS[model] ?? DEFAULT_MODEL_LIMITS;
+}
+
+/**
+ * Models that accept OpenRouter response_format JSON schemas (native structured output)
+ * Other models get the schema in the prompt only and are validated after the fact.
+ */
+export const STRUCTURED_OUTPUT_MODELS: ReadonlySet<string> = new Set([
+  MODEL_IDS.OPENAI_GPT_5,
+  MODEL_IDS.OPENAI_GPT_5_PRO,
+  MODEL_IDS.XAI_GROK_4,
+]);
+
+/**
+ * Whether a model supports native structured output
+ */
+export function supportsStructuredOutput(model: string): boolean {
+  return STRUCTURED_OUTPUT_MODELS.has(model);
+}
+
+/**
+ * Token pricing in USD per million tokens (OpenRouter list prices)
+ * Reasoning tokens are billed as output tokens.
+ */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  [MODEL_IDS.ANTHROPIC_CLAUDE_SONNET_4_5]: { inputPerMillion: 3, outputPerMillion: 15 },
+  [MODEL_IDS.XAI_GROK_4]: { inputPerMillion: 3, outputPerMillion: 15 },
+  [MODEL_IDS.XAI_GROK_3_MINI]: { inputPerMillion: 0.3, outputPerMillion: 0.5 },
+  [MODEL_IDS.OPENAI_GPT_5_PRO]: { inputPerMillion: 15, outputPerMillion: 120 },
+  [MODEL_IDS.OPENAI_GPT_5]: { inputPerMillion: 1.25, outputPerMillion: 10 },
+  'anthropic/claude-3.5-sonnet': { inputPerMillion: 3, outputPerMillion: 15 }, // Legacy services/prediction.ts
+};
+
+/**
+ * Research provider pricing in USD
+ * Exa bills per search request plus per result for each content type (text, highlights, summary).
+ * Grok search is an LLM call and is priced from MODEL_PRICING.
+ */
+export const RESEARCH_PRICING = {
+  exa: {
+    searchPerRequest: 0.005, // Neural/auto search, 1-25 results
+    contentPerResult: 0.001, // Per result, per requested content type
+  },
+} as const;
+
+/**
+ * Get pricing for a model, or undefined when it is not listed
+ */
+export function getModelPricing(model: string): ModelPricing | undefined {
+  return MODEL_PRICING[model];
+}
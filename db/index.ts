@@ -1,10 +1,14 @@
 import { drizzle } from 'drizzle-orm/postgres-js';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
 import postgres from 'postgres';
 import * as schema from './schema.js';
 
+// Any drizzle Postgres driver with the app schema (postgres-js here, PGlite in tests)
+type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
 // Lazy initialization to ensure environment variables are loaded
 let _client: ReturnType<typeof postgres> | null = null;
-let _db: ReturnType<typeof drizzle> | null = null;
+let _db: Database | null = null;
 
 function getDb() {
   if (!_db) {
@@ -31,11 +35,30 @@ function getDb() {
 }
 
 // Export lazy-initialized db instance
-export const db = new Proxy({} as ReturnType<typeof drizzle>, {
+export const db = new Proxy({} as Database, {
   get(_target, prop) {
-    return getDb()[prop as keyof ReturnType<typeof drizzle>];
+    return getDb()[prop as keyof Database];
   },
 });
 
+/**
+ * Route queries to another drizzle database, e.g. an in-process PGlite database in tests
+ * closeDb() goes back to connecting with DATABASE_URL.
+ */
+export function setDb(database: Database) {
+  _db = database;
+}
+
+/**
+ * Close the connection pool (the next query reconnects using the current DATABASE_URL)
+ */
+export async function closeDb() {
+  if (_client) {
+    await _client.end();
+    _client = null;
+  }
+  _db = null;
+}
+
 // Export schema for easy access
 export * from './schema.js';
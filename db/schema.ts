@@ -1,4 +1,4 @@
-import { pgTable, text, timestamp, jsonb, serial, uuid, integer, boolean, real } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, jsonb, serial, uuid, integer, boolean, real, index, doublePrecision } from 'drizzle-orm/pg-core';
 import { sql } from 'drizzle-orm';
 
 // Raw Event table - stores pure JSONB from Polymarket API
@@ -100,6 +100,14 @@ export const predictionJobs = pgTable('prediction_jobs', {
   completedAt: timestamp('completed_at'),
   error: text('error'),
 
+  // Failed jobs: what the run spent before failing
+  rawResponse: jsonb('raw_response'), // Model attempts (content, validation errors, provider body)
+  promptTokens: integer('prompt_tokens'),
+  completionTokens: integer('completion_tokens'),
+  reasoningTokens: integer('reasoning_tokens'),
+  costUsd: doublePrecision('cost_usd'), // Research + LLM calls
+  costBreakdown: jsonb('cost_breakdown'), // Cost by stage, see utils/cost.ts CostBreakdown
+
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -113,21 +121,241 @@ export const predictions = pgTable('predictions', {
 
   // Prediction output
   prediction: jsonb('prediction').notNull(), // Structured prediction output
+  // Canonical prediction fields (normalized from the JSONB payload, see services/prediction-record.ts)
+  outcome: text('outcome'), // YES, NO, UNCERTAIN (or the predicted outcome label for categorical markets)
+  probability: real('probability'), // 0-100, probability of YES (first outcome for categorical markets)
+  outcomeProbabilities: jsonb('outcome_probabilities'), // Categorical markets: [{ outcome, probability (0-100), marketPrice (0-1) }]
+  confidence: real('confidence'), // 0-100
+  dataQuality: real('data_quality'), // 0-100
   rawRequest: jsonb('raw_request'), // Raw LLM request (system + user prompts) for debugging
   rawResponse: jsonb('raw_response'), // Raw LLM response for debugging
+  promptTemplates: jsonb('prompt_templates'), // [{ id, version, hash }] of every prompt template used
   researchContext: text('research_context'), // Web research context used for prediction
+  researchTrace: jsonb('research_trace'), // Research agent tool calls, see services/research-agent.ts ResearchTrace
+  researchPlan: jsonb('research_plan'), // Planned sub-questions, queries and per-query results, see services/research-planner.ts ResearchPlan
+  marketSnapshot: jsonb('market_snapshot'), // Market as the run saw it (Gamma API shape), rebuilt from by --replay
+  researchAsOf: timestamp('research_as_of'), // Run time research was gathered as of (source recency, reference-class cutoff), reused by --replay
 
   // Model info
   model: text('model'),
   promptTokens: integer('prompt_tokens'),
   completionTokens: integer('completion_tokens'),
+  reasoningTokens: integer('reasoning_tokens'), // Part of completion tokens, for reasoning models
+  costUsd: doublePrecision('cost_usd'), // Total run cost (research + LLM calls)
+  costBreakdown: jsonb('cost_breakdown'), // Cost by stage, see utils/cost.ts CostBreakdown
 
   // Prediction metrics
   predictionDelta: real('prediction_delta'),
+  marketProbability: real('market_probability'), // Market YES price (0-1) at prediction time
+  eventNormalizedProbability: real('event_normalized_probability'), // 0-100, YES probability rescaled across a negRisk event (see event_prediction_runs)
+  replayOfPredictionId: uuid('replay_of_prediction_id'), // Original prediction whose stored request was re-sent (replay:prediction)
+
+  // Anchoring: forecasts with and without market prices in the prompt (--price-mode)
+  priceMode: text('price_mode'), // anchored, blind or both; null for predictions made before price modes (anchored)
+  anchoredProbability: real('anchored_probability'), // 0-100, YES probability with market prices in the prompt (before any critique)
+  blindProbability: real('blind_probability'), // 0-100, YES probability with market prices withheld
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Event Prediction Runs table - one experiment run over every market in an event
+export const eventPredictionRuns = pgTable('event_prediction_runs', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  eventId: text('event_id').references(() => events.eventId).notNull(),
+  experimentId: text('experiment_id').notNull(),
+  negRisk: boolean('neg_risk').notNull().default(false), // Markets are mutually exclusive
+
+  marketCount: integer('market_count').notNull(), // Open markets in the event
+  predictedCount: integer('predicted_count').notNull(), // Markets with a successful prediction
+  rawProbabilitySum: real('raw_probability_sum'), // Sum of raw YES probabilities (0-100 scale)
+  incoherence: real('incoherence'), // |raw sum - 100| for negRisk events, null otherwise
+  normalized: boolean('normalized').notNull().default(false), // Probabilities rescaled to sum to 100
+
+  // Per-market results: [{ marketId, predictionId, question, rawProbability, normalizedProbability, error }]
+  results: jsonb('results').notNull(),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('idx_event_prediction_runs_event_id').on(table.eventId),
+]);
+
+// Market Resolutions table - ground truth for how a market actually resolved
+export const marketResolutions = pgTable('market_resolutions', {
+  id: serial('id').primaryKey(),
+  marketId: text('market_id').references(() => markets.marketId).notNull().unique(),
+
+  status: text('status').notNull(), // RESOLVED, VOID (50/50 resolution)
+  resolvedOutcome: text('resolved_outcome'), // Winning outcome label (e.g. 'Yes'), null when VOID
+  resolvedOutcomeIndex: integer('resolved_outcome_index'), // Index into outcomes/outcomePrices/clobTokenIds
+  finalOutcomePrices: jsonb('final_outcome_prices'), // Final outcomePrices as number array
+  umaResolutionStatus: text('uma_resolution_status'),
+  resolvedAt: timestamp('resolved_at'), // From closedTime, falls back to endDate
+
+  // Source payload from Gamma API at resolution time
+  data: jsonb('data').notNull(),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Market Price Snapshots table - append-only price history, one row per fetch
+export const marketPriceSnapshots = pgTable('market_price_snapshots', {
+  id: serial('id').primaryKey(),
+  marketId: text('market_id').references(() => markets.marketId).notNull(),
+
+  outcomePrices: jsonb('outcome_prices').notNull(), // Parsed outcomePrices as number array
+  yesPrice: real('yes_price'), // First outcome price (0-1)
+  volume: doublePrecision('volume'), // Numeric (unlike markets.volume) so series can be queried/aggregated
+  liquidity: doublePrecision('liquidity'),
+
+  source: text('source').notNull(), // ingest, ingest:prices, benchmark, sync:resolutions
+  capturedAt: timestamp('captured_at').defaultNow().notNull(),
+}, (table) => [
+  index('idx_market_price_snapshots_market_time').on(table.marketId, table.capturedAt),
+]);
+
+// Spend Ledger table - one row per paid LLM or research call, used to enforce budgets
+export const spendLedger = pgTable('spend_ledger', {
+  id: serial('id').primaryKey(),
+  source: text('source').notNull(), // llm, exa
+  model: text('model'), // LLM model ID (llm source only)
+  costUsd: doublePrecision('cost_usd'), // Null when the call could not be priced
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('idx_spend_ledger_created_at').on(table.createdAt),
+]);
 
+// LLM Cache table - full LLM and research responses keyed by a hash of the request, used for replay
+export const llmCache = pgTable('llm_cache', {
+  key: text('key').primaryKey(), // sha256 of source + normalized request, see services/llm-cache.ts
+  source: text('source').notNull(), // llm, exa
+  model: text('model'), // LLM model ID (llm source only)
+  request: jsonb('request').notNull(),
+  response: jsonb('response').notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Benchmark Snapshots table - hourly snapshots of prediction vs market delta
+// See design/benchmark-service-design.md
+export const benchmarkSnapshots = pgTable('benchmark_snapshots', {
+  id: serial('id').primaryKey(),
+  predictionId: uuid('prediction_id').references(() => predictions.id).notNull(),
+  marketId: text('market_id').references(() => markets.marketId).notNull(),
+  snapshotAt: timestamp('snapshot_at').defaultNow().notNull(),
+
+  // Market state
+  marketPriceYes: real('market_price_yes').notNull(),
+  marketPriceNo: real('market_price_no').notNull(),
+  marketClosed: boolean('market_closed').notNull().default(false),
+
+  // Prediction state
+  predictedProbability: real('predicted_probability').notNull(), // 0-100
+  predictedConfidence: real('predicted_confidence'),
+
+  // Metrics (deltas and rates in 0-1 price units)
+  absDelta: real('abs_delta').notNull(),
+  movementDirection: text('movement_direction'), // CONVERGING, DIVERGING, STABLE
+  convergenceRate: real('convergence_rate'), // Delta reduction per hour since previous snapshot
+  cumulativeConvergence: real('cumulative_convergence'), // Initial delta minus current delta
+  hoursSincePrediction: integer('hours_since_prediction'),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('idx_benchmark_snapshots_prediction_id').on(table.predictionId),
+  index('idx_benchmark_snapshots_snapshot_at').on(table.snapshotAt),
+]);
+
+// Benchmark Summary table - aggregated benchmark metrics per prediction
+export const benchmarkSummary = pgTable('benchmark_summary', {
+  id: serial('id').primaryKey(),
+  predictionId: uuid('prediction_id').references(() => predictions.id).notNull().unique(),
+  marketId: text('market_id').references(() => markets.marketId).notNull(),
+  experimentId: text('experiment_id').notNull(),
+
+  // Initial state
+  predictedAt: timestamp('predicted_at').notNull(),
+  predictedProbability: real('predicted_probability').notNull(),
+  predictedConfidence: real('predicted_confidence'),
+  initialMarketPrice: real('initial_market_price').notNull(),
+  initialDelta: real('initial_delta').notNull(),
+
+  // Current state
+  latestMarketPrice: real('latest_market_price'),
+  latestDelta: real('latest_delta'),
+  marketClosed: boolean('market_closed').notNull().default(false),
+
+  // Performance metrics
+  totalSnapshots: integer('total_snapshots').notNull().default(0),
+  hoursTracked: integer('hours_tracked').notNull().default(0),
+  convergingSnapshots: integer('converging_snapshots').notNull().default(0),
+  divergingSnapshots: integer('diverging_snapshots').notNull().default(0),
+  stableSnapshots: integer('stable_snapshots').notNull().default(0),
+  avgConvergenceRate: real('avg_convergence_rate'),
+  cumulativeConvergence: real('cumulative_convergence'),
+  convergencePercentage: real('convergence_percentage'),
+
+  // Status
+  benchmarkStatus: text('benchmark_status').notNull().default('ACTIVE'), // ACTIVE, CLOSED
+  lastBenchmarkedAt: timestamp('last_benchmarked_at'),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('idx_benchmark_summary_prediction_id').on(table.predictionId),
+  index('idx_benchmark_summary_experiment_id').on(table.experimentId),
+]);
+
+// Research Runs table - one research provider search for a market, reused within a freshness window
+export const researchRuns = pgTable('research_runs', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  marketId: text('market_id').references(() => markets.marketId).notNull(),
+  eventId: text('event_id'), // Gamma event ID, so runs can be reused across markets in the event
+  provider: text('provider').notNull(), // Research provider ID (exa, grok), see services/research-providers.ts
+  query: text('query').notNull(),
+  success: boolean('success').notNull(),
+  error: text('error'),
+  sourceCount: integer('source_count').notNull().default(0),
+  characters: integer('characters').notNull().default(0),
+  truncated: boolean('truncated').notNull().default(false), // Results dropped to fit the character budget
+  costUsd: doublePrecision('cost_usd'),
+  fetchedAt: timestamp('fetched_at').defaultNow().notNull(),
+}, (table) => [
+  index('idx_research_runs_market_time').on(table.marketId, table.fetchedAt),
+  index('idx_research_runs_event_time').on(table.eventId, table.fetchedAt),
+]);
+
+// Research Sources table - one result returned by a research run, in provider order
+export const researchSources = pgTable('research_sources', {
+  id: serial('id').primaryKey(),
+  runId: uuid('run_id').references(() => researchRuns.id).notNull(),
+  position: integer('position').notNull(), // 0-based rank within the run
+  url: text('url').notNull(),
+  title: text('title'),
+  publishedDate: text('published_date'), // As returned by the provider
+  author: text('author'),
+  source: text('source'), // Publication or site name (Grok)
+  summary: text('summary'),
+  text: text('text'), // Page text (Exa) or snippet (Grok)
+  highlights: jsonb('highlights'), // string[]
+  score: real('score'), // Provider relevance score
+  fetchedAt: timestamp('fetched_at').defaultNow().notNull(),
+}, (table) => [
+  index('idx_research_sources_run_id').on(table.runId),
+  index('idx_research_sources_url').on(table.url),
+]);
+
+// Prediction Research Sources table - which sources made it into a prediction's prompt
+export const predictionResearchSources = pgTable('prediction_research_sources', {
+  id: serial('id').primaryKey(),
+  predictionId: uuid('prediction_id').references(() => predictions.id).notNull(),
+  sourceId: integer('source_id').references(() => researchSources.id).notNull(),
+  position: integer('position').notNull(), // Order in the research context
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('idx_prediction_research_sources_prediction_id').on(table.predictionId),
+  index('idx_prediction_research_sources_source_id').on(table.sourceId),
+]);
+
 export type RawEvent = typeof rawEvents.$inferSelect;
 export type NewRawEvent = typeof rawEvents.$inferInsert;
 export type RawMarket = typeof rawMarkets.$inferSelect;
@@ -140,3 +368,19 @@ export type PredictionJob = typeof predictionJobs.$inferSelect;
 export type NewPredictionJob = typeof predictionJobs.$inferInsert;
 export type Prediction = typeof predictions.$inferSelect;
 export type NewPrediction = typeof predictions.$inferInsert;
+export type MarketResolution = typeof marketResolutions.$inferSelect;
+export type NewMarketResolution = typeof marketResolutions.$inferInsert;
+export type BenchmarkSnapshot = typeof benchmarkSnapshots.$inferSelect;
+export type NewBenchmarkSnapshot = typeof benchmarkSnapshots.$inferInsert;
+export type BenchmarkSummary = typeof benchmarkSummary.$inferSelect;
+export type NewBenchmarkSummary = typeof benchmarkSummary.$inferInsert;
+export type MarketPriceSnapshot = typeof marketPriceSnapshots.$inferSelect;
+export type NewMarketPriceSnapshot = typeof marketPriceSnapshots.$inferInsert;
+export type EventPredictionRun = typeof eventPredictionRuns.$inferSelect;
+export type NewEventPredictionRun = typeof eventPredictionRuns.$inferInsert;
+export type SpendLedgerEntry = typeof spendLedger.$inferSelect;
+export type NewSpendLedgerEntry = typeof spendLedger.$inferInsert;
+export type ResearchRun = typeof researchRuns.$inferSelect;
+export type NewResearchRun = typeof researchRuns.$inferInsert;
+export type ResearchSource = typeof researchSources.$inferSelect;
+export type NewResearchSource = typeof researchSources.$inferInsert;
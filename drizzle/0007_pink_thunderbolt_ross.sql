@@ -0,0 +1,4 @@
+ALTER TABLE "predictions" ADD COLUMN "outcome" text;--> statement-breakpoint
+ALTER TABLE "predictions" ADD COLUMN "probability" real;--> statement-breakpoint
+ALTER TABLE "predictions" ADD COLUMN "confidence" real;--> statement-breakpoint
+ALTER TABLE "predictions" ADD COLUMN "data_quality" real;
\ No newline at end of file
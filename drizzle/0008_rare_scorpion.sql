@@ -0,0 +1,16 @@
+CREATE TABLE "market_resolutions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"market_id" text NOT NULL,
+	"status" text NOT NULL,
+	"resolved_outcome" text,
+	"resolved_outcome_index" integer,
+	"final_outcome_prices" jsonb,
+	"uma_resolution_status" text,
+	"resolved_at" timestamp,
+	"data" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "market_resolutions_market_id_unique" UNIQUE("market_id")
+);
+--> statement-breakpoint
+ALTER TABLE "market_resolutions" ADD CONSTRAINT "market_resolutions_market_id_markets_market_id_fk" FOREIGN KEY ("market_id") REFERENCES "public"."markets"("market_id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "predictions" ADD COLUMN "market_probability" real;
\ No newline at end of file
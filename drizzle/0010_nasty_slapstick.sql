@@ -0,0 +1,54 @@
+CREATE TABLE "benchmark_snapshots" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"prediction_id" uuid NOT NULL,
+	"market_id" text NOT NULL,
+	"snapshot_at" timestamp DEFAULT now() NOT NULL,
+	"market_price_yes" real NOT NULL,
+	"market_price_no" real NOT NULL,
+	"market_closed" boolean DEFAULT false NOT NULL,
+	"predicted_probability" real NOT NULL,
+	"predicted_confidence" real,
+	"abs_delta" real NOT NULL,
+	"movement_direction" text,
+	"convergence_rate" real,
+	"cumulative_convergence" real,
+	"hours_since_prediction" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "benchmark_summary" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"prediction_id" uuid NOT NULL,
+	"market_id" text NOT NULL,
+	"experiment_id" text NOT NULL,
+	"predicted_at" timestamp NOT NULL,
+	"predicted_probability" real NOT NULL,
+	"predicted_confidence" real,
+	"initial_market_price" real NOT NULL,
+	"initial_delta" real NOT NULL,
+	"latest_market_price" real,
+	"latest_delta" real,
+	"market_closed" boolean DEFAULT false NOT NULL,
+	"total_snapshots" integer DEFAULT 0 NOT NULL,
+	"hours_tracked" integer DEFAULT 0 NOT NULL,
+	"converging_snapshots" integer DEFAULT 0 NOT NULL,
+	"diverging_snapshots" integer DEFAULT 0 NOT NULL,
+	"stable_snapshots" integer DEFAULT 0 NOT NULL,
+	"avg_convergence_rate" real,
+	"cumulative_convergence" real,
+	"convergence_percentage" real,
+	"benchmark_status" text DEFAULT 'ACTIVE' NOT NULL,
+	"last_benchmarked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "benchmark_summary_prediction_id_unique" UNIQUE("prediction_id")
+);
+--> statement-breakpoint
+ALTER TABLE "benchmark_snapshots" ADD CONSTRAINT "benchmark_snapshots_prediction_id_predictions_id_fk" FOREIGN KEY ("prediction_id") REFERENCES "public"."predictions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "benchmark_snapshots" ADD CONSTRAINT "benchmark_snapshots_market_id_markets_market_id_fk" FOREIGN KEY ("market_id") REFERENCES "public"."markets"("market_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "benchmark_summary" ADD CONSTRAINT "benchmark_summary_prediction_id_predictions_id_fk" FOREIGN KEY ("prediction_id") REFERENCES "public"."predictions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "benchmark_summary" ADD CONSTRAINT "benchmark_summary_market_id_markets_market_id_fk" FOREIGN KEY ("market_id") REFERENCES "public"."markets"("market_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_benchmark_snapshots_prediction_id" ON "benchmark_snapshots" USING btree ("prediction_id");--> statement-breakpoint
+CREATE INDEX "idx_benchmark_snapshots_snapshot_at" ON "benchmark_snapshots" USING btree ("snapshot_at");--> statement-breakpoint
+CREATE INDEX "idx_benchmark_summary_prediction_id" ON "benchmark_summary" USING btree ("prediction_id");--> statement-breakpoint
+CREATE INDEX "idx_benchmark_summary_experiment_id" ON "benchmark_summary" USING btree ("experiment_id");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "market_price_snapshots" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"market_id" text NOT NULL,
+	"outcome_prices" jsonb NOT NULL,
+	"yes_price" real,
+	"volume" double precision,
+	"liquidity" double precision,
+	"source" text NOT NULL,
+	"captured_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "market_price_snapshots" ADD CONSTRAINT "market_price_snapshots_market_id_markets_market_id_fk" FOREIGN KEY ("market_id") REFERENCES "public"."markets"("market_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_market_price_snapshots_market_time" ON "market_price_snapshots" USING btree ("market_id","captured_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "predictions" ADD COLUMN "outcome_probabilities" jsonb;
\ No newline at end of file
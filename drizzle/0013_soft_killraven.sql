@@ -0,0 +1,17 @@
+CREATE TABLE "event_prediction_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"event_id" text NOT NULL,
+	"experiment_id" text NOT NULL,
+	"neg_risk" boolean DEFAULT false NOT NULL,
+	"market_count" integer NOT NULL,
+	"predicted_count" integer NOT NULL,
+	"raw_probability_sum" real,
+	"incoherence" real,
+	"normalized" boolean DEFAULT false NOT NULL,
+	"results" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "predictions" ADD COLUMN "event_normalized_probability" real;--> statement-breakpoint
+ALTER TABLE "event_prediction_runs" ADD CONSTRAINT "event_prediction_runs_event_id_events_event_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."events"("event_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_event_prediction_runs_event_id" ON "event_prediction_runs" USING btree ("event_id");
\ No newline at end of file
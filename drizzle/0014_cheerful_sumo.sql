@@ -0,0 +1 @@
+ALTER TABLE "predictions" ADD COLUMN "reasoning_tokens" integer;
\ No newline at end of file
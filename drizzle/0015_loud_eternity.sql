@@ -0,0 +1,2 @@
+ALTER TABLE "predictions" ADD COLUMN "cost_usd" double precision;--> statement-breakpoint
+ALTER TABLE "predictions" ADD COLUMN "cost_breakdown" jsonb;
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "spend_ledger" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"source" text NOT NULL,
+	"model" text,
+	"cost_usd" double precision,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "idx_spend_ledger_created_at" ON "spend_ledger" USING btree ("created_at");
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "prediction_jobs" ADD COLUMN "raw_response" jsonb;--> statement-breakpoint
+ALTER TABLE "prediction_jobs" ADD COLUMN "prompt_tokens" integer;--> statement-breakpoint
+ALTER TABLE "prediction_jobs" ADD COLUMN "completion_tokens" integer;--> statement-breakpoint
+ALTER TABLE "prediction_jobs" ADD COLUMN "reasoning_tokens" integer;--> statement-breakpoint
+ALTER TABLE "prediction_jobs" ADD COLUMN "cost_usd" double precision;--> statement-breakpoint
+ALTER TABLE "prediction_jobs" ADD COLUMN "cost_breakdown" jsonb;
\ No newline at end of file
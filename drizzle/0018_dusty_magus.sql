@@ -0,0 +1 @@
+ALTER TABLE "predictions" ADD COLUMN "prompt_templates" jsonb;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "llm_cache" (
+	"key" text PRIMARY KEY NOT NULL,
+	"source" text NOT NULL,
+	"model" text,
+	"request" jsonb NOT NULL,
+	"response" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "predictions" ADD COLUMN "market_snapshot" jsonb;--> statement-breakpoint
+ALTER TABLE "predictions" ADD COLUMN "replay_of_prediction_id" uuid;
\ No newline at end of file
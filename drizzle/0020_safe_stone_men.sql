@@ -0,0 +1,3 @@
+ALTER TABLE "predictions" ADD COLUMN "price_mode" text;--> statement-breakpoint
+ALTER TABLE "predictions" ADD COLUMN "anchored_probability" real;--> statement-breakpoint
+ALTER TABLE "predictions" ADD COLUMN "blind_probability" real;
\ No newline at end of file
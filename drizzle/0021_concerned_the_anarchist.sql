@@ -0,0 +1 @@
+ALTER TABLE "predictions" ADD COLUMN "research_trace" jsonb;
\ No newline at end of file
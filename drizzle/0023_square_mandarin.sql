@@ -0,0 +1,49 @@
+CREATE TABLE "prediction_research_sources" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"prediction_id" uuid NOT NULL,
+	"source_id" integer NOT NULL,
+	"position" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "research_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"market_id" text NOT NULL,
+	"event_id" text,
+	"provider" text NOT NULL,
+	"query" text NOT NULL,
+	"success" boolean NOT NULL,
+	"error" text,
+	"source_count" integer DEFAULT 0 NOT NULL,
+	"characters" integer DEFAULT 0 NOT NULL,
+	"truncated" boolean DEFAULT false NOT NULL,
+	"cost_usd" double precision,
+	"fetched_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "research_sources" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"run_id" uuid NOT NULL,
+	"position" integer NOT NULL,
+	"url" text NOT NULL,
+	"title" text,
+	"published_date" text,
+	"author" text,
+	"source" text,
+	"summary" text,
+	"text" text,
+	"highlights" jsonb,
+	"score" real,
+	"fetched_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "prediction_research_sources" ADD CONSTRAINT "prediction_research_sources_prediction_id_predictions_id_fk" FOREIGN KEY ("prediction_id") REFERENCES "public"."predictions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "prediction_research_sources" ADD CONSTRAINT "prediction_research_sources_source_id_research_sources_id_fk" FOREIGN KEY ("source_id") REFERENCES "public"."research_sources"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "research_runs" ADD CONSTRAINT "research_runs_market_id_markets_market_id_fk" FOREIGN KEY ("market_id") REFERENCES "public"."markets"("market_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "research_sources" ADD CONSTRAINT "research_sources_run_id_research_runs_id_fk" FOREIGN KEY ("run_id") REFERENCES "public"."research_runs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_prediction_research_sources_prediction_id" ON "prediction_research_sources" USING btree ("prediction_id");--> statement-breakpoint
+CREATE INDEX "idx_prediction_research_sources_source_id" ON "prediction_research_sources" USING btree ("source_id");--> statement-breakpoint
+CREATE INDEX "idx_research_runs_market_time" ON "research_runs" USING btree ("market_id","fetched_at");--> statement-breakpoint
+CREATE INDEX "idx_research_runs_event_time" ON "research_runs" USING btree ("event_id","fetched_at");--> statement-breakpoint
+CREATE INDEX "idx_research_sources_run_id" ON "research_sources" USING btree ("run_id");--> statement-breakpoint
+CREATE INDEX "idx_research_sources_url" ON "research_sources" USING btree ("url");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "predictions" ADD COLUMN "research_as_of" timestamp;
\ No newline at end of file
@@ -22,6 +22,18 @@ export const experimentRegistry: ExperimentRegistry = {
     updatedAt: '2025-11-04',
     loader: () => import('./exp006/main.js'),
   },
+  '007': {
+    id: '007',
+    name: 'Experiment 007',
+    description: 'Multi-model ensemble: exp006 research and prompts run through several models, probabilities combined by a configurable aggregator.',
+    version: '1.0.0',
+    author: 'BetterAI Team',
+    enabled: true,
+    tags: ['ensemble', 'gpt-5', 'sonnet-4.5', 'grok-4', 'exa-ai', 'grok-ai', 'web-research', 'structured-output', 'aggregation'],
+    createdAt: '2026-10-18',
+    updatedAt: '2026-10-18',
+    loader: () => import('./exp007/main.js'),
+  },
 };
 
 /**
@@ -0,0 +1,220 @@
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { logger } from '../../utils/logger.js';
+import type { CostItem } from '../../utils/cost.js';
+import { PolymarketMarket } from '../../services/polymarket.js';
+import { sumUsage, type LlmMessage, type LlmUsage } from '../../services/llm-client.js';
+import { completeStructured, isStructuredOutputError } from '../../services/structured-output.js';
+import { isBudgetExceededError } from '../../services/budget.js';
+import { renderPrompt, type PromptTemplateRef } from '../../services/prompt-templates.js';
+import { generatePrediction } from './generate-prediction.js';
+import { CritiqueSchema, type CritiqueOutput, type PredictionOutput } from './schemas.js';
+
+export interface CritiquePredictionOptions {
+  market: PolymarketMarket;
+  researchContext: string;
+  systemPrompt: string; // Prediction prompts, reused for adjudication
+  contextPrompt: string;
+  prediction: PredictionOutput; // Initial prediction to challenge
+  model: string; // Predicting model, also adjudicates
+  criticModel?: string; // Defaults to the predicting model
+  temperature?: number;
+  outcomeLabels?: string[];
+  samples?: number; // Self-consistency samples for the adjudicated prediction, as for the initial one
+}
+
+export interface CritiquePredictionResult {
+  success: boolean;
+  criticModel: string;
+  critique?: CritiqueOutput;
+  prediction?: PredictionOutput; // Adjudicated (final) prediction
+  criticMessages: LlmMessage[];
+  adjudicationMessages?: LlmMessage[];
+  templates: PromptTemplateRef[];
+  rawResponse: { critique?: any; adjudication?: any };
+  costItems: CostItem[]; // 'critique' and 'adjudication' stages
+  usage?: LlmUsage; // Summed over both calls
+  error?: string;
+}
+
+/**
+ * Summarize a prediction for the critic and adjudicator (self-consistency samples left out)
+ */
+function formatInitialPrediction(prediction: PredictionOutput): string {
+  const { selfConsistency, lastUpdated, ...summary } = prediction;
+  return JSON.stringify(summary, null, 2);
+}
+
+/**
+ * Challenge a prediction: a critic argues the opposite case from the same research, then
+ * the predicting model adjudicates and produces the revised prediction
+ * Adjudication re-sends the original context prompt, so the final output is validated
+ * against the same schema as the initial prediction.
+ */
+export async function critiquePrediction(options: CritiquePredictionOptions): Promise<CritiquePredictionResult> {
+  const {
+    market,
+    researchContext,
+    systemPrompt,
+    contextPrompt,
+    prediction,
+    model,
+    temperature = 0.7,
+    outcomeLabels,
+    samples,
+  } = options;
+  const criticModel = options.criticModel ?? model;
+  const initialPrediction = formatInitialPrediction(prediction);
+
+  const criticSystem = renderPrompt('exp006-critic-system');
+  const criticContext = renderPrompt('exp006-critic', {
+    question: market.question,
+    description: market.description || 'No description available',
+    researchContext,
+    initialPrediction,
+    schema: JSON.stringify(zodToJsonSchema(CritiqueSchema, { target: 'openApi3', $refStrategy: 'none' }), null, 2),
+  });
+  const criticMessages: LlmMessage[] = [
+    { role: 'system', content: criticSystem.text },
+    { role: 'user', content: criticContext.text },
+  ];
+  const templates = [...criticSystem.templates, ...criticContext.templates];
+  const costItems: CostItem[] = [];
+
+  // Step 1: Critic argues the opposite case
+  let critique: CritiqueOutput;
+  let critiqueResponse: any;
+  let critiqueUsage: LlmUsage;
+  try {
+    const response = await completeStructured({
+      model: criticModel,
+      messages: criticMessages,
+      temperature,
+      schema: CritiqueSchema,
+      schemaName: 'critique',
+    });
+    critique = response.value;
+    critiqueResponse = { nativeStructuredOutput: response.nativeStructuredOutput, attempts: response.attempts };
+    critiqueUsage = response.usage;
+    costItems.push({
+      stage: 'critique',
+      model: criticModel,
+      promptTokens: response.usage.promptTokens,
+      completionTokens: response.usage.completionTokens,
+      costUsd: response.costUsd,
+    });
+  } catch (error) {
+    if (isBudgetExceededError(error)) {
+      throw error;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const attempts = isStructuredOutputError(error) ? error.attempts : undefined;
+    const usage = attempts ? sumUsage(attempts.map(attempt => attempt.usage)) : undefined;
+    logger.error({ experimentId: '006', marketId: market.id, criticModel, error: errorMessage }, 'Critique failed');
+
+    // Invalid responses were still paid for
+    if (attempts && usage) {
+      costItems.push({
+        stage: 'critique',
+        model: criticModel,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        costUsd: attempts.some(attempt => attempt.costUsd === null)
+          ? null
+          : attempts.reduce((sum, attempt) => sum + attempt.costUsd!, 0),
+      });
+    }
+
+    return {
+      success: false,
+      criticModel,
+      criticMessages,
+      templates,
+      rawResponse: { critique: attempts ? { attempts } : undefined },
+      costItems,
+      usage,
+      error: `Critique failed: ${errorMessage}`,
+    };
+  }
+
+  logger.info(
+    {
+      experimentId: '006',
+      marketId: market.id,
+      criticModel,
+      alternativeOutcome: critique.alternativeOutcome,
+      overlookedEvidence: critique.overlookedEvidence.length,
+    },
+    'Critique generated'
+  );
+
+  // Step 2: Adjudicate with the original prompts plus the prediction and its critique
+  const adjudication = renderPrompt('exp006-adjudication', {
+    contextPrompt,
+    initialPrediction,
+    critique: JSON.stringify(critique, null, 2),
+  });
+  templates.push(...adjudication.templates);
+  const adjudicationMessages: LlmMessage[] = [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: adjudication.text },
+  ];
+
+  const result = await generatePrediction({
+    marketId: market.id,
+    systemPrompt,
+    contextPrompt: adjudication.text,
+    model,
+    temperature,
+    outcomeLabels,
+    samples,
+  });
+
+  costItems.push({
+    stage: 'adjudication',
+    model,
+    promptTokens: result.usage?.promptTokens,
+    completionTokens: result.usage?.completionTokens,
+    costUsd: result.costUsd ?? null,
+  });
+
+  const rawResponse = { critique: critiqueResponse, adjudication: result.rawResponse };
+  const usage = sumUsage([critiqueUsage, ...(result.usage ? [result.usage] : [])]);
+  if (!result.success || !result.prediction) {
+    return {
+      success: false,
+      criticModel,
+      critique,
+      criticMessages,
+      adjudicationMessages,
+      templates,
+      rawResponse,
+      costItems,
+      usage,
+      error: `Adjudication failed: ${result.error}`,
+    };
+  }
+
+  logger.info(
+    {
+      experimentId: '006',
+      marketId: market.id,
+      initialProbability: prediction.probability,
+      finalProbability: result.prediction.probability,
+    },
+    'Prediction adjudicated after critique'
+  );
+
+  return {
+    success: true,
+    criticModel,
+    critique,
+    prediction: result.prediction,
+    criticMessages,
+    adjudicationMessages,
+    templates,
+    rawResponse,
+    costItems,
+    usage,
+  };
+}
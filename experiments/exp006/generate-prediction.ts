@@ -1,6 +1,14 @@
 import { logger } from '../../utils/logger.js';
 import { MODEL_IDS } from '../../config/models.js';
-import { PredictionSchema, type PredictionOutput } from './schemas.js';
+import { normalizeOutcomeProbabilities } from '../../utils/market-utils.js';
+import { sumUsage, type LlmUsage } from '../../services/llm-client.js';
+import { completeStructured, isStructuredOutputError } from '../../services/structured-output.js';
+import { isBudgetExceededError } from '../../services/budget.js';
+import { quantile, summarizeSamples } from '../../utils/self-consistency.js';
+import { createPredictionSchema, type PredictionOutput } from './schemas.js';
+
+// Dispersion is meaningless below two valid samples
+const MIN_VALID_SAMPLES = 2;
 
 export interface GeneratePredictionOptions {
   marketId: string;
@@ -8,18 +16,25 @@ export interface GeneratePredictionOptions {
   contextPrompt: string;
   model?: string;
   temperature?: number;
+  outcomeLabels?: string[]; // Categorical markets: validate a distribution over these labels
+  maxRepairs?: number; // Re-prompts with validation errors before giving up
+  samples?: number; // Self-consistency: sample N times and derive confidence from dispersion
+  sample?: number; // Index of this sample, so each one is cached and replayed separately
 }
 
 export interface GeneratePredictionResult {
   success: boolean;
   prediction?: PredictionOutput;
-  rawResponse?: any;
+  rawResponse?: any; // Every attempt (content, validation error, provider body)
+  usage?: LlmUsage; // Summed over attempts (and samples)
+  costUsd?: number | null; // Null if any call was unpriced
   error?: string;
 }
 
 /**
- * Generate a prediction by calling the AI model and parsing the response
- * Used by exp006 to generate structured predictions
+ * Generate a prediction by calling the AI model and validating the response
+ * Used by exp006 to generate structured predictions (native JSON schema output where
+ * supported, invalid responses are repaired by re-prompting with the Zod errors)
  */
 export async function generatePrediction(
   options: GeneratePredictionOptions
@@ -30,68 +45,51 @@ export async function generatePrediction(
     contextPrompt,
     model = MODEL_IDS.OPENAI_GPT_5,
     temperature = 0.7,
+    outcomeLabels,
+    maxRepairs,
+    samples = 1,
+    sample,
   } = options;
 
+  if (samples > 1) {
+    return generateSampledPrediction(options, samples);
+  }
+
   try {
     logger.info(
       { experimentId: '006', marketId },
       'Invoking AI model with enhanced formatting requirements'
     );
 
-    const apiResponse = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
-        'HTTP-Referer': 'https://betterai.tools',
-        'X-Title': 'BetterAI Engine',
-      },
-      body: JSON.stringify({
-        model,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: contextPrompt },
-        ],
-        temperature,
-      }),
+    const response = await completeStructured({
+      model,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: contextPrompt },
+      ],
+      temperature,
+      schema: createPredictionSchema(outcomeLabels),
+      schemaName: 'prediction',
+      maxRepairs,
+      sample,
     });
+    const validated = response.value;
 
-    if (!apiResponse.ok) {
-      const errorText = await apiResponse.text();
-      throw new Error(`OpenRouter API error: ${apiResponse.status} - ${errorText}`);
-    }
-
-    const response: any = await apiResponse.json();
-    const messageContent = response.choices?.[0]?.message?.content || '';
-
-    // Parse the response - extract JSON and validate with Zod
     let predictionData: PredictionOutput;
-    try {
-      let content = messageContent;
-
-      // Remove markdown code blocks if present
-      const jsonMatch = content.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
-      if (jsonMatch) {
-        content = jsonMatch[1].trim();
-      }
-
-      // Try to parse as JSON
-      const parsed = JSON.parse(content);
-
-      // Validate with Zod schema
-      predictionData = PredictionSchema.parse(parsed);
-    } catch (parseError) {
-      const parseErrorMessage = parseError instanceof Error ? parseError.message : String(parseError);
-      logger.error(
-        {
-          experimentId: '006',
-          marketId,
-          error: parseErrorMessage,
-          responseContent: messageContent,
-        },
-        'Failed to parse or validate prediction response'
+    if ('outcomeProbabilities' in validated) {
+      // Put entries in market order (the schema guarantees every label is present), rescale
+      // to 100 and keep the first outcome's probability in the binary-compatible field
+      const ordered = (outcomeLabels ?? []).map(
+        label => validated.outcomeProbabilities.find(p => p.outcome === label)!
       );
-      throw new Error(`Failed to parse prediction: ${parseErrorMessage}`);
+      const outcomeProbabilities = normalizeOutcomeProbabilities(ordered);
+      predictionData = {
+        ...validated,
+        outcomeProbabilities,
+        probability: outcomeProbabilities[0].probability,
+      };
+    } else {
+      predictionData = validated;
     }
 
     logger.info(
@@ -101,6 +99,8 @@ export async function generatePrediction(
         outcome: predictionData.outcome,
         confidence: predictionData.confidence,
         probability: predictionData.probability,
+        attempts: response.attempts.length,
+        nativeStructuredOutput: response.nativeStructuredOutput,
       },
       'Structured prediction generated and validated with enhanced formatting'
     );
@@ -108,23 +108,123 @@ export async function generatePrediction(
     return {
       success: true,
       prediction: predictionData,
-      rawResponse: response,
+      rawResponse: {
+        nativeStructuredOutput: response.nativeStructuredOutput,
+        attempts: response.attempts,
+      },
+      usage: response.usage,
+      costUsd: response.costUsd,
     };
   } catch (error) {
+    if (isBudgetExceededError(error)) {
+      throw error;
+    }
+
     const errorMessage = error instanceof Error ? error.message : String(error);
+    const attempts = isStructuredOutputError(error) ? error.attempts : undefined;
 
     logger.error(
       {
         experimentId: '006',
         marketId,
         error: errorMessage,
+        attempts: attempts?.map(({ attempt, content, error: attemptError }) => ({ attempt, content, error: attemptError })),
       },
       'Failed to generate prediction'
     );
 
     return {
       success: false,
+      rawResponse: attempts ? { attempts } : undefined,
+      usage: attempts ? sumUsage(attempts.map(attempt => attempt.usage)) : undefined,
+      costUsd: attempts?.some(attempt => attempt.costUsd === null)
+        ? null
+        : attempts?.reduce((sum, attempt) => sum + attempt.costUsd!, 0),
       error: errorMessage,
     };
   }
 }
+
+/**
+ * Self-consistency mode: sample the prediction N times in parallel and aggregate
+ * Probability is the sample median, outcome the majority vote, and confidence is derived
+ * from the observed dispersion rather than the model's self-reported confidence.
+ * Reasoning and key factors come from the sample closest to the median.
+ */
+async function generateSampledPrediction(
+  options: GeneratePredictionOptions,
+  samples: number
+): Promise<GeneratePredictionResult> {
+  const { marketId, outcomeLabels } = options;
+
+  const settled = await Promise.allSettled(
+    Array.from({ length: samples }, (_, sample) => generatePrediction({ ...options, samples: 1, sample }))
+  );
+
+  // generatePrediction only rejects on budget errors, which abort the whole run
+  const rejected = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  if (rejected) {
+    throw rejected.reason;
+  }
+
+  const results = settled.map(result => (result as PromiseFulfilledResult<GeneratePredictionResult>).value);
+  const valid = results
+    .map(result => result.prediction)
+    .filter((prediction): prediction is PredictionOutput => Boolean(prediction));
+
+  const usage = sumUsage(results.flatMap(result => (result.usage ? [result.usage] : [])));
+  const costUsd = results.some(result => result.costUsd === null || result.costUsd === undefined)
+    ? null
+    : results.reduce((sum, result) => sum + result.costUsd!, 0);
+  const rawResponse = { samples: results.map(result => result.rawResponse) };
+
+  if (valid.length < MIN_VALID_SAMPLES) {
+    const error = `Only ${valid.length}/${samples} samples produced a valid prediction: ${results
+      .filter(result => !result.success)
+      .map(result => result.error)
+      .join('; ')}`;
+    logger.error({ experimentId: '006', marketId, samples, valid: valid.length }, 'Self-consistency sampling failed');
+    return { success: false, rawResponse, usage, costUsd, error };
+  }
+
+  const summary = summarizeSamples(valid, outcomeLabels);
+  const selfReportedConfidence = quantile(valid.map(prediction => prediction.confidence), 0.5);
+  const representative = valid.reduce((closest, prediction) =>
+    Math.abs(prediction.probability - summary.medianProbability) < Math.abs(closest.probability - summary.medianProbability)
+      ? prediction
+      : closest
+  );
+
+  const prediction: PredictionOutput = {
+    ...representative,
+    outcome: summary.majorityOutcome,
+    probability: summary.medianProbability,
+    ...(summary.medianOutcomeProbabilities && { outcomeProbabilities: summary.medianOutcomeProbabilities }),
+    confidence: summary.confidence,
+    confidenceReasoning: `Derived from ${summary.sampleCount} samples: ${summary.iqr.toFixed(1)} point interquartile range, ${(summary.majorityVoteShare * 100).toFixed(0)}% voted ${summary.majorityOutcome} (median self-reported confidence ${selfReportedConfidence.toFixed(0)})`,
+    selfConsistency: {
+      ...summary,
+      requestedSamples: samples,
+      selfReportedConfidence,
+      samples: valid,
+    },
+  };
+
+  logger.info(
+    {
+      experimentId: '006',
+      marketId,
+      samples,
+      valid: valid.length,
+      medianProbability: summary.medianProbability,
+      iqr: summary.iqr,
+      majorityOutcome: summary.majorityOutcome,
+      majorityVoteShare: summary.majorityVoteShare,
+      confidence: summary.confidence,
+      selfReportedConfidence,
+    },
+    'Self-consistency prediction aggregated'
+  );
+
+  return { success: true, prediction, rawResponse, usage, costUsd };
+}
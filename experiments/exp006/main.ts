@@ -1,13 +1,37 @@
 import { logger } from '../../utils/logger.js';
 import { PolymarketMarket } from '../../services/polymarket.js';
-import { savePrediction, saveFailedPrediction } from '../../services/prediction-storage.js';
-import { calculatePredictionDelta } from '../../utils/market-utils.js';
+import { savePrediction, saveFailedPrediction, type FailedPredictionData } from '../../services/prediction-storage.js';
+import {
+  calculateOutcomeDeltas,
+  calculatePredictionDelta,
+  getCategoricalOutcomeLabels,
+  getYesOutcomePrice,
+  parseMarketOutcomes,
+  type OutcomeDelta,
+} from '../../utils/market-utils.js';
 import { MODEL_IDS } from '../../config/models.js';
+import { summarizeCosts } from '../../utils/cost.js';
+import { isBudgetExceededError } from '../../services/budget.js';
+import { sumUsage } from '../../services/llm-client.js';
 import { fetchTrendingMarkets } from './fetch-markets.js';
-import { performMarketResearch } from './research-market.js';
-import { buildPrompts } from './prepare-prompts.js';
+import { getResearchEnrichment, performMarketResearch } from './research-market.js';
+import { buildPrompts, fitResearchToModel } from './prepare-prompts.js';
 import { generatePrediction } from './generate-prediction.js';
-import type { PredictionOutput } from './schemas.js';
+import { critiquePrediction } from './critique-prediction.js';
+import type { DebateOutput, PredictionOutput } from './schemas.js';
+import type { ExperimentRunOptions } from '../types.js';
+import type { ResearchConfig } from '../../services/research-providers.js';
+import { CHARACTERS_PER_TOKEN, getResearchTokenBudget } from '../../utils/token-budget.js';
+
+// Exa and Grok pooled, 1/11 for similar resolved markets; the total is sized to the model
+const RESEARCH_CONFIG: Omit<ResearchConfig, 'maxCharacters'> = {
+  providers: [
+    { id: 'exa', share: 5 },
+    { id: 'grok', share: 5 },
+    { id: 'reference-class', share: 1 },
+  ],
+  mergeSources: true,
+};
 
 export interface ExperimentResult {
   success: boolean;
@@ -19,7 +43,10 @@ export interface ExperimentResult {
  * Experiment 006: Trending Markets Auto-Analysis
  * Fetches trending markets and runs predictions automatically on the first market
  */
-export async function run(market?: PolymarketMarket): Promise<ExperimentResult> {
+export async function run(market?: PolymarketMarket, options: ExperimentRunOptions = {}): Promise<ExperimentResult> {
+  // Set once money has been spent, so a failed run still records its attempts and cost
+  let failure: FailedPredictionData | undefined;
+
   try {
     // Step 0: Fetch trending markets if no market provided
     let targetMarket: PolymarketMarket;
@@ -56,35 +83,148 @@ export async function run(market?: PolymarketMarket): Promise<ExperimentResult>
 
     logger.info({ experimentId: '006', marketId: targetMarket.id }, 'Starting experiment 006 with enhanced formatting');
 
-    // Step 1: Perform parallel web research using Exa AI and Grok
-    const researchResult = await performMarketResearch(targetMarket);
-    const researchContext = researchResult.researchContext;
+    // Step 1: Perform parallel web research using Exa AI and Grok, as much as the model's window allows
+    const asOf = options.asOf ?? new Date();
+    const researchConfig: ResearchConfig = {
+      ...RESEARCH_CONFIG,
+      maxCharacters: getResearchTokenBudget(MODEL_IDS.OPENAI_GPT_5) * CHARACTERS_PER_TOKEN,
+    };
+    const researchResult = await performMarketResearch(targetMarket, researchConfig, {
+      agent: options.researchAgent,
+      planner: options.researchPlanner,
+      referenceClass: options.referenceClass,
+      maxAgeHours: options.researchMaxAgeHours,
+      asOf,
+    });
     const researchMetadata = researchResult.metadata;
 
-    // Step 2: Build prompts for AI model
-    const { systemPrompt, contextPrompt } = buildPrompts(targetMarket, researchContext);
-
-    // Step 3: Generate prediction using AI model
-    const predictionResult = await generatePrediction({
-      marketId: targetMarket.id,
-      systemPrompt,
-      contextPrompt,
+    // Step 2: Build prompts for AI model (categorical markets are prompted for a distribution)
+    // Blind prompts withhold market prices; 'both' runs the anchored prompt as the headline
+    // prediction and the blind prompt alongside it. Research beyond the context window is cut
+    // by priority first.
+    const priceMode = options.priceMode ?? 'anchored';
+    const { researchContext, tokenBudget } = fitResearchToModel(targetMarket, researchResult.sections, {
       model: MODEL_IDS.OPENAI_GPT_5,
-      temperature: 0.7,
+      blind: priceMode === 'blind',
     });
+    const variants: Array<'anchored' | 'blind'> = priceMode === 'both' ? ['anchored', 'blind'] : [priceMode];
+    const outcomeLabels = getCategoricalOutcomeLabels(targetMarket);
+
+    // Step 3: Generate prediction using AI model (one call per price mode)
+    const results = await Promise.all(
+      variants.map(async variant => {
+        const prompts = buildPrompts(targetMarket, researchContext, { blind: variant === 'blind' });
+        const result = await generatePrediction({
+          marketId: targetMarket.id,
+          systemPrompt: prompts.systemPrompt,
+          contextPrompt: prompts.contextPrompt,
+          model: MODEL_IDS.OPENAI_GPT_5,
+          temperature: 0.7,
+          outcomeLabels,
+          samples: options.samples,
+        });
+        return { variant, prompts, result };
+      })
+    );
 
-    if (!predictionResult.success || !predictionResult.prediction) {
-      throw new Error(predictionResult.error || 'Failed to generate prediction');
+    const predictionCostItems = results.map(({ variant, result }, index) => ({
+      stage: index === 0 ? 'prediction' : `prediction:${variant}`,
+      model: MODEL_IDS.OPENAI_GPT_5,
+      promptTokens: result.usage?.promptTokens,
+      completionTokens: result.usage?.completionTokens,
+      costUsd: result.costUsd ?? null,
+    }));
+    const failed = results.find(({ result }) => !result.success || !result.prediction);
+    if (failed) {
+      const failedUsages = results.flatMap(({ result }) => result.usage ?? []);
+      failure = {
+        rawResponse: Object.fromEntries(results.map(({ variant, result }) => [variant, result.rawResponse])),
+        usage: failedUsages.length > 0 ? sumUsage(failedUsages) : undefined,
+        costBreakdown: summarizeCosts([...researchResult.costItems, ...predictionCostItems]),
+      };
+      throw new Error(`${failed.variant} prediction failed: ${failed.result.error || 'Failed to generate prediction'}`);
     }
+    const runs = results.map(run => ({ ...run, prediction: run.result.prediction! }));
 
-    const predictionData = predictionResult.prediction;
-    const response = predictionResult.rawResponse;
+    const [headline] = runs;
+    const blindRun = runs.find(run => run.variant === 'blind');
+    const anchoredRun = runs.find(run => run.variant === 'anchored');
+    const { systemPrompt, contextPrompt } = headline.prompts;
 
-    // Calculate prediction delta
-    const deltaResult = calculatePredictionDelta(
-      targetMarket.outcomePrices,
-      predictionData.probability
-    );
+    // Step 4 (optional): A critic argues the opposite case, then the model adjudicates the final prediction
+    const debate = options.critic
+      ? await critiquePrediction({
+          market: targetMarket,
+          researchContext,
+          systemPrompt,
+          contextPrompt,
+          prediction: headline.prediction,
+          model: MODEL_IDS.OPENAI_GPT_5,
+          criticModel: options.criticModel,
+          temperature: 0.7,
+          outcomeLabels,
+          samples: options.samples,
+        })
+      : undefined;
+
+    if (debate && !debate.success) {
+      logger.warn(
+        { experimentId: '006', marketId: targetMarket.id, error: debate.error },
+        'Critique stage failed - keeping the initial prediction'
+      );
+    }
+
+    const templates = [
+      ...new Map(
+        [
+          ...(researchResult.trace?.templates ?? []),
+          ...(researchResult.plan?.templates ?? []),
+          ...runs.flatMap(run => run.prompts.templates),
+          ...(debate?.templates ?? []),
+        ].map(ref => [ref.id, ref])
+      ).values(),
+    ];
+
+    const predictionData: PredictionOutput = debate?.prediction ?? headline.prediction;
+    const initialResponse = priceMode === 'both'
+      ? { anchored: anchoredRun!.result.rawResponse, blind: blindRun!.result.rawResponse }
+      : headline.result.rawResponse;
+    const response = debate ? { initial: initialResponse, ...debate.rawResponse } : initialResponse;
+    const usages = [...runs.flatMap(run => run.result.usage ?? []), ...(debate?.usage ? [debate.usage] : [])];
+    const usage = usages.length > 0 ? sumUsage(usages) : undefined;
+
+    // Cost by stage: research providers, the prediction call(s) and the critique stage
+    const cost = summarizeCosts([...researchResult.costItems, ...predictionCostItems, ...(debate?.costItems ?? [])]);
+
+    if (blindRun && anchoredRun) {
+      logger.info(
+        {
+          experimentId: '006',
+          marketId: targetMarket.id,
+          anchoredProbability: anchoredRun.prediction.probability,
+          blindProbability: blindRun.prediction.probability,
+          marketPrice: targetMarket.outcomePrices,
+        },
+        'Anchored and blind predictions generated'
+      );
+    }
+
+    // Calculate prediction delta (largest absolute per-outcome delta for categorical markets)
+    let outcomeDeltas: OutcomeDelta[] | undefined;
+    if (predictionData.outcomeProbabilities) {
+      outcomeDeltas = calculateOutcomeDeltas(
+        parseMarketOutcomes(targetMarket).value ?? [],
+        predictionData.outcomeProbabilities
+      );
+    }
+
+    const deltaResult = outcomeDeltas
+      ? {
+          success: outcomeDeltas.some(delta => delta.delta !== null),
+          value: Math.max(...outcomeDeltas.map(delta => Math.abs(delta.delta ?? 0))),
+          error: 'No outcome matched the market outcomes',
+        }
+      : calculatePredictionDelta(targetMarket.outcomePrices, predictionData.probability);
 
     // Log Delta Results
     let predictionDelta: number | undefined;
@@ -97,6 +237,7 @@ export async function run(market?: PolymarketMarket): Promise<ExperimentResult>
           delta: predictionDelta,
           marketPrice: targetMarket.outcomePrices,
           predictedProbability: predictionData.probability,
+          outcomeDeltas,
         },
         'Prediction delta calculated'
       );
@@ -111,14 +252,50 @@ export async function run(market?: PolymarketMarket): Promise<ExperimentResult>
       );
     }
 
+    // Stored next to the headline prediction: the blind forecast ('both' mode) and, with a critic,
+    // the initial prediction and its critique (the headline is the adjudicated prediction)
+    const debateOutput: DebateOutput | undefined = debate && {
+      criticModel: debate.criticModel,
+      adjudicatorModel: MODEL_IDS.OPENAI_GPT_5,
+      initial: headline.prediction,
+      critique: debate.critique ?? null,
+      revised: debate.success,
+      ...(debate.error && { error: debate.error }),
+    };
+    const stageOutputs = {
+      priceMode,
+      ...(priceMode === 'both' && { blind: blindRun!.prediction }),
+      ...(debateOutput && { debate: debateOutput }),
+    };
+    const requestMessages = {
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: contextPrompt },
+      ],
+      ...(priceMode === 'both' && {
+        blindMessages: [
+          { role: 'system', content: blindRun!.prompts.systemPrompt },
+          { role: 'user', content: blindRun!.prompts.contextPrompt },
+        ],
+      }),
+      ...(debate && {
+        criticModel: debate.criticModel,
+        criticMessages: debate.criticMessages,
+        adjudicationMessages: debate.adjudicationMessages,
+      }),
+    };
+
     // Save prediction to database with enrichment metadata
-    await savePrediction({
+    const saved = await savePrediction({
       marketId: targetMarket.id,
       experimentId: '006',
+      marketSnapshot: targetMarket,
+      researchAsOf: asOf,
       prediction: {
         marketId: targetMarket.id,
         question: targetMarket.question,
         ...predictionData,
+        ...stageOutputs,
         enrichmentMetadata: {
           exaResearchSuccess: researchMetadata.exaSuccess,
           grokResearchSuccess: researchMetadata.grokSuccess,
@@ -129,48 +306,71 @@ export async function run(market?: PolymarketMarket): Promise<ExperimentResult>
           exaTruncated: false,
           grokTruncated: false,
           enhancedFormatting: true,
+          providers: researchResult.providers,
+          ...(researchResult.merge && { sourceMerge: researchResult.merge }),
+          tokenBudget,
+          ...(researchResult.trace && {
+            researchAgent: { stopReason: researchResult.trace.stopReason, toolCalls: researchResult.trace.steps.length },
+          }),
         },
       },
       rawRequest: {
         experimentId: '006',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: contextPrompt },
-        ],
+        ...requestMessages,
         model: MODEL_IDS.OPENAI_GPT_5,
         temperature: 0.7,
-        enrichment: 'exa-ai-and-grok-research',
+        samples: options.samples ?? 1,
+        priceMode,
+        enrichment: getResearchEnrichment(researchResult),
         formatting: 'enhanced-structured',
       },
       rawResponse: response,
+      promptTemplates: templates,
       model: MODEL_IDS.OPENAI_GPT_5,
       predictionDelta,
-      promptTokens: response.usage?.prompt_tokens,
-      completionTokens: response.usage?.completion_tokens,
+      marketProbability: getYesOutcomePrice(targetMarket.outcomePrices).value,
+      outcomeProbabilities: outcomeDeltas?.map(({ outcome, probability, marketPrice }) => ({
+        outcome,
+        probability,
+        marketPrice,
+      })),
+      promptTokens: usage?.promptTokens,
+      completionTokens: usage?.completionTokens,
+      reasoningTokens: usage?.reasoningTokens,
+      costUsd: cost.totalUsd,
+      costBreakdown: cost,
       researchContext,
+      researchTrace: researchResult.trace,
+      researchPlan: researchResult.plan,
+      researchSourceIds: researchResult.sourceIds,
+      priceMode,
+      anchoredProbability: anchoredRun?.prediction.probability,
+      blindProbability: blindRun?.prediction.probability,
     });
 
     return {
       success: true,
       data: {
+        predictionId: saved.prediction.id,
         marketId: targetMarket.id,
-        prediction: predictionData,
+        prediction: { ...predictionData, ...stageOutputs },
         predictionDelta,
+        outcomeDeltas,
         model: MODEL_IDS.OPENAI_GPT_5,
         rawRequest: {
           experimentId: '006',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: contextPrompt },
-          ],
+          ...requestMessages,
           model: MODEL_IDS.OPENAI_GPT_5,
           temperature: 0.7,
-          enrichment: 'exa-ai-and-grok-research',
+          priceMode,
+          enrichment: getResearchEnrichment(researchResult),
           formatting: 'enhanced-structured',
         },
         rawResponse: response,
-        promptTokens: response.usage?.prompt_tokens,
-        completionTokens: response.usage?.completion_tokens,
+        promptTokens: usage?.promptTokens,
+        completionTokens: usage?.completionTokens,
+        reasoningTokens: usage?.reasoningTokens,
+        costUsd: cost.totalUsd,
         researchContext,
         enrichment: {
           sources: ['exa-ai', 'grok-ai'],
@@ -183,6 +383,11 @@ export async function run(market?: PolymarketMarket): Promise<ExperimentResult>
       },
     };
   } catch (error) {
+    // Budget aborts are not prediction failures: surface them to the runner
+    if (isBudgetExceededError(error)) {
+      throw error;
+    }
+
     const errorMessage = error instanceof Error ? error.message : String(error);
 
     // Use market or targetMarket depending on what's available
@@ -195,7 +400,7 @@ export async function run(market?: PolymarketMarket): Promise<ExperimentResult>
 
     // Save failed prediction job if we have a market ID
     if (marketId !== 'unknown') {
-      await saveFailedPrediction(marketId, errorMessage);
+      await saveFailedPrediction(marketId, errorMessage, failure);
     }
 
     return {
@@ -1,17 +1,27 @@
 import { logger } from '../../utils/logger.js';
 import { PolymarketMarket } from '../../services/polymarket.js';
+import { isBudgetExceededError } from '../../services/budget.js';
+import type { CostItem } from '../../utils/cost.js';
+import type { SourceMergeSummary } from '../../utils/source-merge.js';
+import { allocateCharacterBudget } from '../../utils/research-context.js';
 import {
-  performExaResearch,
-  formatExaResearchContext,
-} from '../../services/exa-research.js';
-import {
-  performGrokSearch,
-  formatGrokSearchContext,
-} from '../../services/grok-search.js';
+  getResearchProvider,
+  runResearchProviders,
+  type ResearchConfig,
+  type ResearchMarketContext,
+  type ResearchProviderRun,
+  type ResearchProvidersResult,
+} from '../../services/research-providers.js';
+import { runResearchAgent, type ResearchAgentOptions, type ResearchTrace } from '../../services/research-agent.js';
+import { runPlannedResearch, type ResearchPlan, type ResearchPlannerOptions } from '../../services/research-planner.js';
+import { DEFAULT_RESEARCH_MAX_AGE_HOURS } from '../../services/research-store.js';
+
+const NO_RESEARCH_CONTEXT = 'No additional research data available due to API errors.';
 
 export interface ResearchResult {
   success: boolean;
   researchContext: string;
+  sections: Array<{ id: string; text: string }>; // researchContext by strategy or provider, in context order
   metadata: {
     exaSuccess: boolean;
     grokSuccess: boolean;
@@ -20,93 +30,194 @@ export interface ResearchResult {
     exaCharacters: number;
     grokCharacters: number;
   };
+  costItems: CostItem[]; // One entry per research provider that was called successfully
+  providers: ResearchProviderRun[]; // Providers run from the research config
+  sourceIds: number[]; // Stored research sources in the context (linked to the prediction)
+  merge?: SourceMergeSummary; // Web sources pooled across providers or by the agent (config.mergeSources)
+  trace?: ResearchTrace; // Research agent only
+  plan?: ResearchPlan; // Planned research only (kept with its error when planning failed)
   error?: string;
 }
 
+export interface MarketResearchOptions {
+  agent?: ResearchAgentOptions; // Replace the web search providers with the research agent
+  planner?: ResearchPlannerOptions; // Plan sub-questions and queries first (ignored with agent)
+  referenceClass?: boolean; // Keep the reference-class provider if configured (default true)
+  maxAgeHours?: number; // Reuse stored provider runs fetched within this many hours (0 = always search)
+  asOf?: Date; // Run time recency and the reference-class cutoff are measured from (default now)
+}
+
+/**
+ * Research strategy label stored with the request ('enrichment')
+ */
+export function getResearchEnrichment(result: ResearchResult): string {
+  if (result.trace) return 'research-agent';
+  if (result.plan && !result.plan.error) return 'planned-research';
+  return 'exa-ai-and-grok-research';
+}
+
+/**
+ * Research context from its sections (a placeholder when there are none)
+ */
+export function joinResearchSections(sections: ResearchResult['sections']): string {
+  return sections.length > 0 ? sections.map(section => section.text).join('\n\n---\n\n') : NO_RESEARCH_CONTEXT;
+}
+
+/**
+ * Exa/Grok summary kept in enrichment metadata, from the provider runs
+ */
+function getWebMetadata(runs: ResearchProviderRun[]): ResearchResult['metadata'] {
+  const exa = runs.find(run => run.id === 'exa');
+  const grok = runs.find(run => run.id === 'grok');
+  return {
+    exaSuccess: exa?.success ?? false,
+    grokSuccess: grok?.success ?? false,
+    exaSources: exa?.sources ?? 0,
+    grokSources: grok?.sources ?? 0,
+    exaCharacters: exa?.characters ?? 0,
+    grokCharacters: grok?.characters ?? 0,
+  };
+}
+
 /**
- * Perform parallel web research using Exa AI and Grok
- * Used by exp006 to gather context for market predictions
+ * Perform market research with the providers in a research config, in parallel
+ * Used by exp006 and exp007 to gather context for market predictions. Each provider gets its
+ * share of config.maxCharacters and fails on its own without failing the research.
+ * With options.agent or options.planner set, that strategy replaces the web search providers
+ * (within their combined share) and the remaining providers run alongside it; if planning fails,
+ * the web search providers run as usual.
+ * Provider runs are stored, and a run for the same market (or event) fetched within
+ * options.maxAgeHours is reused instead of searching again. Agent and planner queries are stored
+ * too (one run per query) and merge their sources like the providers do.
  */
 export async function performMarketResearch(
-  market: PolymarketMarket
+  market: PolymarketMarket,
+  config: ResearchConfig,
+  options: MarketResearchOptions = {}
 ): Promise<ResearchResult> {
   try {
-    logger.info(
-      { experimentId: '006', marketId: market.id, question: market.question },
-      'Fetching web research data from Exa AI and Grok'
-    );
-
-    // Build market context for enhanced research
     const events = market.events as any[] | undefined;
-    const marketContext = {
+    const marketContext: ResearchMarketContext = {
+      id: market.id,
+      eventId: events?.[0]?.id ? String(events[0].id) : undefined,
       question: market.question,
       description: market.description,
       closeTime: market.endDate ? String(market.endDate) : undefined,
       eventTitle: events?.[0]?.title || market.groupItemTitle,
     };
+    const query = { query: market.question, market: marketContext, asOf: options.asOf };
+    const storeOptions = { store: { maxAgeMs: (options.maxAgeHours ?? DEFAULT_RESEARCH_MAX_AGE_HOURS) * 60 * 60 * 1000 } };
 
-    const [exaResult, grokResult] = await Promise.all([
-      performExaResearch({
-        query: market.question,
-        numResults: 10,
-        useAutoprompt: true,
-        type: 'neural',
-        market: marketContext,
-        contents: {
-          text: { maxCharacters: 1500 },
-          highlights: { numSentences: 3, highlightsPerUrl: 3 },
-          summary: true,
-        },
-      }),
-      performGrokSearch({
-        query: market.question,
-        maxResults: 10,
-        market: marketContext,
-      }),
-    ]);
+    const shares = options.referenceClass === false
+      ? config.providers.filter(({ id }) => id !== 'reference-class')
+      : config.providers;
+    const isWebSearch = (id: string) => getResearchProvider(id)?.webSearch ?? false;
+    const allocations = allocateCharacterBudget(config.maxCharacters, shares);
+    const subConfig = (web: boolean): ResearchConfig => ({
+      ...config,
+      maxCharacters: allocations
+        .filter(({ id }) => isWebSearch(id) === web)
+        .reduce((sum, { maxCharacters }) => sum + maxCharacters, 0),
+      providers: shares.filter(({ id }) => isWebSearch(id) === web),
+    });
 
-    // Format research contexts
-    const exaContext = exaResult.success && exaResult.data
-      ? formatExaResearchContext(exaResult.data.contents)
-      : '';
-
-    const grokContext = grokResult.success && grokResult.data
-      ? formatGrokSearchContext(grokResult.data.results)
-      : '';
-
-    // Merge research contexts
-    const researchParts: string[] = [];
-    if (exaContext) researchParts.push(exaContext);
-    if (grokContext) researchParts.push(grokContext);
-
-    const researchContext = researchParts.length > 0
-      ? researchParts.join('\n\n---\n\n')
-      : 'No additional research data available due to API errors.';
-
-    const metadata = {
-      exaSuccess: exaResult.success,
-      grokSuccess: grokResult.success,
-      exaSources: exaResult.data?.contents.length || 0,
-      grokSources: grokResult.data?.results.length || 0,
-      exaCharacters: exaResult.data?.totalCharacters || 0,
-      grokCharacters: grokResult.data?.totalCharacters || 0,
+    logger.info(
+      {
+        experimentId: '006',
+        marketId: market.id,
+        question: market.question,
+        providers: allocations,
+        strategy: options.agent ? 'agent' : options.planner ? 'planner' : 'providers',
+      },
+      'Starting market research'
+    );
+
+    // Web strategy: the agent or planner, else every configured provider
+    const webConfig = subConfig(true);
+    const strategyOptions = {
+      maxCharacters: webConfig.maxCharacters,
+      shares: webConfig.providers,
+      mergeSources: config.mergeSources,
+      asOf: options.asOf,
     };
+    const [agentResult, planned, otherProviders] = await Promise.all([
+      options.agent ? runResearchAgent(marketContext, { ...options.agent, ...strategyOptions }) : undefined,
+      !options.agent && options.planner ? runPlannedResearch(marketContext, { ...options.planner, ...strategyOptions }) : undefined,
+      options.agent || options.planner ? runResearchProviders(subConfig(false), query, storeOptions) : undefined,
+    ]);
+
+    if (planned && !planned.success) {
+      logger.warn(
+        { experimentId: '006', marketId: market.id, error: planned.error },
+        'Research planning failed - falling back to the web search providers'
+      );
+    }
+
+    let providers: ResearchProvidersResult;
+    let webStrategy:
+      | {
+          id: string;
+          researchContext: string;
+          metadata: ResearchResult['metadata'];
+          costItems: CostItem[];
+          sourceIds: number[];
+          merge?: SourceMergeSummary;
+        }
+      | undefined;
+    if (agentResult) {
+      providers = otherProviders!;
+      webStrategy = { id: 'research-agent', ...agentResult };
+    } else if (planned?.success) {
+      providers = otherProviders!;
+      webStrategy = { id: 'planned-research', ...planned };
+    } else if (planned) {
+      // Planning failed: its cost stays, the web providers run now
+      const webProviders = await runResearchProviders(webConfig, query, storeOptions);
+      providers = {
+        sections: [...webProviders.sections, ...otherProviders!.sections],
+        runs: [...webProviders.runs, ...otherProviders!.runs],
+        costItems: [...planned.costItems, ...webProviders.costItems, ...otherProviders!.costItems],
+        sourceIds: [...webProviders.sourceIds, ...otherProviders!.sourceIds],
+        merge: webProviders.merge,
+      };
+    } else {
+      providers = await runResearchProviders({ ...config, providers: shares }, query, storeOptions);
+    }
+
+    const sections = [
+      ...(webStrategy ? [{ id: webStrategy.id, text: webStrategy.researchContext }] : []),
+      ...providers.sections,
+    ];
+    const metadata = webStrategy?.metadata ?? getWebMetadata(providers.runs);
+    const merge = webStrategy?.merge ?? providers.merge;
 
     logger.info(
       {
         experimentId: '006',
         marketId: market.id,
         ...metadata,
+        failedProviders: providers.runs.filter(run => !run.success).map(run => run.id),
       },
-      'Web research data prepared from multiple sources'
+      'Research data prepared from multiple sources'
     );
 
     return {
       success: true,
-      researchContext,
+      researchContext: joinResearchSections(sections),
+      sections,
       metadata,
+      costItems: [...(webStrategy?.costItems ?? []), ...providers.costItems],
+      providers: providers.runs,
+      sourceIds: [...(webStrategy?.sourceIds ?? []), ...providers.sourceIds],
+      ...(merge && { merge }),
+      ...(agentResult && { trace: agentResult.trace }),
+      ...(planned && { plan: planned.plan }),
     };
   } catch (error) {
+    if (isBudgetExceededError(error)) {
+      throw error;
+    }
+
     const errorMessage = error instanceof Error ? error.message : String(error);
 
     logger.error(
@@ -120,15 +231,12 @@ export async function performMarketResearch(
 
     return {
       success: false,
-      researchContext: 'No additional research data available due to API errors.',
-      metadata: {
-        exaSuccess: false,
-        grokSuccess: false,
-        exaSources: 0,
-        grokSources: 0,
-        exaCharacters: 0,
-        grokCharacters: 0,
-      },
+      researchContext: NO_RESEARCH_CONTEXT,
+      sections: [],
+      metadata: getWebMetadata([]),
+      costItems: [],
+      providers: [],
+      sourceIds: [],
       error: errorMessage,
     };
   }
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import type { SelfConsistencySummary } from '../../utils/self-consistency.js';
 
 /**
  * Zod schema for structured prediction output
@@ -18,4 +19,92 @@ export const PredictionSchema = z.object({
   lastUpdated: z.string().datetime().describe('ISO timestamp of prediction'),
 });
 
-export type PredictionOutput = z.infer<typeof PredictionSchema>;
+/**
+ * Build the prediction schema for a market
+ * Yes/No markets use PredictionSchema; categorical markets ask for a probability
+ * distribution over the named outcomes instead of a single YES probability.
+ *
+ * @param outcomeLabels - Market outcome labels (see getCategoricalOutcomeLabels), omit for Yes/No markets
+ */
+export function createPredictionSchema(outcomeLabels?: string[]) {
+  if (!outcomeLabels || outcomeLabels.length === 0) {
+    return PredictionSchema;
+  }
+
+  const labelSchema = z.enum(outcomeLabels as [string, ...string[]]);
+
+  return PredictionSchema.omit({ probability: true })
+    .extend({
+      outcome: z
+        .union([labelSchema, z.literal('UNCERTAIN')])
+        .describe('Most likely outcome (one of the market outcome labels), or UNCERTAIN'),
+      outcomeProbabilities: z
+        .array(
+          z.object({
+            outcome: labelSchema.describe('Market outcome label'),
+            probability: z.number().min(0).max(100).describe('Estimated probability of this outcome (0-100)'),
+          })
+        )
+        .length(outcomeLabels.length)
+        .describe('Probability for every market outcome, in market order, summing to 100'),
+    })
+    .superRefine((prediction, ctx) => {
+      // Checked here rather than after parsing so the repair loop can report it to the model
+      for (const label of outcomeLabels) {
+        if (!prediction.outcomeProbabilities.some(entry => entry.outcome === label)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['outcomeProbabilities'],
+            message: `Missing outcome "${label}"`,
+          });
+        }
+      }
+    });
+}
+
+/**
+ * Validated prediction output
+ * Categorical predictions carry outcomeProbabilities and set probability to the first outcome's probability.
+ */
+export type PredictionOutput = Omit<z.infer<typeof PredictionSchema>, 'outcome'> & {
+  outcome: string;
+  outcomeProbabilities?: Array<{ outcome: string; probability: number }>;
+  selfConsistency?: SelfConsistencyOutput;
+};
+
+/**
+ * Self-consistency summary attached to predictions generated with samples > 1
+ */
+export interface SelfConsistencyOutput extends SelfConsistencySummary {
+  requestedSamples: number;
+  selfReportedConfidence: number; // Median of the samples' own confidence, kept for comparison
+  samples: PredictionOutput[]; // Every valid sample
+}
+
+/**
+ * Zod schema for the critic's output (see critique-prediction.ts)
+ */
+export const CritiqueSchema = z.object({
+  opposingCase: z.string().min(10).describe('The strongest honest case against the initial prediction'),
+  overlookedEvidence: z
+    .array(z.string())
+    .describe('Evidence from the research that the initial prediction ignored or underweighted'),
+  reasoningFlaws: z.array(z.string()).describe('Flaws in the initial reasoning'),
+  alternativeOutcome: z.string().describe('The outcome the opposing case supports'),
+});
+
+export type CritiqueOutput = z.infer<typeof CritiqueSchema>;
+
+/**
+ * Critique stage stored next to the headline prediction (prediction.debate)
+ * With samples > 1 the adjudicated (headline) prediction is sampled too, so its selfConsistency
+ * summarizes the adjudication samples; the initial prediction keeps its own.
+ */
+export interface DebateOutput {
+  criticModel: string;
+  adjudicatorModel: string;
+  initial: PredictionOutput; // Prediction before the critique
+  critique: CritiqueOutput | null; // Null when the critic failed
+  revised: boolean; // Adjudication succeeded and replaced the initial prediction
+  error?: string;
+}
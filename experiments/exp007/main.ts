@@ -0,0 +1,387 @@
+import { logger } from '../../utils/logger.js';
+import { PolymarketMarket } from '../../services/polymarket.js';
+import { savePrediction, saveFailedPrediction, type FailedPredictionData } from '../../services/prediction-storage.js';
+import { getModelScores } from '../../services/score-report.js';
+import { isBudgetExceededError } from '../../services/budget.js';
+import {
+  calculateOutcomeDeltas,
+  calculatePredictionDelta,
+  getCategoricalOutcomeLabels,
+  getYesOutcomePrice,
+  normalizeOutcomeProbabilities,
+  parseMarketOutcomes,
+  type OutcomeDelta,
+} from '../../utils/market-utils.js';
+import {
+  aggregateProbabilities,
+  brierWeight,
+  computeDisagreement,
+  type EnsembleAggregator,
+  type EnsembleDisagreement,
+} from '../../utils/ensemble.js';
+import { summarizeCosts } from '../../utils/cost.js';
+import { MODEL_IDS, getModelLimits, isModelId } from '../../config/models.js';
+import { getResearchEnrichment, performMarketResearch } from '../exp006/research-market.js';
+import { buildPrompts, fitResearchToModel } from '../exp006/prepare-prompts.js';
+import { generatePrediction } from '../exp006/generate-prediction.js';
+import type { PredictionOutput } from '../exp006/schemas.js';
+import type { ExperimentResult, ExperimentRunOptions } from '../types.js';
+import type { ResearchConfig } from '../../services/research-providers.js';
+import { CHARACTERS_PER_TOKEN, getResearchTokenBudget } from '../../utils/token-budget.js';
+
+const EXPERIMENT_ID = '007';
+const DEFAULT_MODELS = [MODEL_IDS.OPENAI_GPT_5, MODEL_IDS.ANTHROPIC_CLAUDE_SONNET_4_5, MODEL_IDS.XAI_GROK_4];
+const DEFAULT_AGGREGATOR: EnsembleAggregator = 'median';
+const TEMPERATURE = 0.7;
+const MAX_KEY_FACTORS = 10;
+
+// Same research as exp006, sized to the member with the smallest context window
+const RESEARCH_CONFIG: Omit<ResearchConfig, 'maxCharacters'> = {
+  providers: [
+    { id: 'exa', share: 5 },
+    { id: 'grok', share: 5 },
+    { id: 'reference-class', share: 1 },
+  ],
+  mergeSources: true,
+};
+
+// Models need this many resolved predictions before their Brier score is trusted as a weight
+const MIN_SCORED_PREDICTIONS = 10;
+
+/**
+ * One model's contribution to the ensemble
+ */
+interface EnsembleMember {
+  model: string;
+  prediction: PredictionOutput | null;
+  brierScore: number | null; // Historical, brier-logodds only
+  weight: number | null; // brier-logodds only
+  promptTokens?: number;
+  completionTokens?: number;
+  reasoningTokens?: number;
+  costUsd: number | null;
+  rawResponse?: any;
+  error?: string;
+}
+
+/**
+ * Historical Brier score per model, from resolved predictions across all experiments
+ * (including each model's own predictions as an ensemble member)
+ */
+async function getModelBrierScores(): Promise<Map<string, number | null>> {
+  const scores = await getModelScores();
+
+  return new Map(
+    [...scores.entries()].map(([model, score]) => [
+      model,
+      score.count >= MIN_SCORED_PREDICTIONS ? score.brierScore : null,
+    ])
+  );
+}
+
+/**
+ * Sum an optional numeric field over members
+ */
+function sumMembers(members: EnsembleMember[], field: 'promptTokens' | 'completionTokens' | 'reasoningTokens'): number {
+  return members.reduce((sum, member) => sum + (member[field] ?? 0), 0);
+}
+
+/**
+ * Experiment 007: Multi-Model Ensemble
+ * Runs exp006's research and prompts through several models in parallel and aggregates
+ * their probabilities into one prediction, keeping every member's output.
+ */
+export async function run(market?: PolymarketMarket, options: ExperimentRunOptions = {}): Promise<ExperimentResult> {
+  const models = options.models && options.models.length > 0 ? options.models : DEFAULT_MODELS;
+  const aggregator = options.aggregator ?? DEFAULT_AGGREGATOR;
+  const priceMode = options.priceMode ?? 'anchored';
+
+  // Side-by-side runs would double every member call; use exp006 to measure anchoring
+  if (priceMode === 'both') {
+    return { success: false, error: 'Experiment 007 supports --price-mode anchored or blind, not both' };
+  }
+
+  // Checked before research so a typo costs nothing
+  const unknownModels = models.filter(model => !isModelId(model));
+  if (unknownModels.length > 0) {
+    return { success: false, error: `Unknown model IDs for experiment 007: ${unknownModels.join(', ')}` };
+  }
+
+  // Set once money has been spent, so a failed run still records its attempts and cost
+  let failure: FailedPredictionData | undefined;
+
+  try {
+    if (!market) {
+      throw new Error('Experiment 007 requires a market');
+    }
+
+    logger.info(
+      { experimentId: EXPERIMENT_ID, marketId: market.id, models, aggregator, priceMode },
+      'Starting experiment 007 ensemble'
+    );
+
+    // Step 1: Shared research and prompts (same as exp006), fitted to the smallest context window
+    const asOf = options.asOf ?? new Date();
+    const smallestModel = models.reduce((smallest, model) =>
+      getModelLimits(model).contextWindow < getModelLimits(smallest).contextWindow ? model : smallest
+    );
+    const researchResult = await performMarketResearch(
+      market,
+      { ...RESEARCH_CONFIG, maxCharacters: getResearchTokenBudget(smallestModel) * CHARACTERS_PER_TOKEN },
+      {
+        agent: options.researchAgent,
+        planner: options.researchPlanner,
+        referenceClass: options.referenceClass,
+        maxAgeHours: options.researchMaxAgeHours,
+        asOf,
+      }
+    );
+    const { researchContext, tokenBudget } = fitResearchToModel(market, researchResult.sections, {
+      model: smallestModel,
+      blind: priceMode === 'blind',
+    });
+    const { systemPrompt, contextPrompt, templates } = buildPrompts(market, researchContext, {
+      blind: priceMode === 'blind',
+    });
+    const outcomeLabels = getCategoricalOutcomeLabels(market);
+
+    // Step 2: Run every member in parallel (budget errors reject the whole ensemble)
+    const brierScores = aggregator === 'brier-logodds' ? await getModelBrierScores() : new Map<string, number | null>();
+    const members: EnsembleMember[] = await Promise.all(
+      models.map(async model => {
+        const result = await generatePrediction({
+          marketId: market.id,
+          systemPrompt,
+          contextPrompt,
+          model,
+          temperature: TEMPERATURE,
+          outcomeLabels,
+          samples: options.samples,
+        });
+        const brierScore = brierScores.get(model) ?? null;
+
+        return {
+          model,
+          prediction: result.success && result.prediction ? result.prediction : null,
+          brierScore: aggregator === 'brier-logodds' ? brierScore : null,
+          weight: aggregator === 'brier-logodds' ? brierWeight(brierScore) : null,
+          promptTokens: result.usage?.promptTokens,
+          completionTokens: result.usage?.completionTokens,
+          reasoningTokens: result.usage?.reasoningTokens,
+          costUsd: result.costUsd ?? null,
+          rawResponse: result.rawResponse,
+          error: result.error,
+        };
+      })
+    );
+
+    const rawResponse = {
+      members: members.map(member => ({ model: member.model, rawResponse: member.rawResponse, error: member.error })),
+    };
+    // Failed members were paid for too
+    const memberCostItems = members.map(member => ({
+      stage: `prediction:${member.model}`,
+      model: member.model,
+      promptTokens: member.promptTokens,
+      completionTokens: member.completionTokens,
+      costUsd: member.costUsd,
+    }));
+
+    const succeeded = members.filter(member => member.prediction !== null);
+    if (succeeded.length === 0) {
+      failure = {
+        rawResponse,
+        usage: {
+          promptTokens: sumMembers(members, 'promptTokens'),
+          completionTokens: sumMembers(members, 'completionTokens'),
+          reasoningTokens: sumMembers(members, 'reasoningTokens'),
+          totalTokens: sumMembers(members, 'promptTokens') + sumMembers(members, 'completionTokens'),
+        },
+        costBreakdown: summarizeCosts([...researchResult.costItems, ...memberCostItems]),
+      };
+      throw new Error(`All ensemble members failed: ${members.map(m => `${m.model}: ${m.error}`).join('; ')}`);
+    }
+
+    // Step 3: Aggregate (per outcome for categorical markets, then rescaled to 100)
+    const weights = aggregator === 'brier-logodds' ? succeeded.map(member => member.weight!) : undefined;
+    let probability: number;
+    let outcome: string;
+    let outcomeProbabilities: Array<{ outcome: string; probability: number }> | undefined;
+    let disagreement: EnsembleDisagreement;
+
+    if (outcomeLabels) {
+      const perOutcome = outcomeLabels.map(label => {
+        const values = succeeded.map(
+          member => member.prediction!.outcomeProbabilities?.find(entry => entry.outcome === label)?.probability ?? 0
+        );
+        return {
+          outcome: label,
+          probability: aggregateProbabilities(values, aggregator, weights),
+          disagreement: computeDisagreement(values),
+        };
+      });
+
+      outcomeProbabilities = normalizeOutcomeProbabilities(perOutcome).map(({ outcome: label, probability: p }) => ({
+        outcome: label,
+        probability: p,
+      }));
+      probability = outcomeProbabilities[0].probability;
+      outcome = outcomeProbabilities.reduce((best, entry) => (entry.probability > best.probability ? entry : best)).outcome;
+      // Headline disagreement is the most contested outcome
+      disagreement = perOutcome.reduce((most, entry) => (entry.disagreement.stdDev > most.disagreement.stdDev ? entry : most)).disagreement;
+    } else {
+      const values = succeeded.map(member => member.prediction!.probability);
+      probability = aggregateProbabilities(values, aggregator, weights);
+      outcome = probability >= 50 ? 'YES' : 'NO';
+      disagreement = computeDisagreement(values);
+    }
+
+    const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+    const predictionData: PredictionOutput = {
+      outcome,
+      outcomeReasoning: `${aggregator} of ${succeeded.length}/${members.length} models (${succeeded.map(m => m.model).join(', ')}); member disagreement ${disagreement.stdDev.toFixed(1)} points std dev, ${disagreement.range.toFixed(1)} points range`,
+      confidence: mean(succeeded.map(member => member.prediction!.confidence)),
+      confidenceReasoning: 'Mean of member confidence',
+      probability,
+      ...(outcomeProbabilities && { outcomeProbabilities }),
+      keyFactors: [...new Set(succeeded.flatMap(member => member.prediction!.keyFactors))].slice(0, MAX_KEY_FACTORS),
+      dataQuality: mean(succeeded.map(member => member.prediction!.dataQuality)),
+      lastUpdated: new Date().toISOString(),
+    };
+
+    logger.info(
+      {
+        experimentId: EXPERIMENT_ID,
+        marketId: market.id,
+        aggregator,
+        probability,
+        memberProbabilities: succeeded.map(member => ({ model: member.model, probability: member.prediction!.probability })),
+        disagreement,
+        failedMembers: members.length - succeeded.length,
+      },
+      'Ensemble prediction aggregated'
+    );
+
+    // Step 4: Delta against the market (largest absolute per-outcome delta for categorical markets)
+    let outcomeDeltas: OutcomeDelta[] | undefined;
+    if (outcomeProbabilities) {
+      outcomeDeltas = calculateOutcomeDeltas(parseMarketOutcomes(market).value ?? [], outcomeProbabilities);
+    }
+
+    const deltaResult = outcomeDeltas
+      ? {
+          success: outcomeDeltas.some(delta => delta.delta !== null),
+          value: Math.max(...outcomeDeltas.map(delta => Math.abs(delta.delta ?? 0))),
+        }
+      : calculatePredictionDelta(market.outcomePrices, probability);
+    const predictionDelta = deltaResult.success ? deltaResult.value : undefined;
+
+    const cost = summarizeCosts([...researchResult.costItems, ...memberCostItems]);
+
+    const model = `ensemble:${aggregator}`;
+    const ensemble = {
+      aggregator,
+      models,
+      disagreement,
+      members: members.map(({ rawResponse, ...member }) => member),
+    };
+    const rawRequest = {
+      experimentId: EXPERIMENT_ID,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: contextPrompt },
+      ],
+      models,
+      aggregator,
+      temperature: TEMPERATURE,
+      samples: options.samples ?? 1,
+      priceMode,
+      enrichment: getResearchEnrichment(researchResult),
+    };
+
+    const saved = await savePrediction({
+      marketId: market.id,
+      experimentId: EXPERIMENT_ID,
+      marketSnapshot: market,
+      researchAsOf: asOf,
+      prediction: {
+        marketId: market.id,
+        question: market.question,
+        ...predictionData,
+        priceMode,
+        ensemble,
+        enrichmentMetadata: {
+          ...researchResult.metadata,
+          providers: researchResult.providers,
+          ...(researchResult.merge && { sourceMerge: researchResult.merge }),
+          tokenBudget,
+        },
+      },
+      rawRequest,
+      rawResponse,
+      promptTemplates: [
+        ...(researchResult.trace?.templates ?? []),
+        ...(researchResult.plan?.templates ?? []),
+        ...templates,
+      ],
+      model,
+      predictionDelta,
+      marketProbability: getYesOutcomePrice(market.outcomePrices).value,
+      outcomeProbabilities: outcomeDeltas?.map(({ outcome: label, probability: p, marketPrice }) => ({
+        outcome: label,
+        probability: p,
+        marketPrice,
+      })),
+      promptTokens: sumMembers(members, 'promptTokens'),
+      completionTokens: sumMembers(members, 'completionTokens'),
+      reasoningTokens: sumMembers(members, 'reasoningTokens'),
+      costUsd: cost.totalUsd,
+      costBreakdown: cost,
+      researchContext,
+      researchTrace: researchResult.trace,
+      researchPlan: researchResult.plan,
+      researchSourceIds: researchResult.sourceIds,
+      priceMode,
+      ...(priceMode === 'blind' ? { blindProbability: probability } : { anchoredProbability: probability }),
+    });
+
+    return {
+      success: true,
+      data: {
+        predictionId: saved.prediction.id,
+        marketId: market.id,
+        prediction: predictionData,
+        predictionDelta,
+        outcomeDeltas,
+        ensemble,
+        model,
+        rawRequest,
+        rawResponse,
+        promptTokens: sumMembers(members, 'promptTokens'),
+        completionTokens: sumMembers(members, 'completionTokens'),
+        reasoningTokens: sumMembers(members, 'reasoningTokens'),
+        costUsd: cost.totalUsd,
+        researchContext,
+      },
+    };
+  } catch (error) {
+    // Budget aborts are not prediction failures: surface them to the runner
+    if (isBudgetExceededError(error)) {
+      throw error;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const marketId = market?.id || 'unknown';
+
+    logger.error({ experimentId: EXPERIMENT_ID, marketId, error: errorMessage }, 'Experiment 007 failed');
+
+    if (marketId !== 'unknown') {
+      await saveFailedPrediction(marketId, errorMessage, failure);
+    }
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
@@ -1,4 +1,8 @@
 import { PolymarketMarket } from '../services/polymarket.js';
+import type { EnsembleAggregator } from '../utils/ensemble.js';
+import type { PriceMode } from './exp006/prepare-prompts.js';
+import type { ResearchAgentOptions } from '../services/research-agent.js';
+import type { ResearchPlannerOptions } from '../services/research-planner.js';
 
 /**
  * Result returned by an experiment
@@ -9,11 +13,39 @@ export interface ExperimentResult {
   error?: string;
 }
 
+/**
+ * Per-run options passed from the CLI; experiments ignore the ones they do not use
+ */
+export interface ExperimentRunOptions {
+  /** Model IDs to run (ensemble experiments) */
+  models?: string[];
+  /** How member probabilities are combined (ensemble experiments) */
+  aggregator?: EnsembleAggregator;
+  /** Self-consistency: sample each prediction N times and derive confidence from dispersion */
+  samples?: number;
+  /** Show market prices in the prompt (anchored), withhold them (blind) or run both side by side */
+  priceMode?: PriceMode;
+  /** Challenge the prediction with a critic, then adjudicate a revised prediction */
+  critic?: boolean;
+  /** Critic model ID (defaults to the predicting model) */
+  criticModel?: string;
+  /** Research with the tool-using research agent instead of a single query per provider */
+  researchAgent?: ResearchAgentOptions;
+  /** Decompose the question into sub-questions with targeted queries before researching */
+  researchPlanner?: ResearchPlannerOptions;
+  /** Add similar resolved markets from our own history to the research (default true) */
+  referenceClass?: boolean;
+  /** Reuse stored research for the same market or event fetched within this many hours (0 = always search) */
+  researchMaxAgeHours?: number;
+  /** Time the research is gathered as of (source recency, reference-class cutoff); set by the experiment runner */
+  asOf?: Date;
+}
+
 /**
  * Core interface that all experiments must implement
  */
 export interface ExperimentModule {
-  run(market: PolymarketMarket): Promise<ExperimentResult>;
+  run(market: PolymarketMarket, options?: ExperimentRunOptions): Promise<ExperimentResult>;
 }
 
 /**
@@ -0,0 +1,17 @@
+import type { PromptTemplate } from '../services/prompt-templates.js';
+import { EXP006_PROMPT_TEMPLATES } from './exp006.js';
+import { PREDICTION_PROMPT_TEMPLATES } from './prediction.js';
+import { RESEARCH_AGENT_PROMPT_TEMPLATES } from './research-agent.js';
+import { RESEARCH_PLANNER_PROMPT_TEMPLATES } from './research-planner.js';
+
+/**
+ * Every registered prompt template version
+ * Templates are never edited in place: add a new version and keep the old one so
+ * predictions made with it can still be diffed and traced.
+ */
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  ...EXP006_PROMPT_TEMPLATES,
+  ...PREDICTION_PROMPT_TEMPLATES,
+  ...RESEARCH_AGENT_PROMPT_TEMPLATES,
+  ...RESEARCH_PLANNER_PROMPT_TEMPLATES,
+];
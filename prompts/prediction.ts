@@ -0,0 +1,58 @@
+import type { PromptTemplate } from '../services/prompt-templates.js';
+
+/**
+ * Prompt templates for the legacy single-call prediction service (services/prediction.ts)
+ */
+export const PREDICTION_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'prediction-system',
+    version: '1.0.0',
+    description: 'System prompt: analyst role and guidelines',
+    variables: [],
+    template: `You are an expert prediction analyst for Polymarket markets. Your role is to analyze market questions and provide structured, data-driven predictions.
+
+Guidelines:
+- Analyze the question carefully and consider all available information
+- Provide a clear outcome prediction: YES, NO, or UNCERTAIN
+- Assign a confidence level (0-100) based on the strength of available evidence
+- Estimate a probability (0-100) for the YES outcome
+- Provide detailed reasoning for your prediction
+- Identify key factors that influence the outcome
+- Assess the quality of available data
+
+Be objective, balanced, and transparent about uncertainty. Focus on verifiable information over speculation.`,
+  },
+  {
+    id: 'prediction-context',
+    version: '1.0.0',
+    description: 'Context prompt: market details and nested JSON output format',
+    variables: ['marketId', 'question', 'description', 'conditionId', 'active', 'closed', 'volume', 'liquidity'],
+    template: `
+Market Question: {{question}}
+
+Description: {{description}}
+
+Market Details:
+- Market ID: {{marketId}}
+- Condition ID: {{conditionId}}
+- Active: {{active}}
+- Closed: {{closed}}
+- Current Volume: {{volume}}
+- Current Liquidity: {{liquidity}}
+
+Please analyze this market and provide a structured prediction following this JSON format:
+{
+  "marketId": "{{marketId}}",
+  "question": "{{question}}",
+  "prediction": {
+    "outcome": "YES" | "NO" | "UNCERTAIN",
+    "confidence": <number 0-100>,
+    "probability": <number 0-100>,
+    "reasoning": "<detailed explanation>"
+  },
+  "keyFactors": ["<factor 1>", "<factor 2>", ...],
+  "dataQuality": "HIGH" | "MEDIUM" | "LOW",
+  "lastUpdated": "<ISO timestamp>"
+}`,
+  },
+];
@@ -0,0 +1,67 @@
+import type { PromptTemplate } from '../services/prompt-templates.js';
+
+/**
+ * Research agent prompt templates (services/research-agent.ts)
+ * The agent picks one tool per step; each tool result comes back as an observation message.
+ */
+export const RESEARCH_AGENT_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'research-agent-system',
+    version: '1.0.0',
+    description: 'System prompt: research agent role, tools, strategy and budget',
+    variables: ['maxContentUrls', 'maxSteps', 'maxCostUsd'],
+    template: `You are a research agent gathering evidence for a forecast on a Polymarket prediction market. You do not make the forecast yourself: your job is to collect the evidence a forecaster needs to resolve the question.
+
+You work in steps. At each step choose exactly one action:
+- exa_search: neural web search. Returns titles, URLs, publication dates, summaries and highlights. Use specific, targeted queries.
+- exa_contents: read the full text of up to {{maxContentUrls}} URLs returned by earlier searches.
+- grok_search: real-time web and social search through Grok. Best for breaking news and very recent developments.
+- finish: stop and summarize the evidence you found.
+
+Research strategy:
+- Break the resolution criteria into the individual conditions that must hold, and make sure each condition is covered by evidence
+- Follow up on what you find: named people, dates, official sources and figures that need verification
+- Prefer primary and official sources, and read the full text of the most important ones
+- Never repeat a query you already ran
+- Do not rely on Polymarket itself; the forecast must come from outside evidence
+- Finish as soon as the evidence covers every condition, or when further searching is unlikely to change the picture
+
+You have at most {{maxSteps}} tool calls and a budget of \${{maxCostUsd}}. Each tool result tells you what remains.`,
+  },
+  {
+    id: 'research-agent-task',
+    version: '1.0.0',
+    description: 'First user message: market question, resolution criteria and action schema',
+    variables: ['question', 'eventTitle', 'description', 'closeTime', 'schema'],
+    template: `# Market Question
+{{question}}
+
+## Event
+{{eventTitle}}
+
+## Resolution Criteria
+{{description}}
+
+## Market Close Time
+{{closeTime}}
+
+---
+
+Plan your research and choose your first action. Respond ONLY with valid JSON matching this schema, with no markdown code blocks or other text:
+
+{{schema}}`,
+  },
+  {
+    id: 'research-agent-observation',
+    version: '1.0.0',
+    description: 'Tool result returned to the agent, with the remaining step and cost budget',
+    variables: ['step', 'tool', 'result', 'stepsLeft', 'budgetLeft'],
+    template: `# Result of step {{step}} ({{tool}})
+
+{{result}}
+
+---
+
+Remaining: {{stepsLeft}} tool calls, \${{budgetLeft}} budget. Choose your next action, or finish if the evidence is sufficient. Respond ONLY with JSON matching the schema.`,
+  },
+];
@@ -0,0 +1,284 @@
+import {
+  db,
+  predictions,
+  benchmarkSnapshots,
+  benchmarkSummary,
+  marketResolutions,
+  markets,
+  type Prediction,
+  type BenchmarkSummary,
+} from '../db/index.js';
+import { and, avg, desc, eq, isNull, or } from 'drizzle-orm';
+import { logger } from '../utils/logger.js';
+import { getYesOutcomePrice, isMarketOpenForBetting } from '../utils/market-utils.js';
+import { fetchMarketById, type PolymarketMarket } from './polymarket.js';
+import { getCanonicalPrediction } from './prediction-record.js';
+import { getPriceAtTime, savePriceSnapshot } from './market-price-history.js';
+
+/**
+ * Benchmark Service
+ * Tracks how market prices move toward (or away from) AI predictions over time.
+ * See design/benchmark-service-design.md for the methodology.
+ */
+
+// Delta changes smaller than half a percentage point are treated as noise
+const STABLE_THRESHOLD = 0.005;
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+export type MovementDirection = 'CONVERGING' | 'DIVERGING' | 'STABLE';
+
+export interface BenchmarkMetricsInput {
+  predictedProbability: number; // 0-100
+  currentPrice: number; // 0-1, market YES price
+  initialDelta: number; // 0-1
+  predictedAt: Date;
+  previousSnapshot?: { absDelta: number; snapshotAt: Date } | null;
+  now?: Date;
+}
+
+export interface BenchmarkMetrics {
+  absDelta: number;
+  movementDirection: MovementDirection;
+  convergenceRate: number | null;
+  cumulativeConvergence: number;
+  hoursSincePrediction: number;
+}
+
+/**
+ * Calculate benchmark metrics for one snapshot
+ * Movement and rate compare against the previous snapshot (or the initial state for the first one).
+ */
+export function calculateBenchmarkMetrics(input: BenchmarkMetricsInput): BenchmarkMetrics {
+  const now = input.now ?? new Date();
+  const absDelta = Math.abs(input.currentPrice - input.predictedProbability / 100);
+
+  const previousDelta = input.previousSnapshot?.absDelta ?? input.initialDelta;
+  const previousAt = input.previousSnapshot?.snapshotAt ?? input.predictedAt;
+  const deltaChange = previousDelta - absDelta;
+
+  let movementDirection: MovementDirection = 'STABLE';
+  if (deltaChange > STABLE_THRESHOLD) {
+    movementDirection = 'CONVERGING';
+  } else if (deltaChange < -STABLE_THRESHOLD) {
+    movementDirection = 'DIVERGING';
+  }
+
+  const hoursElapsed = (now.getTime() - previousAt.getTime()) / MS_PER_HOUR;
+
+  return {
+    absDelta,
+    movementDirection,
+    convergenceRate: hoursElapsed > 0 ? deltaChange / hoursElapsed : null,
+    cumulativeConvergence: input.initialDelta - absDelta,
+    hoursSincePrediction: Math.floor((now.getTime() - input.predictedAt.getTime()) / MS_PER_HOUR),
+  };
+}
+
+/**
+ * Fetch predictions that still need benchmarking (no summary yet, or summary still ACTIVE)
+ * on markets that are still open and unresolved
+ */
+export async function getActivePredictions(): Promise<Array<{ prediction: Prediction; summary: BenchmarkSummary | null }>> {
+  return db
+    .select({
+      prediction: predictions,
+      summary: benchmarkSummary,
+    })
+    .from(predictions)
+    .innerJoin(markets, eq(predictions.marketId, markets.marketId))
+    .leftJoin(marketResolutions, eq(predictions.marketId, marketResolutions.marketId))
+    .leftJoin(benchmarkSummary, eq(predictions.id, benchmarkSummary.predictionId))
+    .where(
+      and(
+        eq(markets.active, true),
+        eq(markets.closed, false),
+        isNull(marketResolutions.id),
+        or(isNull(benchmarkSummary.id), eq(benchmarkSummary.benchmarkStatus, 'ACTIVE'))
+      )
+    );
+}
+
+/**
+ * Get the most recent snapshot for a prediction
+ */
+async function getLatestSnapshot(predictionId: string) {
+  const [snapshot] = await db
+    .select()
+    .from(benchmarkSnapshots)
+    .where(eq(benchmarkSnapshots.predictionId, predictionId))
+    .orderBy(desc(benchmarkSnapshots.snapshotAt))
+    .limit(1);
+
+  return snapshot ?? null;
+}
+
+/**
+ * Benchmark one prediction against the current market state: save snapshot and upsert summary
+ */
+export async function benchmarkPrediction(
+  prediction: Prediction,
+  summary: BenchmarkSummary | null,
+  market: PolymarketMarket
+) {
+  const canonical = getCanonicalPrediction(prediction);
+  if (!canonical.success || !canonical.value) {
+    throw new Error(`Prediction has no canonical probability: ${canonical.error}`);
+  }
+
+  const priceResult = getYesOutcomePrice(market.outcomePrices);
+  if (!priceResult.success || priceResult.value === undefined) {
+    throw new Error(`Failed to get market price: ${priceResult.error}`);
+  }
+
+  const now = new Date();
+  const currentPrice = priceResult.value;
+  const { probability, confidence } = canonical.value;
+  const marketClosed = !isMarketOpenForBetting(market);
+
+  // Initial state: market price captured at prediction time, else price history, else the first benchmarked price
+  const initialMarketPrice =
+    summary?.initialMarketPrice ??
+    prediction.marketProbability ??
+    (await getPriceAtTime(market.id, prediction.createdAt))?.yesPrice ??
+    currentPrice;
+  const initialDelta = summary?.initialDelta ?? Math.abs(initialMarketPrice - probability / 100);
+
+  const previousSnapshot = await getLatestSnapshot(prediction.id);
+  const metrics = calculateBenchmarkMetrics({
+    predictedProbability: probability,
+    currentPrice,
+    initialDelta,
+    predictedAt: prediction.createdAt,
+    previousSnapshot,
+    now,
+  });
+
+  await db.insert(benchmarkSnapshots).values({
+    predictionId: prediction.id,
+    marketId: market.id,
+    snapshotAt: now,
+    marketPriceYes: currentPrice,
+    marketPriceNo: 1 - currentPrice,
+    marketClosed,
+    predictedProbability: probability,
+    predictedConfidence: confidence,
+    ...metrics,
+  });
+
+  // Average over the snapshots that have a rate (avg skips nulls), recomputed so none are miscounted
+  const [{ avgConvergenceRate }] = await db
+    .select({ avgConvergenceRate: avg(benchmarkSnapshots.convergenceRate).mapWith(Number) })
+    .from(benchmarkSnapshots)
+    .where(eq(benchmarkSnapshots.predictionId, prediction.id));
+  const previousCount = summary?.totalSnapshots ?? 0;
+
+  const summaryValues = {
+    latestMarketPrice: currentPrice,
+    latestDelta: metrics.absDelta,
+    marketClosed,
+    totalSnapshots: previousCount + 1,
+    hoursTracked: metrics.hoursSincePrediction,
+    convergingSnapshots: (summary?.convergingSnapshots ?? 0) + (metrics.movementDirection === 'CONVERGING' ? 1 : 0),
+    divergingSnapshots: (summary?.divergingSnapshots ?? 0) + (metrics.movementDirection === 'DIVERGING' ? 1 : 0),
+    stableSnapshots: (summary?.stableSnapshots ?? 0) + (metrics.movementDirection === 'STABLE' ? 1 : 0),
+    avgConvergenceRate: avgConvergenceRate ?? null,
+    cumulativeConvergence: metrics.cumulativeConvergence,
+    convergencePercentage: initialDelta > 0 ? (metrics.cumulativeConvergence / initialDelta) * 100 : null,
+    benchmarkStatus: marketClosed ? 'CLOSED' : 'ACTIVE',
+    lastBenchmarkedAt: now,
+  };
+
+  await db
+    .insert(benchmarkSummary)
+    .values({
+      predictionId: prediction.id,
+      marketId: market.id,
+      experimentId: prediction.experimentId,
+      predictedAt: prediction.createdAt,
+      predictedProbability: probability,
+      predictedConfidence: confidence,
+      initialMarketPrice,
+      initialDelta,
+      ...summaryValues,
+    })
+    .onConflictDoUpdate({
+      target: benchmarkSummary.predictionId,
+      set: {
+        ...summaryValues,
+        updatedAt: now,
+      },
+    });
+
+  return { ...metrics, marketClosed };
+}
+
+export interface BenchmarkRunResult {
+  processed: number;
+  converging: number;
+  diverging: number;
+  stable: number;
+  closed: number;
+  failures: Array<{ predictionId: string; error: string }>;
+}
+
+/**
+ * Snapshot current market prices for every active prediction
+ */
+export async function runBenchmark(): Promise<BenchmarkRunResult> {
+  const activePredictions = await getActivePredictions();
+  logger.info({ count: activePredictions.length }, 'Starting benchmark run');
+
+  const result: BenchmarkRunResult = {
+    processed: 0,
+    converging: 0,
+    diverging: 0,
+    stable: 0,
+    closed: 0,
+    failures: [],
+  };
+
+  // Several predictions often share a market, fetch each market once per run
+  const marketCache = new Map<string, Promise<PolymarketMarket>>();
+  const benchmarkedMarkets = new Set<string>();
+
+  for (const { prediction, summary } of activePredictions) {
+    try {
+      const marketId = prediction.marketId!;
+      if (!marketCache.has(marketId)) {
+        marketCache.set(marketId, fetchMarketById(marketId));
+      }
+      const market = await marketCache.get(marketId)!;
+
+      // Record the fetched price in the market history once per market
+      if (!benchmarkedMarkets.has(marketId)) {
+        benchmarkedMarkets.add(marketId);
+        await savePriceSnapshot(market, 'benchmark');
+      }
+
+      const metrics = await benchmarkPrediction(prediction, summary, market);
+      result.processed++;
+      if (metrics.movementDirection === 'CONVERGING') result.converging++;
+      if (metrics.movementDirection === 'DIVERGING') result.diverging++;
+      if (metrics.movementDirection === 'STABLE') result.stable++;
+      if (metrics.marketClosed) result.closed++;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn({ predictionId: prediction.id, error: errorMessage }, 'Failed to benchmark prediction');
+      result.failures.push({ predictionId: prediction.id, error: errorMessage });
+    }
+  }
+
+  logger.info(
+    {
+      processed: result.processed,
+      converging: result.converging,
+      diverging: result.diverging,
+      stable: result.stable,
+      closed: result.closed,
+      failed: result.failures.length,
+    },
+    'Benchmark run complete'
+  );
+
+  return result;
+}
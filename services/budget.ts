@@ -0,0 +1,259 @@
+import { db, predictions, spendLedger } from '../db/index.js';
+import { desc, eq, gte } from 'drizzle-orm';
+import { logger } from '../utils/logger.js';
+import { env } from '../config/env.js';
+import { calculateLlmCost } from '../utils/cost.js';
+
+/**
+ * Budget Service
+ * Records every paid LLM/research call in spend_ledger and enforces the daily and
+ * monthly caps (DAILY_BUDGET_USD, MONTHLY_BUDGET_USD) before each call.
+ */
+
+// Recent predictions used to project batch cost
+const ESTIMATE_SAMPLE_SIZE = 100;
+
+export type BudgetPeriod = 'daily' | 'monthly';
+
+export type SpendSource = 'llm' | 'exa';
+
+export interface SpendEntry {
+  source: SpendSource;
+  model?: string;
+  costUsd: number | null;
+}
+
+export interface BudgetLimits {
+  daily: number | null;
+  monthly: number | null;
+}
+
+export interface BudgetPeriodStatus {
+  period: BudgetPeriod;
+  since: Date;
+  limitUsd: number | null;
+  spentUsd: number;
+  remainingUsd: number | null;
+}
+
+/**
+ * Checks the budget before a paid call and records its cost afterwards
+ * Injected into the LLM client so tests and offline runs can skip the database.
+ */
+export interface BudgetGuard {
+  assertWithinBudget(): Promise<void>;
+  recordSpend(entry: SpendEntry): Promise<void>;
+}
+
+/**
+ * Raised when a spend cap has been reached; callers abort the run instead of degrading
+ */
+export interface BudgetExceededError extends Error {
+  budgetExceeded: true;
+  period: BudgetPeriod;
+  limitUsd: number;
+  spentUsd: number;
+}
+
+/**
+ * Create a BudgetExceededError
+ */
+export function createBudgetExceededError(period: BudgetPeriod, limitUsd: number, spentUsd: number): BudgetExceededError {
+  return Object.assign(
+    new Error(`${period === 'daily' ? 'Daily' : 'Monthly'} budget exceeded: $${spentUsd.toFixed(2)} spent of $${limitUsd.toFixed(2)}`),
+    { name: 'BudgetExceededError', budgetExceeded: true as const, period, limitUsd, spentUsd }
+  );
+}
+
+/**
+ * Whether an error is a BudgetExceededError
+ */
+export function isBudgetExceededError(error: unknown): error is BudgetExceededError {
+  return Boolean(error && typeof error === 'object' && (error as BudgetExceededError).budgetExceeded === true);
+}
+
+/**
+ * Parse a budget env value into USD (empty, invalid or negative means no cap)
+ */
+function parseBudget(value: string): number | null {
+  if (!value) {
+    return null;
+  }
+  const amount = parseFloat(value);
+  return isNaN(amount) || amount < 0 ? null : amount;
+}
+
+/**
+ * Get the configured spend caps
+ */
+export function getBudgetLimits(): BudgetLimits {
+  return {
+    daily: parseBudget(env.DAILY_BUDGET_USD),
+    monthly: parseBudget(env.MONTHLY_BUDGET_USD),
+  };
+}
+
+/**
+ * Start of the current budget period (UTC day or calendar month)
+ */
+export function getPeriodStart(period: BudgetPeriod, now: Date = new Date()): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Return the first period whose cap has been reached, or null while within budget
+ */
+export function findExceededPeriod(statuses: BudgetPeriodStatus[]): BudgetPeriodStatus | null {
+  return statuses.find(status => status.limitUsd !== null && status.spentUsd >= status.limitUsd) ?? null;
+}
+
+/**
+ * Sum recorded spend since a point in time
+ */
+export async function getSpendSince(since: Date): Promise<number> {
+  const rows = await db
+    .select({ costUsd: spendLedger.costUsd })
+    .from(spendLedger)
+    .where(gte(spendLedger.createdAt, since));
+
+  return rows.reduce((sum, row) => sum + (row.costUsd ?? 0), 0);
+}
+
+/**
+ * Get spend against each budget period
+ */
+export async function getBudgetStatus(now: Date = new Date()): Promise<BudgetPeriodStatus[]> {
+  const limits = getBudgetLimits();
+  const periods: BudgetPeriod[] = ['daily', 'monthly'];
+
+  return Promise.all(
+    periods.map(async period => {
+      const since = getPeriodStart(period, now);
+      const spentUsd = await getSpendSince(since);
+      const limitUsd = limits[period];
+
+      return {
+        period,
+        since,
+        limitUsd,
+        spentUsd,
+        remainingUsd: limitUsd === null ? null : Math.max(limitUsd - spentUsd, 0),
+      };
+    })
+  );
+}
+
+/**
+ * Throw a BudgetExceededError if a configured cap has been reached
+ * No-op (and no database query) when no caps are configured.
+ */
+export async function assertWithinBudget(): Promise<void> {
+  const limits = getBudgetLimits();
+  if (limits.daily === null && limits.monthly === null) {
+    return;
+  }
+
+  const exceeded = findExceededPeriod(await getBudgetStatus());
+  if (exceeded) {
+    logger.warn(
+      { period: exceeded.period, limitUsd: exceeded.limitUsd, spentUsd: exceeded.spentUsd },
+      'Budget exceeded, refusing paid call'
+    );
+    throw createBudgetExceededError(exceeded.period, exceeded.limitUsd!, exceeded.spentUsd);
+  }
+}
+
+/**
+ * Record the cost of a completed paid call
+ * Failures are logged rather than thrown: the call has already been paid for.
+ */
+export async function recordSpend(entry: SpendEntry): Promise<void> {
+  try {
+    await db.insert(spendLedger).values({
+      source: entry.source,
+      model: entry.model ?? null,
+      costUsd: entry.costUsd,
+    });
+  } catch (error) {
+    logger.warn(
+      { ...entry, error: error instanceof Error ? error.message : String(error) },
+      'Failed to record spend'
+    );
+  }
+}
+
+/**
+ * Budget guard backed by spend_ledger
+ */
+export const databaseBudgetGuard: BudgetGuard = {
+  assertWithinBudget,
+  recordSpend,
+};
+
+export interface BatchEstimate {
+  experimentId: string;
+  marketCount: number;
+  samples: number; // Historical predictions the averages are based on
+  avgPromptTokens: number | null;
+  avgCompletionTokens: number | null;
+  avgCostUsd: number | null;
+  projectedPromptTokens: number | null;
+  projectedCompletionTokens: number | null;
+  projectedCostUsd: number | null;
+}
+
+/**
+ * Average a list of nullable numbers, ignoring nulls
+ */
+function average(values: Array<number | null>): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) / present.length : null;
+}
+
+/**
+ * Project token usage and USD cost for running an experiment over a batch of markets
+ * Averages the experiment's most recent predictions; rows without a stored cost fall
+ * back to an LLM-token estimate (research cost unknown), as in report:costs.
+ */
+export async function estimateBatchCost(experimentId: string, marketCount: number): Promise<BatchEstimate> {
+  const rows = await db
+    .select({
+      model: predictions.model,
+      costUsd: predictions.costUsd,
+      promptTokens: predictions.promptTokens,
+      completionTokens: predictions.completionTokens,
+    })
+    .from(predictions)
+    .where(eq(predictions.experimentId, experimentId))
+    .orderBy(desc(predictions.createdAt))
+    .limit(ESTIMATE_SAMPLE_SIZE);
+
+  const avgPromptTokens = average(rows.map(row => row.promptTokens));
+  const avgCompletionTokens = average(rows.map(row => row.completionTokens));
+  const avgCostUsd = average(
+    rows.map(row =>
+      row.costUsd ?? (row.model && row.promptTokens !== null ? calculateLlmCost(row.model, row) : null)
+    )
+  );
+
+  const project = (value: number | null) => (value === null ? null : value * marketCount);
+
+  logger.info(
+    { experimentId, marketCount, samples: rows.length, avgCostUsd },
+    'Estimated batch cost'
+  );
+
+  return {
+    experimentId,
+    marketCount,
+    samples: rows.length,
+    avgPromptTokens,
+    avgCompletionTokens,
+    avgCostUsd,
+    projectedPromptTokens: project(avgPromptTokens),
+    projectedCompletionTokens: project(avgCompletionTokens),
+    projectedCostUsd: project(avgCostUsd),
+  };
+}
@@ -0,0 +1,140 @@
+import { db, predictions } from '../db/index.js';
+import { and, eq, gte } from 'drizzle-orm';
+import { logger } from '../utils/logger.js';
+import { calculateLlmCost } from '../utils/cost.js';
+import { buildScoreReport } from './score-report.js';
+
+/**
+ * Cost Report Service
+ * Aggregates prediction spend by day, experiment and model, next to each model's Brier score
+ */
+
+export type CostDimension = 'overall' | 'day' | 'experiment' | 'model';
+
+export interface CostGroup {
+  dimension: CostDimension;
+  key: string;
+  predictions: number;
+  estimatedPredictions: number; // Rows without cost_usd, estimated from LLM tokens only
+  unpricedPredictions: number; // Rows whose cost could not be determined
+  totalCostUsd: number;
+  avgCostUsd: number | null;
+  brierScore: number | null; // Model groups only, from resolved predictions
+}
+
+export interface CostReport {
+  generatedAt: string;
+  since: string | null;
+  groups: CostGroup[];
+}
+
+interface CostedPrediction {
+  day: string; // YYYY-MM-DD (UTC)
+  experimentId: string;
+  model: string;
+  costUsd: number | null;
+  estimated: boolean;
+}
+
+/**
+ * Aggregate a group of predictions
+ */
+function costGroup(dimension: CostDimension, key: string, rows: CostedPrediction[]): CostGroup {
+  const priced = rows.filter(row => row.costUsd !== null);
+  const totalCostUsd = priced.reduce((sum, row) => sum + row.costUsd!, 0);
+
+  return {
+    dimension,
+    key,
+    predictions: rows.length,
+    estimatedPredictions: rows.filter(row => row.estimated).length,
+    unpricedPredictions: rows.length - priced.length,
+    totalCostUsd,
+    avgCostUsd: priced.length > 0 ? totalCostUsd / priced.length : null,
+    brierScore: null,
+  };
+}
+
+/**
+ * Group predictions by a dimension and aggregate each group
+ */
+function costBy(
+  dimension: CostDimension,
+  rows: CostedPrediction[],
+  getKey: (row: CostedPrediction) => string
+): CostGroup[] {
+  const grouped = new Map<string, CostedPrediction[]>();
+  for (const row of rows) {
+    const key = getKey(row);
+    grouped.set(key, [...(grouped.get(key) ?? []), row]);
+  }
+
+  return [...grouped.entries()].map(([key, groupRows]) => costGroup(dimension, key, groupRows));
+}
+
+/**
+ * Build a spend report over stored predictions
+ * Rows written before cost tracking fall back to an LLM-token estimate (research cost unknown).
+ *
+ * @param options.experimentId - Only include predictions from this experiment
+ * @param options.since - Only include predictions created at or after this date
+ */
+export async function buildCostReport(options: { experimentId?: string; since?: Date } = {}): Promise<CostReport> {
+  const rows = await db
+    .select({
+      experimentId: predictions.experimentId,
+      model: predictions.model,
+      createdAt: predictions.createdAt,
+      costUsd: predictions.costUsd,
+      promptTokens: predictions.promptTokens,
+      completionTokens: predictions.completionTokens,
+    })
+    .from(predictions)
+    .where(
+      and(
+        options.experimentId ? eq(predictions.experimentId, options.experimentId) : undefined,
+        options.since ? gte(predictions.createdAt, options.since) : undefined
+      )
+    );
+
+  const costed: CostedPrediction[] = rows.map(row => {
+    const estimatedCost =
+      row.costUsd === null && row.model && row.promptTokens !== null
+        ? calculateLlmCost(row.model, row)
+        : null;
+
+    return {
+      day: row.createdAt.toISOString().slice(0, 10),
+      experimentId: row.experimentId,
+      model: row.model || 'unknown',
+      costUsd: row.costUsd ?? estimatedCost,
+      estimated: row.costUsd === null && estimatedCost !== null,
+    };
+  });
+
+  // Cost per unit of accuracy: attach each model's Brier score over its resolved predictions
+  const scoreReport = await buildScoreReport({ experimentId: options.experimentId });
+  const brierByModel = new Map(
+    scoreReport.groups.filter(group => group.dimension === 'model').map(group => [group.key, group.forecast.brierScore])
+  );
+
+  const modelGroups = costBy('model', costed, row => row.model)
+    .map(group => ({ ...group, brierScore: brierByModel.get(group.key) ?? null }))
+    .sort((a, b) => b.totalCostUsd - a.totalCostUsd);
+
+  logger.info(
+    { predictions: costed.length, experimentId: options.experimentId, since: options.since },
+    'Built cost report'
+  );
+
+  return {
+    generatedAt: new Date().toISOString(),
+    since: options.since?.toISOString() ?? null,
+    groups: [
+      costGroup('overall', 'all', costed),
+      ...costBy('day', costed, row => row.day).sort((a, b) => a.key.localeCompare(b.key)),
+      ...costBy('experiment', costed, row => row.experimentId).sort((a, b) => b.totalCostUsd - a.totalCostUsd),
+      ...modelGroups,
+    ],
+  };
+}
@@ -0,0 +1,204 @@
+import { db, predictions, eventPredictionRuns } from '../db/index.js';
+import { eq } from 'drizzle-orm';
+import { logger } from '../utils/logger.js';
+import { isMarketOpenForBetting, normalizeOutcomeProbabilities } from '../utils/market-utils.js';
+import { fetchEventBySlug, type PolymarketMarket } from './polymarket.js';
+import { ingestEvent, ingestMarket } from './polymarket-storage.js';
+import { runExperiment } from './experiment-runner.js';
+import { normalizePrediction } from './prediction-record.js';
+
+/**
+ * Event Runner Service
+ * Runs one experiment over every open market in a Polymarket event and makes the
+ * resulting probabilities coherent for mutually exclusive (negRisk) events.
+ */
+
+export interface EventMarketResult {
+  marketId: string;
+  question: string;
+  predictionId: string | null;
+  rawProbability: number | null; // 0-100, YES probability as predicted on its own
+  normalizedProbability: number | null; // 0-100, rescaled across the event (negRisk only)
+  error?: string;
+}
+
+export interface EventCoherence {
+  rawProbabilitySum: number | null;
+  incoherence: number | null; // |raw sum - 100|, negRisk events only
+  normalized: boolean;
+  results: EventMarketResult[];
+}
+
+export interface RunEventOptions {
+  experimentNumber?: string;
+  eventSlug: string;
+}
+
+export interface RunEventResult {
+  runId: string;
+  eventId: string;
+  eventTitle: string;
+  experimentId: string;
+  negRisk: boolean;
+  marketCount: number;
+  predictedCount: number;
+  budgetExceeded: boolean;
+  coherence: EventCoherence;
+}
+
+/**
+ * Measure and fix incoherence across an event's per-market predictions
+ * Only negRisk events are normalized, and only when every market got a prediction:
+ * rescaling a partial set would push the missing markets' probability mass onto the others.
+ */
+export function computeEventCoherence(results: EventMarketResult[], negRisk: boolean): EventCoherence {
+  const predicted = results.filter(result => result.rawProbability !== null);
+  const rawProbabilitySum = predicted.length > 0
+    ? predicted.reduce((sum, result) => sum + result.rawProbability!, 0)
+    : null;
+
+  if (!negRisk || rawProbabilitySum === null) {
+    return { rawProbabilitySum, incoherence: null, normalized: false, results };
+  }
+
+  const incoherence = Math.abs(rawProbabilitySum - 100);
+  if (predicted.length !== results.length) {
+    return { rawProbabilitySum, incoherence, normalized: false, results };
+  }
+
+  const normalized = normalizeOutcomeProbabilities(
+    results.map(result => ({ marketId: result.marketId, probability: result.rawProbability! }))
+  );
+
+  return {
+    rawProbabilitySum,
+    incoherence,
+    normalized: true,
+    results: results.map((result, index) => ({
+      ...result,
+      normalizedProbability: normalized[index].probability,
+    })),
+  };
+}
+
+/**
+ * Run an experiment over every open market in an event
+ */
+export async function runEventExperiment(options: RunEventOptions): Promise<RunEventResult> {
+  const experimentNumber = (options.experimentNumber || '001').padStart(3, '0');
+
+  const event = await fetchEventBySlug(options.eventSlug);
+  await ingestEvent(event);
+
+  const negRisk = event.negRisk === true;
+  const eventMarkets = (event.markets ?? []).filter(market => isMarketOpenForBetting(market));
+
+  logger.info(
+    { eventId: event.id, eventSlug: event.slug, negRisk, marketCount: eventMarkets.length, experimentId: experimentNumber },
+    'Starting event experiment run'
+  );
+
+  if (eventMarkets.length === 0) {
+    throw new Error(`Event ${options.eventSlug} has no open markets`);
+  }
+
+  const results: EventMarketResult[] = [];
+  let budgetExceeded = false;
+
+  for (const eventMarket of eventMarkets) {
+    // Attach event ID for the database relationship (eventSlug field stores the event ID)
+    const market: PolymarketMarket = { ...eventMarket, eventSlug: event.id };
+    const result: EventMarketResult = {
+      marketId: market.id,
+      question: market.question,
+      predictionId: null,
+      rawProbability: null,
+      normalizedProbability: null,
+    };
+
+    // Remaining markets stay unpredicted, so the run is recorded but not normalized
+    if (budgetExceeded) {
+      result.error = 'Skipped: budget exceeded';
+      results.push(result);
+      continue;
+    }
+
+    try {
+      await ingestMarket(market);
+
+      const experimentResult = await runExperiment({ experimentNumber, market });
+      if (experimentResult.budgetExceeded) {
+        budgetExceeded = true;
+      }
+      if (!experimentResult.success) {
+        throw new Error(experimentResult.error || 'Experiment failed');
+      }
+
+      const canonical = normalizePrediction(experimentResult.data?.prediction);
+      result.predictionId = experimentResult.data?.predictionId ?? null;
+      result.rawProbability = canonical.value?.probability ?? null;
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+      logger.warn({ eventId: event.id, marketId: market.id, error: result.error }, 'Event market prediction failed');
+    }
+
+    results.push(result);
+  }
+
+  const coherence = computeEventCoherence(results, negRisk);
+
+  // Store the coherent probability next to each raw prediction
+  if (coherence.normalized) {
+    for (const result of coherence.results) {
+      if (result.predictionId && result.normalizedProbability !== null) {
+        await db
+          .update(predictions)
+          .set({ eventNormalizedProbability: result.normalizedProbability })
+          .where(eq(predictions.id, result.predictionId));
+      }
+    }
+  }
+
+  const predictedCount = results.filter(result => result.rawProbability !== null).length;
+
+  const [run] = await db
+    .insert(eventPredictionRuns)
+    .values({
+      eventId: event.id,
+      experimentId: experimentNumber,
+      negRisk,
+      marketCount: eventMarkets.length,
+      predictedCount,
+      rawProbabilitySum: coherence.rawProbabilitySum,
+      incoherence: coherence.incoherence,
+      normalized: coherence.normalized,
+      results: coherence.results,
+    })
+    .returning();
+
+  logger.info(
+    {
+      runId: run.id,
+      eventId: event.id,
+      predictedCount,
+      marketCount: eventMarkets.length,
+      rawProbabilitySum: coherence.rawProbabilitySum,
+      incoherence: coherence.incoherence,
+      normalized: coherence.normalized,
+      budgetExceeded,
+    },
+    'Event experiment run complete'
+  );
+
+  return {
+    runId: run.id,
+    eventId: event.id,
+    eventTitle: event.title,
+    experimentId: experimentNumber,
+    negRisk,
+    marketCount: eventMarkets.length,
+    predictedCount,
+    budgetExceeded,
+    coherence,
+  };
+}
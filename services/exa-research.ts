@@ -1,4 +1,11 @@
 import { logger } from '../utils/logger.js';
+import { calculateExaContentsCost, calculateExaCost } from '../utils/cost.js';
+import type { ParseResult } from '../utils/market-utils.js';
+import { assertWithinBudget, isBudgetExceededError, recordSpend } from './budget.js';
+import { getResponseCache, hashCacheKey, isReplayMode } from './llm-cache.js';
+import { getProviders } from './providers.js';
+import type { ResearchProvider, ResearchProviderResult } from './research-providers.js';
+import { takeWithinCharacters, type ResearchSourceData } from '../utils/research-context.js';
 
 /**
  * Exa AI Research Service
@@ -22,6 +29,7 @@ export interface ExaContentResult {
   highlights?: string[];
   publishedDate?: string;
   author?: string;
+  score?: number; // Search relevance (absent for contents requests)
 }
 
 export interface ExaResearchOptions {
@@ -40,6 +48,7 @@ export interface ExaResearchOptions {
     highlights?: boolean | { numSentences?: number; highlightsPerUrl?: number };
     summary?: boolean | { query?: string };
   };
+  maxCharacters?: number; // Total across results (default 25K)
 }
 
 export interface ExaResearchResult {
@@ -49,6 +58,24 @@ export interface ExaResearchResult {
     contents: ExaContentResult[];
     totalCharacters: number;
     truncated: boolean;
+    costUsd: number; // Billed cost reported by Exa, else estimated from RESEARCH_PRICING
+  };
+  error?: string;
+}
+
+export interface ExaContentsOptions {
+  urls: string[];
+  text?: boolean | { maxCharacters?: number };
+  highlights?: boolean | { numSentences?: number; highlightsPerUrl?: number };
+  summary?: boolean | { query?: string };
+}
+
+export interface ExaContentsResult {
+  success: boolean;
+  data?: {
+    contents: ExaContentResult[];
+    totalCharacters: number;
+    costUsd: number;
   };
   error?: string;
 }
@@ -77,10 +104,10 @@ interface ExaSearchApiResult {
 
 interface ExaSearchResponse {
   results?: ExaSearchApiResult[];
+  costDollars?: { total?: number };
 }
 
-const EXA_API_BASE = 'https://api.exa.ai';
-const MAX_CHARACTERS = 25000; // Half of total 50K budget, sharing with Grok
+const DEFAULT_MAX_CHARACTERS = 25000; // Half of total 50K budget, sharing with Grok
 const DEFAULT_NUM_RESULTS = 8; // Default number of search results to return
 const DEFAULT_TEXT_MAX_CHARS = 1000; // Max characters per result text content
 const STRING_FALLBACK_KEYS = ['text', 'summary', 'content', 'snippet', 'value'];
@@ -144,13 +171,92 @@ function extractHighlights(highlights: unknown): string[] | undefined {
   return normalized.length > 0 ? normalized : undefined;
 }
 
+/**
+ * Normalize one API result into content fields (Exa returns them at the top level or nested)
+ */
+function toContentResult(result: ExaSearchApiResult): ExaContentResult {
+  const resultContents = result.contents ?? result.content ?? {};
+
+  return {
+    url: result.url,
+    title: result.title || 'Untitled Source',
+    text: extractString(result.text ?? resultContents.text),
+    summary: extractString(result.summary ?? resultContents.summary),
+    highlights: extractHighlights(result.highlights ?? resultContents.highlights),
+    publishedDate: result.publishedDate ?? resultContents.publishedDate,
+    author: result.author ?? resultContents.author,
+    score: result.score,
+  };
+}
+
+/**
+ * Characters a content result adds to the research context
+ */
+export function getExaContentLength(content: ExaContentResult): number {
+  return [content.title, content.summary, content.text, content.highlights?.join(' ')]
+    .filter((segment): segment is string => Boolean(segment))
+    .join(' ').length;
+}
+
+/**
+ * Send an Exa request, or serve it from the response cache in replay mode
+ * Live responses are checked against and charged to the budget, then recorded for replay.
+ */
+async function requestExa(
+  endpoint: 'search' | 'contents',
+  payload: Record<string, unknown>,
+  estimateCostUsd: (data: ExaSearchResponse) => number
+): Promise<ParseResult<{ data: ExaSearchResponse; costUsd: number }>> {
+  // Search keys stay payload-only so responses recorded before the contents endpoint still replay
+  const cacheKey = hashCacheKey('exa', endpoint === 'search' ? payload : { endpoint, ...payload });
+
+  if (isReplayMode()) {
+    const cached = await getResponseCache()?.get(cacheKey);
+    if (!cached) {
+      logger.error({ cacheKey, endpoint }, 'No cached Exa AI response in replay mode');
+      return {
+        success: false,
+        error: `No cached Exa AI ${endpoint} response for this request (replay mode)`,
+      };
+    }
+
+    logger.info({ cacheKey, endpoint }, 'Exa AI response replayed from cache');
+    return { success: true, value: { data: cached.response as ExaSearchResponse, costUsd: 0 } };
+  }
+
+  await assertWithinBudget();
+
+  const provider = getProviders().exa;
+  const response = endpoint === 'search' ? await provider.search(payload) : await provider.contents(payload);
+
+  if (!response.ok) {
+    const errorText = typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+    logger.error(
+      { endpoint, status: response.status, error: errorText },
+      'Exa AI request failed'
+    );
+    return {
+      success: false,
+      error: `Exa AI API error: ${response.status} - ${errorText}`,
+    };
+  }
+
+  const data = response.data as ExaSearchResponse;
+  const costUsd = data.costDollars?.total ?? estimateCostUsd(data);
+  await recordSpend({ source: 'exa', costUsd });
+  await getResponseCache()?.set({ key: cacheKey, source: 'exa', model: null, request: payload, response: data });
+
+  return { success: true, value: { data, costUsd } };
+}
+
 /**
  * Perform web research using Exa AI's Search + Contents APIs
  */
 export async function performExaResearch(options: ExaResearchOptions): Promise<ExaResearchResult> {
   const apiKey = process.env.EXA_API_KEY;
 
-  if (!apiKey) {
+  // Replay mode never calls Exa
+  if (!apiKey && !isReplayMode()) {
     logger.error('EXA_API_KEY not found in environment variables');
     return {
       success: false,
@@ -162,6 +268,7 @@ export async function performExaResearch(options: ExaResearchOptions): Promise<E
     const {
       query,
       numResults = DEFAULT_NUM_RESULTS,
+      maxCharacters = DEFAULT_MAX_CHARACTERS,
       useAutoprompt = true,
       type = 'neural',
       market,
@@ -208,29 +315,15 @@ export async function performExaResearch(options: ExaResearchOptions): Promise<E
       }
     }
 
-    // Call Exa Search API with contents parameter
-    const response = await fetch(`${EXA_API_BASE}/search`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-      },
-      body: JSON.stringify(searchPayload),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      logger.error(
-        { status: response.status, error: errorText },
-        'Exa AI search request failed'
-      );
-      return {
-        success: false,
-        error: `Exa AI API error: ${response.status} - ${errorText}`,
-      };
+    const contentTypes = [contentsConfig.text, contentsConfig.highlights, contentsConfig.summary].filter(Boolean).length;
+    const response = await requestExa('search', searchPayload, data =>
+      calculateExaCost(data.results?.length ?? 0, contentTypes)
+    );
+    if (!response.success || !response.value) {
+      return { success: false, error: response.error };
     }
+    const { data, costUsd } = response.value;
 
-    const data = (await response.json()) as ExaSearchResponse;
     const results = data.results ?? [];
 
     // Extract search results
@@ -244,19 +337,7 @@ export async function performExaResearch(options: ExaResearchOptions): Promise<E
     }));
 
     // Extract contents
-    const contentResults: ExaContentResult[] = results.map(result => {
-      const resultContents = result.contents ?? result.content ?? {};
-
-      return {
-        url: result.url,
-        title: result.title || 'Untitled Source',
-        text: extractString(result.text ?? resultContents.text),
-        summary: extractString(result.summary ?? resultContents.summary),
-        highlights: extractHighlights(result.highlights ?? resultContents.highlights),
-        publishedDate: result.publishedDate ?? resultContents.publishedDate,
-        author: result.author ?? resultContents.author,
-      };
-    });
+    const contentResults: ExaContentResult[] = results.map(toContentResult);
 
     // Calculate total characters and truncate if needed
     let totalCharacters = 0;
@@ -264,22 +345,15 @@ export async function performExaResearch(options: ExaResearchOptions): Promise<E
     const truncatedContents: ExaContentResult[] = [];
 
     for (const content of contentResults) {
-      const segments = [
-        content.title,
-        content.summary,
-        content.text,
-        content.highlights?.join(' '),
-      ].filter((segment): segment is string => Boolean(segment));
-
-      const contentLength = segments.join(' ').length;
+      const contentLength = getExaContentLength(content);
 
-      if (totalCharacters + contentLength <= MAX_CHARACTERS) {
+      if (totalCharacters + contentLength <= maxCharacters) {
         truncatedContents.push(content);
         totalCharacters += contentLength;
       } else {
         truncated = true;
         logger.warn(
-          { totalCharacters, maxCharacters: MAX_CHARACTERS },
+          { totalCharacters, maxCharacters },
           'Content truncated to stay within token limits'
         );
         break;
@@ -292,6 +366,7 @@ export async function performExaResearch(options: ExaResearchOptions): Promise<E
         numContents: truncatedContents.length,
         totalCharacters,
         truncated,
+        costUsd,
       },
       'Exa AI research completed'
     );
@@ -303,9 +378,15 @@ export async function performExaResearch(options: ExaResearchOptions): Promise<E
         contents: truncatedContents,
         totalCharacters,
         truncated,
+        costUsd,
       },
     };
   } catch (error) {
+    // A reached budget aborts the run rather than continuing without research
+    if (isBudgetExceededError(error)) {
+      throw error;
+    }
+
     const errorMessage = error instanceof Error ? error.message : String(error);
     logger.error({ error: errorMessage }, 'Exa AI research failed');
 
@@ -316,6 +397,63 @@ export async function performExaResearch(options: ExaResearchOptions): Promise<E
   }
 }
 
+/**
+ * Fetch page contents for known URLs using Exa AI's Contents API
+ * Used to read sources found by earlier searches in full.
+ */
+export async function fetchExaContents(options: ExaContentsOptions): Promise<ExaContentsResult> {
+  const apiKey = process.env.EXA_API_KEY;
+
+  // Replay mode never calls Exa
+  if (!apiKey && !isReplayMode()) {
+    logger.error('EXA_API_KEY not found in environment variables');
+    return {
+      success: false,
+      error: 'EXA_API_KEY not configured',
+    };
+  }
+
+  try {
+    const { urls, text = { maxCharacters: DEFAULT_TEXT_MAX_CHARS }, highlights, summary } = options;
+
+    logger.info({ urls }, 'Fetching Exa AI contents');
+
+    const payload: Record<string, unknown> = { urls, text, ...(highlights && { highlights }), ...(summary && { summary }) };
+    const contentTypes = [text, highlights, summary].filter(Boolean).length;
+    const response = await requestExa('contents', payload, data =>
+      calculateExaContentsCost(data.results?.length ?? 0, contentTypes)
+    );
+    if (!response.success || !response.value) {
+      return { success: false, error: response.error };
+    }
+
+    const contents = (response.value.data.results ?? []).map(toContentResult);
+    const totalCharacters = contents.reduce((sum, content) => sum + getExaContentLength(content), 0);
+
+    logger.info(
+      { numContents: contents.length, totalCharacters, costUsd: response.value.costUsd },
+      'Exa AI contents fetched'
+    );
+
+    return {
+      success: true,
+      data: { contents, totalCharacters, costUsd: response.value.costUsd },
+    };
+  } catch (error) {
+    if (isBudgetExceededError(error)) {
+      throw error;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error({ error: errorMessage }, 'Exa AI contents request failed');
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
+
 /**
  * Format Exa research results into a readable context string for AI models
  */
@@ -359,3 +497,59 @@ export function formatExaResearchContext(contents: ExaContentResult[]): string {
 
   return `# Web Research Data\n\nThe following information was gathered from web research to provide context for this prediction:\n\n${sections.join('\n\n---\n\n')}`;
 }
+
+/**
+ * Exa search or contents result in research provider form
+ */
+export function toExaProviderResult(result: ExaResearchResult | ExaContentsResult): ResearchProviderResult<ExaContentResult> {
+  if (!result.success || !result.data) {
+    return { success: false, items: [], characters: 0, truncated: false, costItems: [], error: result.error };
+  }
+  return {
+    success: true,
+    items: result.data.contents,
+    characters: result.data.totalCharacters,
+    truncated: 'truncated' in result.data ? result.data.truncated : false,
+    costItems: [{ stage: 'research:exa', costUsd: result.data.costUsd }],
+  };
+}
+
+/**
+ * Exa as a research provider: one neural search with summaries, highlights and text per result
+ */
+export const exaResearchProvider: ResearchProvider<ExaContentResult> = {
+  id: 'exa',
+  name: 'Exa AI',
+  webSearch: true,
+  async search({ query, market, maxCharacters }) {
+    return toExaProviderResult(
+      await performExaResearch({
+        query,
+        numResults: 10,
+        useAutoprompt: true,
+        type: 'neural',
+        market,
+        contents: {
+          text: { maxCharacters: 1500 },
+          highlights: { numSentences: 3, highlightsPerUrl: 3 },
+          summary: true,
+        },
+        maxCharacters,
+      })
+    );
+  },
+  async contents(urls, { maxCharacters }) {
+    const result = toExaProviderResult(await fetchExaContents({ urls, text: { maxCharacters: DEFAULT_TEXT_MAX_CHARS } }));
+    const { kept, characters } = takeWithinCharacters(result.items, getExaContentLength, maxCharacters);
+    return { ...result, items: kept, characters, truncated: kept.length < result.items.length };
+  },
+  format: formatExaResearchContext,
+  toSources(contents) {
+    return contents.map(content => ({ ...content }));
+  },
+  fromSources(sources: ResearchSourceData[], maxCharacters) {
+    const contents = sources.map(source => ({ ...source, title: source.title || 'Untitled Source' }));
+    const { kept, characters } = takeWithinCharacters(contents, getExaContentLength, maxCharacters);
+    return { items: kept, characters };
+  },
+};
@@ -1,12 +1,17 @@
 import { logger } from '../utils/logger.js';
-import { fetchMarketBySlug, fetchEventBySlug } from './polymarket.js';
+import { fetchMarketBySlug, fetchEventBySlug, type PolymarketMarket } from './polymarket.js';
 import { ingestMarket, ingestEvent } from './polymarket-storage.js';
+import { getMarketSnapshot } from './prediction-storage.js';
 import { experimentRegistry, getExperimentMetadata, isExperimentAvailable } from '../experiments/config.js';
-import { ExperimentModule } from '../experiments/types.js';
+import { ExperimentModule, ExperimentRunOptions } from '../experiments/types.js';
+import { assertWithinBudget, isBudgetExceededError } from './budget.js';
+import { isReplayMode } from './llm-cache.js';
 
 export interface ExperimentOptions {
   experimentNumber?: string;
-  marketSlug: string;
+  marketSlug?: string;
+  market?: PolymarketMarket; // Already fetched and ingested market (skips fetch and ingestion)
+  runOptions?: ExperimentRunOptions;
 }
 
 export interface ExperimentRunResult {
@@ -15,6 +20,7 @@ export interface ExperimentRunResult {
   experimentName: string;
   marketId?: string;
   error?: string;
+  budgetExceeded?: boolean; // Spend cap reached; batch callers should stop
   data?: any;
 }
 
@@ -60,6 +66,39 @@ async function loadExperiment(experimentId: string): Promise<ExperimentModule> {
   }
 }
 
+/**
+ * Fetch and ingest the market and its event (unless the caller already did)
+ */
+async function fetchAndIngestMarket(options: ExperimentOptions): Promise<PolymarketMarket> {
+  // Fail fast before fetching anything once the spend cap is reached
+  await assertWithinBudget();
+
+  // Fetch and ingest market (unless the caller already did)
+  const market = options.market ?? (await fetchMarketBySlug(options.marketSlug!));
+  if (!options.market) {
+    await ingestMarket(market);
+  }
+
+  // Fetch and ingest event data if available
+  const events = (market as any).events;
+  if (!options.market && events && Array.isArray(events) && events.length > 0) {
+    const eventSlug = events[0].slug;
+    try {
+      const event = await fetchEventBySlug(eventSlug);
+      await ingestEvent(event);
+      // Attach event ID to market for database relationship (eventSlug field stores the event ID)
+      market.eventSlug = event.id;
+      // Re-save market with event_id relationship
+      await ingestMarket(market);
+      logger.info({ eventSlug, eventId: event.id, eventTitle: event.title }, 'Event data fetched and ingested, market updated with event relationship');
+    } catch (eventError) {
+      logger.warn({ eventSlug, error: eventError }, 'Failed to fetch and ingest event data');
+    }
+  }
+
+  return market;
+}
+
 /**
  * Run a prediction experiment
  */
@@ -85,36 +124,28 @@ export async function runExperiment(options: ExperimentOptions): Promise<Experim
       experimentId: expNum,
       name: metadata.name,
       version: metadata.version,
-      marketSlug: options.marketSlug,
+      marketSlug: options.marketSlug ?? options.market?.slug,
+      runOptions: options.runOptions,
     },
     'Starting experiment'
   );
 
   try {
-    // Fetch and ingest market
-    const market = await fetchMarketBySlug(options.marketSlug);
-    await ingestMarket(market);
-
-    // Fetch and ingest event data if available
-    const events = (market as any).events;
-    if (events && Array.isArray(events) && events.length > 0) {
-      const eventSlug = events[0].slug;
-      try {
-        const event = await fetchEventBySlug(eventSlug);
-        await ingestEvent(event);
-        // Attach event ID to market for database relationship (eventSlug field stores the event ID)
-        market.eventSlug = event.id;
-        // Re-save market with event_id relationship
-        await ingestMarket(market);
-        logger.info({ eventSlug, eventId: event.id, eventTitle: event.title }, 'Event data fetched and ingested, market updated with event relationship');
-      } catch (eventError) {
-        logger.warn({ eventSlug, error: eventError }, 'Failed to fetch and ingest event data');
-      }
+    if (!options.market && !options.marketSlug) {
+      throw new Error('Either marketSlug or market must be provided');
     }
 
+    // Replay runs offline against the market snapshot saved with the last run and cached responses,
+    // as of the original run's time so the research (and so every prompt) comes out the same
+    const { market, asOf } = !isReplayMode()
+      ? { market: await fetchAndIngestMarket(options), asOf: new Date() }
+      : options.market
+        ? { market: options.market, asOf: new Date() }
+        : await getMarketSnapshot(options.marketSlug!, expNum);
+
     // Load and run the experiment
     const experimentModule = await loadExperiment(expNum);
-    const result = await experimentModule.run(market);
+    const result = await experimentModule.run(market, { asOf, ...options.runOptions });
 
     return {
       success: result.success,
@@ -135,6 +166,7 @@ export async function runExperiment(options: ExperimentOptions): Promise<Experim
       experimentId: expNum,
       experimentName: metadata.name,
       error: errorMessage,
+      budgetExceeded: isBudgetExceededError(error),
     };
   }
 }
@@ -1,4 +1,10 @@
 import { logger } from '../utils/logger.js';
+import { getLlmClient, type LlmUsage } from './llm-client.js';
+import { MODEL_IDS } from '../config/models.js';
+import { isBudgetExceededError } from './budget.js';
+import { isReplayMode } from './llm-cache.js';
+import type { ResearchProvider, ResearchProviderResult } from './research-providers.js';
+import { takeWithinCharacters } from '../utils/research-context.js';
 
 /**
  * Grok Search Service
@@ -16,6 +22,7 @@ export interface GrokSearchResult {
 export interface GrokSearchOptions {
   query: string;
   maxResults?: number;
+  maxCharacters?: number; // Total across results (default 25K)
   market?: {
     question: string;
     description?: string;
@@ -30,12 +37,28 @@ export interface GrokSearchResponse {
     results: GrokSearchResult[];
     totalCharacters: number;
     truncated: boolean;
+    usage: LlmUsage;
+    costUsd: number | null;
   };
   error?: string;
 }
 
-const MAX_CHARACTERS = 25000; // Half of total 50K budget, sharing with Exa
+const DEFAULT_MAX_CHARACTERS = 25000; // Half of total 50K budget, sharing with Exa
 const DEFAULT_NUM_RESULTS = 10; // Default number of search results to return
+const GROK_SEARCH_MODEL = MODEL_IDS.XAI_GROK_3_MINI;
+
+/**
+ * Characters a search result adds to the research context
+ */
+export function getGrokResultLength(result: GrokSearchResult): number {
+  return (
+    (result.title?.length || 0) +
+    (result.snippet?.length || 0) +
+    (result.url?.length || 0) +
+    (result.publishedDate?.length || 0) +
+    (result.source?.length || 0)
+  );
+}
 
 /**
  * Perform web search using Grok via OpenRouter
@@ -43,7 +66,8 @@ const DEFAULT_NUM_RESULTS = 10; // Default number of search results to return
 export async function performGrokSearch(options: GrokSearchOptions): Promise<GrokSearchResponse> {
   const apiKey = process.env.OPENROUTER_API_KEY;
 
-  if (!apiKey) {
+  // Replay mode is served from the response cache
+  if (!apiKey && !isReplayMode()) {
     logger.error('OPENROUTER_API_KEY not found in environment variables');
     return {
       success: false,
@@ -52,7 +76,7 @@ export async function performGrokSearch(options: GrokSearchOptions): Promise<Gro
   }
 
   try {
-    const { query, maxResults = DEFAULT_NUM_RESULTS, market } = options;
+    const { query, maxResults = DEFAULT_NUM_RESULTS, maxCharacters = DEFAULT_MAX_CHARACTERS, market } = options;
 
     logger.info({ query, maxResults, hasMarketContext: !!market }, 'Starting Grok web search via OpenRouter');
 
@@ -96,41 +120,35 @@ Return up to ${maxResults} high-quality results formatted as a JSON array. Each
 Respond ONLY with a valid JSON array, no additional text or markdown formatting.`;
 
     // Call OpenRouter with Grok model for web search with real-time data
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-        'HTTP-Referer': 'https://betterai.tools',
-        'X-Title': 'BetterAI Engine',
-      },
-      body: JSON.stringify({
+    let content: string;
+    let usage: LlmUsage;
+    let costUsd: number | null;
+    try {
+      const response = await getLlmClient().complete({
         messages: [
           {
             role: 'user',
             content: searchPrompt,
           },
         ],
-        model: 'x-ai/grok-3-mini',
+        model: GROK_SEARCH_MODEL,
         temperature: 0.3,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      logger.error(
-        { status: response.status, error: errorText },
-        'Grok search request failed'
-      );
+      });
+      content = response.content;
+      usage = response.usage;
+      costUsd = response.costUsd;
+    } catch (requestError) {
+      if (isBudgetExceededError(requestError)) {
+        throw requestError;
+      }
+      const errorMessage = requestError instanceof Error ? requestError.message : String(requestError);
+      logger.error({ error: errorMessage }, 'Grok search request failed');
       return {
         success: false,
-        error: `Grok API error: ${response.status} - ${errorText}`,
+        error: `Grok API error: ${errorMessage}`,
       };
     }
 
-    const data: any = await response.json();
-    const content = data.choices?.[0]?.message?.content;
-
     if (!content) {
       logger.error('No content in Grok response');
       return {
@@ -159,20 +177,15 @@ Respond ONLY with a valid JSON array, no additional text or markdown formatting.
     const truncatedResults: GrokSearchResult[] = [];
 
     for (const result of results) {
-      const resultLength =
-        (result.title?.length || 0) +
-        (result.snippet?.length || 0) +
-        (result.url?.length || 0) +
-        (result.publishedDate?.length || 0) +
-        (result.source?.length || 0);
-
-      if (totalCharacters + resultLength <= MAX_CHARACTERS) {
+      const resultLength = getGrokResultLength(result);
+
+      if (totalCharacters + resultLength <= maxCharacters) {
         truncatedResults.push(result);
         totalCharacters += resultLength;
       } else {
         truncated = true;
         logger.warn(
-          { totalCharacters, maxCharacters: MAX_CHARACTERS },
+          { totalCharacters, maxCharacters },
           'Grok results truncated to stay within character limits'
         );
         break;
@@ -194,9 +207,15 @@ Respond ONLY with a valid JSON array, no additional text or markdown formatting.
         results: truncatedResults,
         totalCharacters,
         truncated,
+        usage,
+        costUsd,
       },
     };
   } catch (error) {
+    if (isBudgetExceededError(error)) {
+      throw error;
+    }
+
     const errorMessage = error instanceof Error ? error.message : String(error);
     logger.error({ error: errorMessage }, 'Grok search failed');
 
@@ -259,3 +278,54 @@ export function formatGrokSearchContext(results: GrokSearchResult[]): string {
 
   return `# Grok Web Search Results\n\nThe following search results provide additional real-time context:\n\n${sections.join('\n\n---\n\n')}`;
 }
+
+/**
+ * Grok search result in research provider form
+ */
+export function toGrokProviderResult(result: GrokSearchResponse): ResearchProviderResult<GrokSearchResult> {
+  if (!result.success || !result.data) {
+    return { success: false, items: [], characters: 0, truncated: false, costItems: [], error: result.error };
+  }
+  return {
+    success: true,
+    items: result.data.results,
+    characters: result.data.totalCharacters,
+    truncated: result.data.truncated,
+    costItems: [
+      {
+        stage: 'research:grok',
+        model: GROK_SEARCH_MODEL,
+        promptTokens: result.data.usage.promptTokens,
+        completionTokens: result.data.usage.completionTokens,
+        costUsd: result.data.costUsd,
+      },
+    ],
+  };
+}
+
+/**
+ * Grok as a research provider: real-time web and social search
+ */
+export const grokResearchProvider: ResearchProvider<GrokSearchResult> = {
+  id: 'grok',
+  name: 'Grok',
+  webSearch: true,
+  async search({ query, market, maxCharacters }) {
+    return toGrokProviderResult(await performGrokSearch({ query, maxResults: 10, market, maxCharacters }));
+  },
+  format: formatGrokSearchContext,
+  toSources(results) {
+    return results.map(({ snippet, ...result }) => ({ ...result, text: snippet }));
+  },
+  fromSources(sources, maxCharacters) {
+    const results: GrokSearchResult[] = sources.map(source => ({
+      url: source.url,
+      title: source.title ?? '',
+      snippet: source.text,
+      publishedDate: source.publishedDate,
+      source: source.source,
+    }));
+    const { kept, characters } = takeWithinCharacters(results, getGrokResultLength, maxCharacters);
+    return { items: kept, characters };
+  },
+};
@@ -0,0 +1,147 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { db, llmCache } from '../db/index.js';
+import { eq } from 'drizzle-orm';
+import { logger } from '../utils/logger.js';
+import { env } from '../config/env.js';
+import type { LlmRequest } from './llm-client.js';
+
+/**
+ * LLM Cache Service
+ * Content-addressed store of full LLM and research responses. Every paid call is recorded;
+ * in replay mode calls are served only from the cache so experiments re-run offline.
+ */
+
+export type CacheSource = 'llm' | 'exa';
+
+export interface CachedResponse {
+  key: string;
+  source: CacheSource;
+  model: string | null;
+  request: unknown;
+  response: unknown;
+}
+
+/**
+ * Response store; writes never throw (a failed write only loses replayability)
+ */
+export interface ResponseCache {
+  get(key: string): Promise<CachedResponse | null>;
+  set(entry: CachedResponse): Promise<void>;
+}
+
+let replayMode = false;
+
+/**
+ * Serve LLM and research calls from the cache only (set by --replay)
+ */
+export function enableReplayMode(): void {
+  replayMode = true;
+}
+
+/**
+ * Whether calls must be served from the cache
+ */
+export function isReplayMode(): boolean {
+  return replayMode;
+}
+
+/**
+ * Content hash of a request
+ */
+export function hashCacheKey(source: CacheSource, request: unknown): string {
+  return createHash('sha256').update(JSON.stringify({ source, request })).digest('hex');
+}
+
+/**
+ * Cache key of an LLM request: model, messages, temperature, response schema and sample index
+ */
+export function getLlmCacheKey(request: LlmRequest): string {
+  return hashCacheKey('llm', getCachedLlmRequest(request));
+}
+
+/**
+ * The parts of an LLM request that determine its response
+ */
+export function getCachedLlmRequest(request: LlmRequest) {
+  return {
+    model: request.model,
+    messages: request.messages,
+    temperature: request.temperature ?? null,
+    schema: request.responseFormat ?? null,
+    // Only when set, so keys of unsampled requests are unchanged
+    ...(request.sample !== undefined && { sample: request.sample }),
+  };
+}
+
+/**
+ * Postgres-backed cache (llm_cache table)
+ */
+export function createDatabaseCache(): ResponseCache {
+  return {
+    async get(key) {
+      const rows = await db.select().from(llmCache).where(eq(llmCache.key, key)).limit(1);
+      return rows.length > 0 ? { ...rows[0], source: rows[0].source as CacheSource } : null;
+    },
+    async set(entry) {
+      try {
+        // First response wins (repeated samples are keyed apart by their sample index)
+        await db.insert(llmCache).values(entry).onConflictDoNothing();
+      } catch (error) {
+        logger.error(
+          { key: entry.key, source: entry.source, error: error instanceof Error ? error.message : String(error) },
+          'Failed to write response cache entry'
+        );
+      }
+    },
+  };
+}
+
+/**
+ * Disk-backed cache, one JSON file per key
+ */
+export function createDiskCache(dir: string): ResponseCache {
+  return {
+    async get(key) {
+      try {
+        return JSON.parse(await readFile(join(dir, `${key}.json`), 'utf-8')) as CachedResponse;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+    async set(entry) {
+      try {
+        await mkdir(dir, { recursive: true });
+        await writeFile(join(dir, `${entry.key}.json`), JSON.stringify(entry), { encoding: 'utf-8', flag: 'wx' });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+          return;
+        }
+        logger.error(
+          { key: entry.key, source: entry.source, error: error instanceof Error ? error.message : String(error) },
+          'Failed to write response cache entry'
+        );
+      }
+    },
+  };
+}
+
+let defaultCache: ResponseCache | null | undefined;
+
+/**
+ * Get the configured cache (LLM_CACHE: postgres, disk or off), null when disabled
+ */
+export function getResponseCache(): ResponseCache | null {
+  if (defaultCache === undefined) {
+    const store = env.LLM_CACHE;
+    if (store !== 'postgres' && store !== 'disk' && store !== 'off') {
+      throw new Error(`Invalid LLM_CACHE "${store}" (expected postgres, disk or off)`);
+    }
+    defaultCache = store === 'postgres' ? createDatabaseCache() : store === 'disk' ? createDiskCache(env.LLM_CACHE_DIR) : null;
+  }
+  return defaultCache;
+}
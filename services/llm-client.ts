@@ -0,0 +1,336 @@
+import { logger } from '../utils/logger.js';
+import { env } from '../config/env.js';
+import { calculateLlmCost } from '../utils/cost.js';
+import { databaseBudgetGuard, type BudgetGuard } from './budget.js';
+import { getCachedLlmRequest, getLlmCacheKey, getResponseCache, isReplayMode, type ResponseCache } from './llm-cache.js';
+import { getProviders } from './providers.js';
+
+/**
+ * LLM Client Service
+ * Single entry point for chat completions: pluggable providers, retries with backoff
+ * on 429/5xx/network errors, per-attempt timeouts, normalized token usage, budget checks
+ * and a response cache for deterministic replay.
+ */
+
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_TIMEOUT_MS = 180_000; // Reasoning models can take minutes on long research contexts
+const DEFAULT_BASE_DELAY_MS = 1_000;
+const MAX_DELAY_MS = 30_000;
+
+export type LlmRole = 'system' | 'user' | 'assistant';
+
+export interface LlmMessage {
+  role: LlmRole;
+  content: string;
+}
+
+/**
+ * Native structured output: constrain the response to a JSON schema
+ */
+export interface LlmResponseFormat {
+  type: 'json_schema';
+  name: string;
+  schema: Record<string, unknown>;
+  strict?: boolean;
+}
+
+export interface LlmRequest {
+  model: string;
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number; // Overrides the client timeout for this request
+  responseFormat?: LlmResponseFormat; // Only for models that support it (see supportsStructuredOutput)
+  sample?: number; // Index among repeated samples of one request; keys the cache, not sent to the provider
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number; // Included in completionTokens by providers that report it
+  totalTokens: number;
+}
+
+export interface LlmResponse {
+  content: string;
+  model: string; // Model that actually served the request
+  provider: string;
+  usage: LlmUsage;
+  costUsd: number | null; // From MODEL_PRICING for the requested model, null when unpriced
+  attempts: number;
+  latencyMs: number;
+  raw: any; // Provider response body, kept for debugging and rawResponse columns
+  cached?: boolean; // Served from the response cache (replay mode)
+}
+
+/**
+ * Provider result for a single attempt (retries and timing are handled by the client)
+ */
+export interface LlmProviderResponse {
+  content: string;
+  model: string;
+  usage: LlmUsage;
+  raw: any;
+}
+
+export interface LlmProvider {
+  name: string;
+  complete(request: LlmRequest, signal: AbortSignal): Promise<LlmProviderResponse>;
+}
+
+export interface LlmClient {
+  complete(request: LlmRequest): Promise<LlmResponse>;
+}
+
+export interface LlmClientOptions {
+  provider?: LlmProvider;
+  maxRetries?: number;
+  timeoutMs?: number;
+  baseDelayMs?: number;
+  budget?: BudgetGuard; // Checked before each request, charged after it succeeds
+  cache?: ResponseCache; // Every response is recorded; replay mode reads from it instead of the provider
+  replay?: boolean; // Defaults to the global replay mode (--replay)
+}
+
+/**
+ * Error raised by providers; retryable errors are retried with backoff by the client
+ */
+export interface LlmError extends Error {
+  status?: number;
+  retryable: boolean;
+  retryAfterMs?: number;
+}
+
+/**
+ * Create an LlmError
+ */
+export function createLlmError(
+  message: string,
+  details: { status?: number; retryable: boolean; retryAfterMs?: number }
+): LlmError {
+  return Object.assign(new Error(message), details);
+}
+
+/**
+ * Whether an error should be retried: rate limits, server errors, timeouts and network failures
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error && typeof error === 'object' && 'retryable' in error) {
+    return Boolean((error as LlmError).retryable);
+  }
+
+  // fetch() network failures are TypeErrors, AbortSignal.timeout() raises TimeoutError
+  return error instanceof TypeError || (error instanceof Error && error.name === 'TimeoutError');
+}
+
+/**
+ * Normalize an OpenAI-compatible usage block into LlmUsage
+ */
+export function normalizeUsage(usage: any): LlmUsage {
+  const promptTokens = usage?.prompt_tokens ?? 0;
+  const completionTokens = usage?.completion_tokens ?? 0;
+
+  return {
+    promptTokens,
+    completionTokens,
+    reasoningTokens: usage?.completion_tokens_details?.reasoning_tokens ?? usage?.reasoning_tokens ?? 0,
+    totalTokens: usage?.total_tokens ?? promptTokens + completionTokens,
+  };
+}
+
+/**
+ * Sum usage over several requests
+ */
+export function sumUsage(usages: LlmUsage[]): LlmUsage {
+  return usages.reduce(
+    (total, usage) => ({
+      promptTokens: total.promptTokens + usage.promptTokens,
+      completionTokens: total.completionTokens + usage.completionTokens,
+      reasoningTokens: total.reasoningTokens + usage.reasoningTokens,
+      totalTokens: total.totalTokens + usage.totalTokens,
+    }),
+    { promptTokens: 0, completionTokens: 0, reasoningTokens: 0, totalTokens: 0 }
+  );
+}
+
+/**
+ * OpenRouter provider (OpenAI-compatible chat completions API)
+ */
+export function createOpenRouterProvider(options: { apiKey?: string; baseUrl?: string } = {}): LlmProvider {
+  const baseUrl = options.baseUrl ?? OPENROUTER_BASE_URL;
+
+  return {
+    name: 'openrouter',
+    async complete(request, signal) {
+      const apiKey = options.apiKey ?? env.OPENROUTER_API_KEY;
+      if (!apiKey) {
+        throw createLlmError('OPENROUTER_API_KEY not configured', { retryable: false });
+      }
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${apiKey}`,
+          'HTTP-Referer': 'https://betterai.tools',
+          'X-Title': 'BetterAI Engine',
+        },
+        body: JSON.stringify({
+          model: request.model,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          ...(request.responseFormat && {
+            response_format: {
+              type: 'json_schema',
+              json_schema: {
+                name: request.responseFormat.name,
+                strict: request.responseFormat.strict ?? false,
+                schema: request.responseFormat.schema,
+              },
+            },
+            // Only route to upstream providers that honour response_format
+            provider: { require_parameters: true },
+          }),
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        const retryAfter = parseFloat(response.headers.get('retry-after') ?? '');
+        throw createLlmError(`OpenRouter API error: ${response.status} - ${errorText}`, {
+          status: response.status,
+          retryable: response.status === 429 || response.status >= 500,
+          retryAfterMs: isNaN(retryAfter) ? undefined : retryAfter * 1000,
+        });
+      }
+
+      const data: any = await response.json();
+
+      // OpenRouter can return 200 with an error body when the upstream provider fails
+      if (data?.error) {
+        const status = typeof data.error.code === 'number' ? data.error.code : undefined;
+        throw createLlmError(`OpenRouter provider error: ${data.error.message ?? JSON.stringify(data.error)}`, {
+          status,
+          retryable: status === undefined || status === 429 || status >= 500,
+        });
+      }
+
+      return {
+        content: data.choices?.[0]?.message?.content ?? '',
+        model: data.model ?? request.model,
+        usage: normalizeUsage(data.usage),
+        raw: data,
+      };
+    },
+  };
+}
+
+/**
+ * Create an LLM client around a provider (OpenRouter by default)
+ */
+export function createLlmClient(options: LlmClientOptions = {}): LlmClient {
+  const provider = options.provider ?? createOpenRouterProvider();
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+
+  return {
+    async complete(request) {
+      const timeoutMs = request.timeoutMs ?? options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+      const startedAt = Date.now();
+      const cacheKey = getLlmCacheKey(request);
+
+      if (options.replay ?? isReplayMode()) {
+        const cached = await options.cache?.get(cacheKey);
+        if (!cached) {
+          throw createLlmError(`No cached response for ${request.model} (replay mode)`, { retryable: false });
+        }
+
+        logger.info({ model: request.model, cacheKey }, 'LLM response replayed from cache');
+        return {
+          ...(cached.response as LlmProviderResponse),
+          provider: 'cache',
+          costUsd: 0,
+          attempts: 0,
+          latencyMs: Date.now() - startedAt,
+          cached: true,
+        };
+      }
+
+      // Outside the retry loop: a reached cap is never retried
+      await options.budget?.assertWithinBudget();
+
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const result = await provider.complete(request, AbortSignal.timeout(timeoutMs));
+          const latencyMs = Date.now() - startedAt;
+          const costUsd = calculateLlmCost(request.model, result.usage);
+
+          logger.info(
+            {
+              provider: provider.name,
+              model: result.model,
+              attempts: attempt,
+              latencyMs,
+              costUsd,
+              ...result.usage,
+            },
+            'LLM request completed'
+          );
+          await options.budget?.recordSpend({ source: 'llm', model: request.model, costUsd });
+          await options.cache?.set({
+            key: cacheKey,
+            source: 'llm',
+            model: request.model,
+            request: getCachedLlmRequest(request),
+            response: result,
+          });
+
+          return { ...result, provider: provider.name, costUsd, attempts: attempt, latencyMs };
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+
+          if (attempt > maxRetries || !isRetryableError(error)) {
+            logger.error(
+              { provider: provider.name, model: request.model, attempts: attempt, error: errorMessage },
+              'LLM request failed'
+            );
+            throw error;
+          }
+
+          // Exponential backoff with jitter, honouring Retry-After when the provider sends one (both capped)
+          const backoffMs = Math.min(baseDelayMs * 2 ** (attempt - 1), MAX_DELAY_MS);
+          const retryAfterMs = (error as LlmError).retryAfterMs;
+          const delayMs =
+            retryAfterMs !== undefined ? Math.min(retryAfterMs, MAX_DELAY_MS) : backoffMs + Math.random() * baseDelayMs;
+
+          logger.warn(
+            { provider: provider.name, model: request.model, attempt, delayMs: Math.round(delayMs), error: errorMessage },
+            'LLM request failed, retrying'
+          );
+          await new Promise(resolve => setTimeout(resolve, delayMs));
+        }
+      }
+    },
+  };
+}
+
+let defaultClient: { provider: LlmProvider; client: LlmClient } | null = null;
+
+/**
+ * Get the shared default LLM client (active LLM provider, budget-enforced, cached per LLM_CACHE)
+ */
+export function getLlmClient(): LlmClient {
+  // Rebuilt when the provider is swapped with setProviders
+  const provider = getProviders().llm;
+  if (defaultClient?.provider !== provider) {
+    defaultClient = {
+      provider,
+      client: createLlmClient({ provider, budget: databaseBudgetGuard, cache: getResponseCache() ?? undefined }),
+    };
+  }
+  return defaultClient.client;
+}
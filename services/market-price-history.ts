@@ -0,0 +1,80 @@
+import { db, marketPriceSnapshots } from '../db/index.js';
+import { and, asc, desc, eq, gte, lte } from 'drizzle-orm';
+import { logger } from '../utils/logger.js';
+import { parseOutcomePrices } from '../utils/market-utils.js';
+import { PolymarketMarket } from './polymarket.js';
+
+/**
+ * Market Price History Service
+ * Append-only time series of outcomePrices, volume and liquidity per market
+ */
+
+export type PriceSnapshotSource = 'ingest' | 'ingest:prices' | 'benchmark' | 'sync:resolutions';
+
+/**
+ * Parse a Gamma numeric string (volume, liquidity) into a number
+ */
+function parseNumeric(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  return isNaN(num) ? null : num;
+}
+
+/**
+ * Append a price snapshot for a market
+ * Markets without parseable outcomePrices are skipped (returns null).
+ */
+export async function savePriceSnapshot(marketData: PolymarketMarket, source: PriceSnapshotSource) {
+  const pricesResult = parseOutcomePrices(marketData.outcomePrices);
+  if (!pricesResult.success || !pricesResult.value) {
+    logger.debug({ marketId: marketData.id, error: pricesResult.error }, 'Skipping price snapshot');
+    return null;
+  }
+
+  const result = await db
+    .insert(marketPriceSnapshots)
+    .values({
+      marketId: marketData.id,
+      outcomePrices: pricesResult.value,
+      yesPrice: pricesResult.value[0] ?? null,
+      volume: parseNumeric(marketData.volume),
+      liquidity: parseNumeric(marketData.liquidity),
+      source,
+    })
+    .returning();
+
+  return result[0];
+}
+
+/**
+ * Get the last known price snapshot at or before a point in time
+ */
+export async function getPriceAtTime(marketId: string, at: Date) {
+  const [snapshot] = await db
+    .select()
+    .from(marketPriceSnapshots)
+    .where(and(eq(marketPriceSnapshots.marketId, marketId), lte(marketPriceSnapshots.capturedAt, at)))
+    .orderBy(desc(marketPriceSnapshots.capturedAt))
+    .limit(1);
+
+  return snapshot ?? null;
+}
+
+/**
+ * Get the price series for a market between two timestamps (inclusive, oldest first)
+ */
+export async function getPriceSeries(marketId: string, from: Date, to: Date) {
+  return db
+    .select()
+    .from(marketPriceSnapshots)
+    .where(
+      and(
+        eq(marketPriceSnapshots.marketId, marketId),
+        gte(marketPriceSnapshots.capturedAt, from),
+        lte(marketPriceSnapshots.capturedAt, to)
+      )
+    )
+    .orderBy(asc(marketPriceSnapshots.capturedAt));
+}
@@ -0,0 +1,207 @@
+import { db, predictions, marketResolutions } from '../db/index.js';
+import { eq, isNotNull, isNull } from 'drizzle-orm';
+import { logger } from '../utils/logger.js';
+import { parseOutcomePrices, parseOutcomes } from '../utils/market-utils.js';
+import { fetchMarketById, PolymarketMarket } from './polymarket.js';
+import { saveRawMarket } from './polymarket-storage.js';
+import { savePriceSnapshot } from './market-price-history.js';
+
+/**
+ * Market Resolution Service
+ * Detects how closed markets resolved and stores the ground truth in market_resolutions
+ */
+
+// Final outcomePrices settle at exactly 1/0, allow a small tolerance for string rounding
+const WINNING_PRICE_THRESHOLD = 0.99;
+const LOSING_PRICE_THRESHOLD = 0.01;
+const VOID_PRICE = 0.5;
+
+// UMA statuses that mean the oracle has not settled yet
+const UNSETTLED_UMA_STATUSES = ['proposed', 'disputed', 'challenged'];
+
+export type ResolutionStatus = 'RESOLVED' | 'VOID';
+
+export interface DetectedResolution {
+  status: ResolutionStatus;
+  resolvedOutcome: string | null;
+  resolvedOutcomeIndex: number | null;
+  finalOutcomePrices: number[];
+  umaResolutionStatus: string | null;
+  resolvedAt: Date | null;
+}
+
+/**
+ * Parse a Gamma timestamp (e.g. '2024-11-06 12:00:00+00' or ISO) into a Date
+ */
+function parseGammaDate(value?: string): Date | null {
+  if (!value) {
+    return null;
+  }
+
+  // Gamma uses Postgres-style timestamps with a short UTC offset ('+00'), which Date cannot parse
+  const normalized = value.replace(' ', 'T').replace(/([+-]\d{2})$/, '$1:00');
+  const date = new Date(normalized);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Detect whether a Gamma market payload is resolved and which outcome won
+ * Returns null while the market is open or the resolution is not yet final.
+ */
+export function detectMarketResolution(market: PolymarketMarket): DetectedResolution | null {
+  if (!market.closed) {
+    return null;
+  }
+
+  const umaStatus = market.umaResolutionStatus?.toLowerCase() ?? null;
+  if (umaStatus && UNSETTLED_UMA_STATUSES.includes(umaStatus)) {
+    return null;
+  }
+
+  const pricesResult = parseOutcomePrices(market.outcomePrices);
+  if (!pricesResult.success || !pricesResult.value || pricesResult.value.length < 2) {
+    return null;
+  }
+
+  const prices = pricesResult.value;
+  const outcomes = parseOutcomes(market.outcomes).value ?? [];
+  const resolvedAt = parseGammaDate(market.closedTime) ?? parseGammaDate(market.endDate);
+
+  // Exactly one outcome settled at 1, every other at 0
+  const winnerIndex = prices.findIndex(price => price >= WINNING_PRICE_THRESHOLD);
+  const othersSettled = prices.every((price, index) => index === winnerIndex || price <= LOSING_PRICE_THRESHOLD);
+
+  if (winnerIndex !== -1 && othersSettled) {
+    return {
+      status: 'RESOLVED',
+      resolvedOutcome: outcomes[winnerIndex] ?? (winnerIndex === 0 ? 'Yes' : 'No'),
+      resolvedOutcomeIndex: winnerIndex,
+      finalOutcomePrices: prices,
+      umaResolutionStatus: market.umaResolutionStatus ?? null,
+      resolvedAt,
+    };
+  }
+
+  // 50/50 settlement only counts once UMA confirms it, otherwise it is just a stale closed book
+  if (umaStatus === 'resolved' && prices.every(price => price === VOID_PRICE)) {
+    return {
+      status: 'VOID',
+      resolvedOutcome: null,
+      resolvedOutcomeIndex: null,
+      finalOutcomePrices: prices,
+      umaResolutionStatus: market.umaResolutionStatus ?? null,
+      resolvedAt,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Save a detected resolution to database
+ */
+export async function saveMarketResolution(market: PolymarketMarket, resolution: DetectedResolution) {
+  const values = {
+    status: resolution.status,
+    resolvedOutcome: resolution.resolvedOutcome,
+    resolvedOutcomeIndex: resolution.resolvedOutcomeIndex,
+    finalOutcomePrices: resolution.finalOutcomePrices,
+    umaResolutionStatus: resolution.umaResolutionStatus,
+    resolvedAt: resolution.resolvedAt,
+    data: market,
+  };
+
+  const result = await db
+    .insert(marketResolutions)
+    .values({
+      marketId: market.id,
+      ...values,
+    })
+    .onConflictDoUpdate({
+      target: marketResolutions.marketId,
+      set: {
+        ...values,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+
+  logger.info(
+    { marketId: market.id, status: resolution.status, resolvedOutcome: resolution.resolvedOutcome },
+    'Market resolution saved'
+  );
+  return result[0];
+}
+
+export interface SyncResolutionsResult {
+  checked: number;
+  resolved: Array<{ marketId: string; status: ResolutionStatus; resolvedOutcome: string | null }>;
+  pending: string[];
+  failures: Array<{ marketId: string; error: string }>;
+}
+
+/**
+ * Re-fetch every market referenced by a prediction and record resolutions
+ *
+ * @param options.all - Re-check markets that already have a resolution row
+ */
+export async function syncMarketResolutions(options: { all?: boolean } = {}): Promise<SyncResolutionsResult> {
+  const rows = await db
+    .selectDistinct({ marketId: predictions.marketId })
+    .from(predictions)
+    .leftJoin(marketResolutions, eq(predictions.marketId, marketResolutions.marketId))
+    .where(options.all ? isNotNull(predictions.marketId) : isNull(marketResolutions.id));
+
+  const marketIds = rows
+    .map(row => row.marketId)
+    .filter((marketId): marketId is string => Boolean(marketId));
+
+  logger.info({ count: marketIds.length, all: !!options.all }, 'Syncing market resolutions');
+
+  const result: SyncResolutionsResult = {
+    checked: 0,
+    resolved: [],
+    pending: [],
+    failures: [],
+  };
+
+  for (const marketId of marketIds) {
+    try {
+      const market = await fetchMarketById(marketId);
+      result.checked++;
+
+      // Keep raw payload current (structured row is left alone to preserve its event relationship)
+      await saveRawMarket(market);
+      await savePriceSnapshot(market, 'sync:resolutions');
+
+      const resolution = detectMarketResolution(market);
+      if (!resolution) {
+        result.pending.push(marketId);
+        continue;
+      }
+
+      await saveMarketResolution(market, resolution);
+      result.resolved.push({
+        marketId,
+        status: resolution.status,
+        resolvedOutcome: resolution.resolvedOutcome,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn({ marketId, error: errorMessage }, 'Failed to sync market resolution');
+      result.failures.push({ marketId, error: errorMessage });
+    }
+  }
+
+  logger.info(
+    {
+      checked: result.checked,
+      resolved: result.resolved.length,
+      pending: result.pending.length,
+      failed: result.failures.length,
+    },
+    'Market resolution sync complete'
+  );
+
+  return result;
+}
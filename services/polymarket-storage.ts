@@ -1,7 +1,8 @@
-import { db, rawEvents, rawMarkets, events, markets } from '../db/index.js';
-import { eq } from 'drizzle-orm';
+import { db, rawEvents, rawMarkets, events, markets, predictions, marketResolutions } from '../db/index.js';
+import { and, eq, isNull } from 'drizzle-orm';
 import { logger } from '../utils/logger.js';
-import { PolymarketEvent, PolymarketMarket } from './polymarket.js';
+import { fetchMarketById, PolymarketEvent, PolymarketMarket } from './polymarket.js';
+import { savePriceSnapshot } from './market-price-history.js';
 
 /**
  * Save raw event JSON to database
@@ -95,6 +96,7 @@ export async function saveEvent(eventData: PolymarketEvent) {
 
 /**
  * Save structured market to database
+ * A market fetched without its event (eventSlug unset) keeps the event it is already linked to.
  */
 export async function saveMarket(marketData: PolymarketMarket) {
   const result = await db
@@ -120,7 +122,7 @@ export async function saveMarket(marketData: PolymarketMarket) {
         slug: marketData.slug,
         question: marketData.question,
         description: marketData.description || null,
-        eventId: marketData.eventSlug || null,
+        ...(marketData.eventSlug && { eventId: marketData.eventSlug }),
         active: marketData.active ?? true,
         closed: marketData.closed ?? false,
         volume: marketData.volume || null,
@@ -146,9 +148,59 @@ export async function ingestEvent(eventData: PolymarketEvent) {
 }
 
 /**
- * Ingest market: fetch from API and save both raw and structured data
+ * Ingest market: fetch from API and save both raw and structured data, plus a price snapshot
  */
 export async function ingestMarket(marketData: PolymarketMarket) {
   await saveRawMarket(marketData);
   await saveMarket(marketData);
+  await savePriceSnapshot(marketData, 'ingest');
+}
+
+/**
+ * Default watch set: open markets that have at least one prediction and no recorded resolution
+ */
+export async function getWatchedMarketIds(): Promise<string[]> {
+  const rows = await db
+    .selectDistinct({ marketId: markets.marketId })
+    .from(markets)
+    .innerJoin(predictions, eq(predictions.marketId, markets.marketId))
+    .leftJoin(marketResolutions, eq(marketResolutions.marketId, markets.marketId))
+    .where(and(eq(markets.closed, false), isNull(marketResolutions.id)));
+
+  return rows.map(row => row.marketId);
+}
+
+export interface IngestPricesResult {
+  captured: number;
+  failures: Array<{ marketId: string; error: string }>;
+}
+
+/**
+ * Fetch current prices for a set of markets and append snapshots
+ * The markets row is upserted first: it keeps active/closed current, so closed markets leave the
+ * watch set, and gives markets not ingested before the row their snapshots reference.
+ */
+export async function ingestMarketPrices(marketIds: string[]): Promise<IngestPricesResult> {
+  logger.info({ count: marketIds.length }, 'Ingesting market prices');
+
+  const result: IngestPricesResult = { captured: 0, failures: [] };
+
+  for (const marketId of marketIds) {
+    try {
+      const market = await fetchMarketById(marketId);
+      await saveRawMarket(market);
+      await saveMarket(market);
+      const snapshot = await savePriceSnapshot(market, 'ingest:prices');
+      if (snapshot) {
+        result.captured++;
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn({ marketId, error: errorMessage }, 'Failed to ingest market prices');
+      result.failures.push({ marketId, error: errorMessage });
+    }
+  }
+
+  logger.info({ captured: result.captured, failed: result.failures.length }, 'Market price ingestion complete');
+  return result;
 }
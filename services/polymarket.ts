@@ -1,7 +1,6 @@
 import { logger } from '../utils/logger.js';
-import { parseOutcomePrices } from '../utils/market-utils.js';
-
-const GAMMA_API_BASE = 'https://gamma-api.polymarket.com';
+import { parseOutcomePrices, parseOutcomes } from '../utils/market-utils.js';
+import { getProviders } from './providers.js';
 
 export interface PolymarketEvent {
   id: string;
@@ -14,6 +13,8 @@ export interface PolymarketEvent {
   closed?: boolean;
   icon?: string;
   image?: string;
+  negRisk?: boolean; // Markets in the event are mutually exclusive (exactly one resolves YES)
+  markets?: PolymarketMarket[]; // Every market in the event
   [key: string]: unknown;
 }
 
@@ -30,7 +31,10 @@ export interface PolymarketMarket {
   liquidity?: string;
   outcomes?: string;
   outcomePrices?: string;
-  clobTokenIds?: string; // JSON array: ["<yes_token_id>", "<no_token_id>"]
+  clobTokenIds?: string; // JSON array aligned with outcomes: ["<yes_token_id>", "<no_token_id>"]
+  endDate?: string;
+  closedTime?: string; // Set once the market has closed
+  umaResolutionStatus?: string; // UMA oracle status, e.g. 'proposed', 'disputed', 'resolved'
   icon?: string;
   image?: string;
   tags?: PolymarketTag[];
@@ -56,16 +60,16 @@ export interface PolymarketTag {
  * Fetch event by slug from Polymarket Gamma API
  */
 export async function fetchEventBySlug(slug: string): Promise<PolymarketEvent> {
-  const url = `${GAMMA_API_BASE}/events?slug=${slug}`;
-  logger.info({ slug, url }, 'Fetching event from Polymarket');
+  const path = `/events?slug=${slug}`;
+  logger.info({ slug, path }, 'Fetching event from Polymarket');
 
-  const response = await fetch(url);
+  const response = await getProviders().gamma.get(path);
 
   if (!response.ok) {
     throw new Error(`Failed to fetch event ${slug}: ${response.status} ${response.statusText}`);
   }
 
-  const data = await response.json();
+  const data = response.data;
 
   // API returns an array, get the first result
   const event = Array.isArray(data) ? data[0] : data;
@@ -83,15 +87,15 @@ export async function fetchEventBySlug(slug: string): Promise<PolymarketEvent> {
  * Fetch market by ID from Polymarket Gamma API
  */
 export async function fetchMarketById(id: string): Promise<PolymarketMarket> {
-  const url = `${GAMMA_API_BASE}/markets/${id}`;
+  const path = `/markets/${id}`;
 
-  const response = await fetch(url);
+  const response = await getProviders().gamma.get(path);
 
   if (!response.ok) {
     throw new Error(`Failed to fetch market ${id}: ${response.status} ${response.statusText}`);
   }
 
-  const market = await response.json();
+  const market = response.data;
 
   if (!market) {
     throw new Error(`Market with ID ${id} not found`);
@@ -104,15 +108,15 @@ export async function fetchMarketById(id: string): Promise<PolymarketMarket> {
  * Fetch market by slug from Polymarket Gamma API
  */
 export async function fetchMarketBySlug(slug: string): Promise<PolymarketMarket> {
-  const url = `${GAMMA_API_BASE}/markets?slug=${slug}`;
+  const path = `/markets?slug=${slug}`;
 
-  const response = await fetch(url);
+  const response = await getProviders().gamma.get(path);
 
   if (!response.ok) {
     throw new Error(`Failed to fetch market ${slug}: ${response.status} ${response.statusText}`);
   }
 
-  const data = await response.json();
+  const data = response.data;
 
   // API returns an array, get the first result
   const market = Array.isArray(data) ? data[0] : data;
@@ -128,16 +132,16 @@ export async function fetchMarketBySlug(slug: string): Promise<PolymarketMarket>
  * Fetch top markets by volume/liquidity
  */
 export async function fetchTopMarkets(limit: number = 10): Promise<PolymarketMarket[]> {
-  const url = `${GAMMA_API_BASE}/markets?limit=${limit}&active=true&closed=false`;
-  logger.info({ limit, url }, 'Fetching top markets from Polymarket');
+  const path = `/markets?limit=${limit}&active=true&closed=false`;
+  logger.info({ limit, path }, 'Fetching top markets from Polymarket');
 
-  const response = await fetch(url);
+  const response = await getProviders().gamma.get(path);
 
   if (!response.ok) {
     throw new Error(`Failed to fetch top markets: ${response.status} ${response.statusText}`);
   }
 
-  const data = await response.json();
+  const data = response.data;
   const markets = Array.isArray(data) ? data : [];
   logger.info({ count: markets.length }, 'Successfully fetched top markets');
 
@@ -147,10 +151,11 @@ export async function fetchTopMarkets(limit: number = 10): Promise<PolymarketMar
 /**
  * Extract the correct token ID for a given outcome from clobTokenIds
  * @param clobTokenIds - JSON array string like '["<yes_token_id>", "<no_token_id>"]'
- * @param outcome - 'YES' or 'NO'
+ * @param outcome - Outcome label (matched against the market's outcomes), or 'YES'/'NO' for index 0/1
+ * @param outcomes - Raw outcomes JSON array string like '["Yes", "No"]' (optional)
  * @returns The token ID for the specified outcome
  */
-export function extractTokenIdForOutcome(clobTokenIds: string | undefined, outcome: 'YES' | 'NO'): string {
+export function extractTokenIdForOutcome(clobTokenIds: string | undefined, outcome: string, outcomes?: string): string {
   if (!clobTokenIds) {
     throw new Error('clobTokenIds is not available for this market');
   }
@@ -158,11 +163,21 @@ export function extractTokenIdForOutcome(clobTokenIds: string | undefined, outco
   try {
     const tokenIds = JSON.parse(clobTokenIds);
     if (!Array.isArray(tokenIds) || tokenIds.length < 2) {
-      throw new Error('Invalid clobTokenIds format - expected array with 2 elements');
+      throw new Error('Invalid clobTokenIds format - expected array with at least 2 elements');
+    }
+
+    // Match by label first, then fall back to the binary convention (Index 0 = YES, Index 1 = NO)
+    const labels = parseOutcomes(outcomes).value ?? [];
+    let index = labels.findIndex(label => label.toLowerCase() === outcome.toLowerCase());
+    if (index === -1 && tokenIds.length === 2) {
+      index = outcome === 'YES' ? 0 : outcome === 'NO' ? 1 : -1;
+    }
+
+    if (index === -1) {
+      throw new Error(`Outcome ${outcome} not found in market outcomes`);
     }
 
-    // Index 0 = YES, Index 1 = NO
-    const tokenId = outcome === 'YES' ? tokenIds[0] : tokenIds[1];
+    const tokenId = tokenIds[index];
 
     if (!tokenId || typeof tokenId !== 'string') {
       throw new Error(`Invalid token ID for outcome ${outcome}`);
@@ -199,16 +214,16 @@ export function getPolymarketMarketUrl(market: PolymarketMarket): string {
  * Fetch all tags from Polymarket Gamma API
  */
 export async function fetchTags(): Promise<PolymarketTag[]> {
-  const url = `${GAMMA_API_BASE}/tags`;
-  logger.info({ url }, 'Fetching tags from Polymarket');
+  const path = '/tags';
+  logger.info({ path }, 'Fetching tags from Polymarket');
 
-  const response = await fetch(url);
+  const response = await getProviders().gamma.get(path);
 
   if (!response.ok) {
     throw new Error(`Failed to fetch tags: ${response.status} ${response.statusText}`);
   }
 
-  const data = await response.json();
+  const data = response.data;
   const tags = Array.isArray(data) ? data : [];
   logger.info({ count: tags.length }, 'Successfully fetched tags');
 
@@ -251,22 +266,22 @@ export async function fetchTrendingMarkets(
   excludedTagIds?: string[]
 ): Promise<PolymarketMarket[]> {
   // Use volume24hr for ordering (API uses this format per docs)
-  let url = `${GAMMA_API_BASE}/markets?order=volume24hr&ascending=false&limit=${limit}&active=true&closed=false`;
+  let path = `/markets?order=volume24hr&ascending=false&limit=${limit}&active=true&closed=false`;
   
   // Add tag exclusion if provided (API supports exclude_tag_id as comma-separated string or array)
   if (excludedTagIds && excludedTagIds.length > 0) {
-    url += `&exclude_tag_id=${excludedTagIds.join(',')}`;
+    path += `&exclude_tag_id=${excludedTagIds.join(',')}`;
   }
   
-  logger.info({ limit, excludedTagIds, url }, 'Fetching trending markets from Polymarket');
+  logger.info({ limit, excludedTagIds, path }, 'Fetching trending markets from Polymarket');
 
-  const response = await fetch(url);
+  const response = await getProviders().gamma.get(path);
 
   if (!response.ok) {
     throw new Error(`Failed to fetch trending markets: ${response.status} ${response.statusText}`);
   }
 
-  const data = await response.json();
+  const data = response.data;
   const markets = Array.isArray(data) ? data : [];
   logger.info({ count: markets.length }, 'Successfully fetched trending markets');
 
@@ -275,7 +290,7 @@ export async function fetchTrendingMarkets(
 
 /**
  * Check if market has outcome price spread within the specified threshold (as decimal, e.g., 0.5 for 50%)
- * For yes/no markets: spread = |YES price - NO price|
+ * Spread = highest outcome price - lowest outcome price (for yes/no markets: |YES price - NO price|)
  */
 export function hasSpreadWithinThreshold(market: PolymarketMarket, maxSpread: number = 0.5): boolean {
   if (!market.outcomePrices) {
@@ -287,8 +302,7 @@ export function hasSpreadWithinThreshold(market: PolymarketMarket, maxSpread: nu
     return false;
   }
 
-  const [yesPrice, noPrice] = parseResult.value;
-  const spread = Math.abs(yesPrice - noPrice);
+  const spread = Math.max(...parseResult.value) - Math.min(...parseResult.value);
 
   return spread <= maxSpread;
 }
@@ -309,7 +323,7 @@ export function hasExcludedTags(market: PolymarketMarket, excludedTagIds: string
  * Fetch and filter trending markets based on criteria:
  * - Trending by 24-hour volume
  * - Exclude markets with specified tags
- * - Only include markets with yes/no outcome price spreads within threshold (default: 25%)
+ * - Only include markets with outcome price spreads within threshold (default: 25%)
  *
  * @param options - Filtering options
  * @returns Array of filtered market IDs and slugs
@@ -1,14 +1,13 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import { logger } from '../utils/logger.js';
 import { PolymarketMarket, PolymarketEvent, getPolymarketMarketUrl, getPolymarketEventUrl } from './polymarket.js';
 import { ExperimentRunResult } from './experiment-runner.js';
 import { getPredictionById } from './prediction-storage.js';
+import { normalizePrediction } from './prediction-record.js';
 import { getExperimentMetadata } from '../experiments/config.js';
+import type { DebateOutput } from '../experiments/exp006/schemas.js';
 import { db, rawMarkets, rawEvents, markets, events } from '../db/index.js';
 import { eq } from 'drizzle-orm';
-
-const execAsync = promisify(exec);
+import { getProviders } from './providers.js';
 
 /**
  * Get market and event data from database by market ID
@@ -84,16 +83,49 @@ export interface PredictionPublishOptions {
   result: ExperimentRunResult;
 }
 
+/**
+ * Format the critique stage (prediction.debate): initial prediction, critique and outcome of adjudication
+ */
+function formatDebateMarkdown(debate: DebateOutput, finalProbability: string): string {
+  const formatList = (items: string[] | undefined) =>
+    items && items.length > 0 ? items.map(item => `- ${item}`).join('\n') : 'None identified';
+
+  const critique = debate.critique
+    ? `#### Opposing Case
+${debate.critique.opposingCase}
+
+#### Overlooked Evidence
+${formatList(debate.critique.overlookedEvidence)}
+
+#### Reasoning Flaws
+${formatList(debate.critique.reasoningFlaws)}`
+    : `Critique failed: ${debate.error || 'unknown error'}`;
+
+  return `
+### Critique and Adjudication
+
+- Initial AI Prediction: ${debate.initial.probability}% (${debate.initial.outcome})
+- Final AI Prediction: ${debate.revised ? finalProbability : `${finalProbability} (critique stage failed, initial prediction kept)`}
+- Critic Model: ${debate.criticModel}
+- Adjudicator Model: ${debate.adjudicatorModel}
+
+#### Initial Reasoning
+${debate.initial.outcomeReasoning || 'N/A'}
+
+${critique}
+`;
+}
+
 /**
  * Format the prediction result as markdown
  */
 function formatPredictionMarkdown(options: PredictionPublishOptions): string {
   const { predictionId, experimentId, experimentName, market, event, result } = options;
 
-  // Extract prediction data
-  const predictionObj = result.data?.prediction || {};
-  const keyFactors = predictionObj.keyFactors || [];
-  const dataQuality = predictionObj.dataQuality;
+  // Extract canonical prediction data
+  const predictionObj = normalizePrediction(result.data?.prediction).value;
+  const keyFactors = predictionObj?.keyFactors || [];
+  const dataQuality = predictionObj?.dataQuality ?? undefined;
   const predictionDelta = result.data?.predictionDelta;
   const model = result.data?.model;
   const rawRequest = result.data?.rawRequest;
@@ -116,17 +148,49 @@ function formatPredictionMarkdown(options: PredictionPublishOptions): string {
   }
 
   // Get AI prediction probability
-  const aiProbability = predictionObj.probability !== undefined
+  const aiProbability = predictionObj
     ? `${predictionObj.probability}%`
     : 'N/A';
 
+  // Price mode: blind forecasts were made without market prices in the prompt
+  const priceMode: string | undefined = result.data?.prediction?.priceMode;
+  const blindProbability: number | undefined = result.data?.prediction?.blind?.probability;
+  const priceModeLines = [
+    priceMode === 'blind' ? '- Price Mode: blind (market prices withheld from the model)' : '',
+    blindProbability !== undefined ? `- Blind AI Prediction (market prices withheld): ${blindProbability}%` : '',
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  // Critique stage, when the prediction was challenged and adjudicated
+  const debate = result.data?.prediction?.debate;
+  const debateSection = debate ? formatDebateMarkdown(debate, aiProbability) : '';
+
   // Format delta without sign
   const deltaFormatted = predictionDelta !== undefined
     ? `${Math.abs(predictionDelta * 100).toFixed(2)}%`
     : 'N/A';
 
+  // Per-outcome table for categorical predictions (market prices from the deltas computed at prediction time)
+  const outcomeDeltas: Array<{ outcome: string; marketPrice: number | null }> = result.data?.outcomeDeltas ?? [];
+  const outcomeTable = predictionObj?.outcomeProbabilities
+    ? `
+### Outcome Probabilities
+
+| Outcome | AI Prediction | Market |
+|---|---|---|
+${predictionObj.outcomeProbabilities
+  .map(entry => {
+    const marketPrice = outcomeDeltas.find(delta => delta.outcome === entry.outcome)?.marketPrice;
+    const marketFormatted = marketPrice !== undefined && marketPrice !== null ? `${(marketPrice * 100).toFixed(2)}%` : 'N/A';
+    return `| ${entry.outcome} | ${entry.probability.toFixed(1)}% | ${marketFormatted} |`;
+  })
+  .join('\n')}
+`
+    : '';
+
   // Get confidence
-  const confidence = predictionObj.confidence !== undefined
+  const confidence = predictionObj
     ? `${predictionObj.confidence}%`
     : 'N/A';
 
@@ -150,21 +214,21 @@ function formatPredictionMarkdown(options: PredictionPublishOptions): string {
 ## AI Prediction Overview
 
 - Market Prediction: ${marketYesProbability}
-- AI Prediction: ${aiProbability}
+- AI Prediction: ${aiProbability}${priceModeLines ? `\n${priceModeLines}` : ''}
 - Confidence: ${confidence}
 - AI Prediction Delta: ${deltaFormatted}
-
+${outcomeTable}
 ### Key Factors
 ${keyFactors.length > 0 ? keyFactors.map((f: string) => `- ${f}`).join('\n') : 'N/A'}
 
 ### Outcome Reasoning
-${predictionObj.outcomeReasoning || predictionObj.reasoning || 'N/A'}
+${predictionObj?.outcomeReasoning || 'N/A'}
 
 ### Confidence Reasoning
-${predictionObj.confidenceReasoning || 'N/A'}
+${predictionObj?.confidenceReasoning || 'N/A'}
 
 Data Quality: ${dataQuality !== undefined ? dataQuality : 'N/A'}
-
+${debateSection}
 
 ---
 
@@ -293,14 +357,11 @@ export async function publishPrediction(options: PredictionPublishOptions): Prom
     const content = Buffer.from(markdown).toString('base64');
 
     // Check if file already exists to get SHA (for updates)
-    let sha: string | undefined;
-    try {
-      const { stdout: existingFile } = await execAsync(
-        `gh api repos/${repo}/contents/${filePath} --jq '.sha'`
-      );
-      sha = existingFile.trim();
+    const github = getProviders().github;
+    const sha = await github.getFileSha(repo, filePath);
+    if (sha) {
       logger.info({ filePath, sha }, 'File exists, will update');
-    } catch {
+    } else {
       logger.info({ filePath }, 'File does not exist, will create new');
     }
 
@@ -312,13 +373,8 @@ export async function publishPrediction(options: PredictionPublishOptions): Prom
       ...(sha && { sha }), // Include SHA if updating existing file
     };
 
-    const payloadJson = JSON.stringify(apiPayload);
-    const { stdout } = await execAsync(
-      `echo '${payloadJson.replace(/'/g, "'\\''")}' | gh api repos/${repo}/contents/${filePath} -X PUT --input -`
-    );
-
-    const response = JSON.parse(stdout);
-    const fileUrl = response.content?.html_url || `https://github.com/${repo}/blob/${branch}/${filePath}`;
+    const response = await github.putFile(repo, filePath, apiPayload);
+    const fileUrl = response.htmlUrl || `https://github.com/${repo}/blob/${branch}/${filePath}`;
 
     logger.info({ predictionId, fileUrl }, 'Successfully published prediction to repository');
 
@@ -337,13 +393,11 @@ export async function publishPrediction(options: PredictionPublishOptions): Prom
  * Check if gh CLI is available
  */
 export async function checkGhCliAvailable(): Promise<boolean> {
-  try {
-    await execAsync('gh --version');
-    return true;
-  } catch (error) {
+  const available = await getProviders().github.isAvailable();
+  if (!available) {
     logger.warn('gh CLI not available');
-    return false;
   }
+  return available;
 }
 
 /**
@@ -0,0 +1,207 @@
+import { z } from 'zod';
+import type { ParseResult } from '../utils/market-utils.js';
+import type { Prediction } from '../db/schema.js';
+
+/**
+ * Canonical Prediction Record
+ * Normalizes every known `predictions.prediction` JSONB shape into one typed record,
+ * so consumers (trade generator, publisher, scoring) never read the raw JSONB directly.
+ */
+
+export type PredictionOutcome = 'YES' | 'NO' | 'UNCERTAIN';
+
+export interface OutcomeProbability {
+  outcome: string; // Market outcome label
+  probability: number; // 0-100
+  marketPrice?: number | null; // 0-1, market price of this outcome at prediction time
+}
+
+export interface CanonicalPrediction {
+  outcome: PredictionOutcome | string; // Outcome label for categorical markets
+  probability: number; // 0-100, probability of the YES (first) outcome, as predicted
+  normalizedProbability?: number | null; // 0-100, YES probability rescaled across a negRisk event (event-wide runs only)
+  outcomeProbabilities: OutcomeProbability[] | null; // Named distribution, null for binary predictions
+  confidence: number; // 0-100
+  dataQuality: number | null; // 0-100, null when the shape has no quality signal
+  outcomeReasoning?: string;
+  confidenceReasoning?: string;
+  keyFactors: string[];
+  shape: string; // Adapter that produced this record (e.g. 'legacy-nested-v1')
+}
+
+/**
+ * Adapter that recognizes one JSONB shape and converts it to the canonical record
+ */
+interface PredictionShapeAdapter {
+  shape: string;
+  schema: z.ZodTypeAny;
+  normalize(data: any): Omit<CanonicalPrediction, 'shape'>;
+}
+
+const OutcomeSchema = z.enum(['YES', 'NO', 'UNCERTAIN']);
+const PercentSchema = z.number().min(0).max(100);
+const OutcomeProbabilitySchema = z.object({
+  outcome: z.string().min(1),
+  probability: PercentSchema,
+  marketPrice: z.number().nullable().optional(),
+});
+
+// Legacy enum data quality is mapped onto the 0-100 scale used by exp006
+const LEGACY_DATA_QUALITY: Record<'HIGH' | 'MEDIUM' | 'LOW', number> = {
+  HIGH: 90,
+  MEDIUM: 60,
+  LOW: 30,
+};
+
+/**
+ * Registered shape adapters, tried in order
+ * To support a new JSONB shape, append an adapter with a new shape version.
+ */
+const adapters: PredictionShapeAdapter[] = [
+  // services/prediction.ts PredictionOutputSchema: { prediction: { outcome, probability, ... }, dataQuality: 'HIGH' }
+  {
+    shape: 'legacy-nested-v1',
+    schema: z.object({
+      prediction: z.object({
+        outcome: OutcomeSchema,
+        probability: PercentSchema,
+        confidence: PercentSchema,
+        reasoning: z.string().optional(),
+      }),
+      keyFactors: z.array(z.string()).optional(),
+      dataQuality: z.union([z.enum(['HIGH', 'MEDIUM', 'LOW']), PercentSchema]).optional(),
+    }),
+    normalize: (data) => ({
+      outcome: data.prediction.outcome,
+      probability: data.prediction.probability,
+      confidence: data.prediction.confidence,
+      dataQuality:
+        typeof data.dataQuality === 'string'
+          ? LEGACY_DATA_QUALITY[data.dataQuality as keyof typeof LEGACY_DATA_QUALITY]
+          : data.dataQuality ?? null,
+      outcomeProbabilities: null,
+      outcomeReasoning: data.prediction.reasoning,
+      keyFactors: data.keyFactors ?? [],
+    }),
+  },
+  // exp006 categorical markets: { outcome: '<label>', outcomeProbabilities: [{ outcome, probability }], ... }
+  {
+    shape: 'categorical-v1',
+    schema: z.object({
+      outcome: z.string().min(1),
+      outcomeProbabilities: z.array(OutcomeProbabilitySchema).min(2),
+      probability: PercentSchema.optional(),
+      confidence: PercentSchema,
+      outcomeReasoning: z.string().optional(),
+      confidenceReasoning: z.string().optional(),
+      keyFactors: z.array(z.string()).optional(),
+      dataQuality: PercentSchema.optional(),
+    }),
+    normalize: (data) => ({
+      outcome: data.outcome,
+      probability: data.probability ?? data.outcomeProbabilities[0].probability,
+      outcomeProbabilities: data.outcomeProbabilities,
+      confidence: data.confidence,
+      dataQuality: data.dataQuality ?? null,
+      outcomeReasoning: data.outcomeReasoning,
+      confidenceReasoning: data.confidenceReasoning,
+      keyFactors: data.keyFactors ?? [],
+    }),
+  },
+  // exp006 run(): { marketId, question, outcome, probability, confidence, dataQuality: 0-100, ... }
+  {
+    shape: 'exp006-flat-v1',
+    schema: z.object({
+      outcome: OutcomeSchema,
+      probability: PercentSchema,
+      confidence: PercentSchema,
+      outcomeReasoning: z.string().optional(),
+      confidenceReasoning: z.string().optional(),
+      keyFactors: z.array(z.string()).optional(),
+      dataQuality: PercentSchema.optional(),
+    }),
+    normalize: (data) => ({
+      outcome: data.outcome,
+      probability: data.probability,
+      outcomeProbabilities: null,
+      confidence: data.confidence,
+      dataQuality: data.dataQuality ?? null,
+      outcomeReasoning: data.outcomeReasoning,
+      confidenceReasoning: data.confidenceReasoning,
+      keyFactors: data.keyFactors ?? [],
+    }),
+  },
+];
+
+/**
+ * Normalize a raw prediction JSONB payload into the canonical record
+ *
+ * @param data - Raw `predictions.prediction` value (any known shape)
+ * @returns ParseResult with the canonical record or error
+ */
+export function normalizePrediction(data: unknown): ParseResult<CanonicalPrediction> {
+  if (!data || typeof data !== 'object') {
+    return {
+      success: false,
+      error: 'Prediction data is empty or not an object',
+    };
+  }
+
+  for (const adapter of adapters) {
+    const parsed = adapter.schema.safeParse(data);
+    if (parsed.success) {
+      return {
+        success: true,
+        value: { ...adapter.normalize(parsed.data), shape: adapter.shape },
+      };
+    }
+  }
+
+  return {
+    success: false,
+    error: `Unrecognized prediction shape (tried: ${adapters.map(a => a.shape).join(', ')})`,
+  };
+}
+
+/**
+ * Get the canonical record for a stored prediction row
+ * Prefers the typed columns and falls back to normalizing the JSONB payload
+ * (for rows written before the columns existed and not yet backfilled).
+ * The event-normalized probability of an event-wide run is returned separately, for callers that
+ * want the coherent value; probability and outcome are always the model's own.
+ */
+export function getCanonicalPrediction(row: Prediction): ParseResult<CanonicalPrediction> {
+  const normalized = normalizePrediction(row.prediction);
+
+  if (row.outcome && row.probability !== null && row.confidence !== null) {
+    return {
+      success: true,
+      value: {
+        keyFactors: [],
+        ...normalized.value,
+        outcome: row.outcome,
+        probability: row.probability,
+        normalizedProbability: row.eventNormalizedProbability,
+        outcomeProbabilities: (row.outcomeProbabilities as OutcomeProbability[] | null) ?? normalized.value?.outcomeProbabilities ?? null,
+        confidence: row.confidence,
+        dataQuality: row.dataQuality,
+        shape: normalized.value?.shape ?? 'columns',
+      },
+    };
+  }
+
+  return normalized;
+}
+
+/**
+ * Map a canonical record to the typed `predictions` columns
+ */
+export function toPredictionColumns(canonical: CanonicalPrediction) {
+  return {
+    outcome: canonical.outcome,
+    probability: canonical.probability,
+    outcomeProbabilities: canonical.outcomeProbabilities,
+    confidence: canonical.confidence,
+    dataQuality: canonical.dataQuality,
+  };
+}
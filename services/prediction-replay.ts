@@ -0,0 +1,151 @@
+import { logger } from '../utils/logger.js';
+import { calculateOutcomeDeltas, type MarketOutcome } from '../utils/market-utils.js';
+import { summarizeCosts } from '../utils/cost.js';
+import { getPredictionById, savePrediction } from './prediction-storage.js';
+import type { OutcomeProbability } from './prediction-record.js';
+import type { PromptTemplateRef } from './prompt-templates.js';
+import type { PolymarketMarket } from './polymarket.js';
+import { generatePrediction } from '../experiments/exp006/generate-prediction.js';
+
+/**
+ * Prediction Replay Service
+ * Re-sends a stored prediction's prompts to another model, reusing its research context,
+ * and saves the result linked to the original (replay_of_prediction_id).
+ */
+
+const DEFAULT_TEMPERATURE = 0.7;
+
+export interface ReplayPredictionOptions {
+  predictionId: string;
+  model: string;
+}
+
+export interface ReplayPredictionResult {
+  success: boolean;
+  predictionId?: string; // New prediction
+  originalPredictionId: string;
+  model: string;
+  probability?: number;
+  originalProbability?: number | null;
+  predictionDelta?: number;
+  costUsd?: number;
+  error?: string;
+}
+
+/**
+ * Extract the system and user prompts from a stored rawRequest
+ */
+function getStoredPrompts(rawRequest: any): { systemPrompt: string; contextPrompt: string } | null {
+  const messages: Array<{ role: string; content: string }> | undefined = rawRequest?.messages;
+  const systemPrompt = messages?.find(message => message.role === 'system')?.content;
+  const contextPrompt = messages?.find(message => message.role === 'user')?.content;
+  return systemPrompt && contextPrompt ? { systemPrompt, contextPrompt } : null;
+}
+
+/**
+ * Replay a stored prediction request against a different model
+ * Deltas are measured against the market prices stored with the original prediction.
+ */
+export async function replayPrediction(options: ReplayPredictionOptions): Promise<ReplayPredictionResult> {
+  const { predictionId, model } = options;
+  const { prediction: original } = await getPredictionById(predictionId);
+
+  const prompts = getStoredPrompts(original.rawRequest);
+  if (!prompts || !original.marketId) {
+    return {
+      success: false,
+      originalPredictionId: predictionId,
+      model,
+      error: `Prediction ${predictionId} has no stored system/user messages to replay`,
+    };
+  }
+
+  const originalOutcomes = (original.outcomeProbabilities as OutcomeProbability[] | null) ?? undefined;
+  const rawRequest = original.rawRequest as any;
+  const temperature = typeof rawRequest.temperature === 'number' ? rawRequest.temperature : DEFAULT_TEMPERATURE;
+
+  logger.info({ predictionId, model, experimentId: original.experimentId }, 'Replaying prediction');
+
+  const result = await generatePrediction({
+    marketId: original.marketId,
+    ...prompts,
+    model,
+    temperature,
+    outcomeLabels: originalOutcomes?.map(entry => entry.outcome),
+  });
+
+  if (!result.success || !result.prediction) {
+    return { success: false, originalPredictionId: predictionId, model, error: result.error };
+  }
+
+  const predictionData = result.prediction;
+  let outcomeProbabilities: OutcomeProbability[] | undefined;
+  let predictionDelta: number | undefined;
+
+  if (originalOutcomes && predictionData.outcomeProbabilities) {
+    const marketOutcomes: MarketOutcome[] = originalOutcomes
+      .filter(entry => entry.marketPrice !== null && entry.marketPrice !== undefined)
+      .map(entry => ({ label: entry.outcome, price: entry.marketPrice! }));
+    const deltas = calculateOutcomeDeltas(marketOutcomes, predictionData.outcomeProbabilities);
+
+    outcomeProbabilities = deltas.map(({ outcome, probability, marketPrice }) => ({ outcome, probability, marketPrice }));
+    if (deltas.some(delta => delta.delta !== null)) {
+      predictionDelta = Math.max(...deltas.map(delta => Math.abs(delta.delta ?? 0)));
+    }
+  } else if (original.marketProbability !== null) {
+    predictionDelta = Math.abs(original.marketProbability - predictionData.probability / 100);
+  }
+
+  const cost = summarizeCosts([
+    {
+      stage: 'prediction',
+      model,
+      promptTokens: result.usage?.promptTokens,
+      completionTokens: result.usage?.completionTokens,
+      costUsd: result.costUsd ?? null,
+    },
+  ]);
+
+  const saved = await savePrediction({
+    marketId: original.marketId,
+    experimentId: original.experimentId,
+    prediction: {
+      marketId: original.marketId,
+      question: (original.prediction as any)?.question,
+      ...predictionData,
+      replayOf: predictionId,
+    },
+    rawRequest: { ...rawRequest, model, temperature, replayOf: predictionId },
+    rawResponse: result.rawResponse,
+    promptTemplates: (original.promptTemplates as PromptTemplateRef[] | null) ?? undefined,
+    model,
+    predictionDelta,
+    marketProbability: original.marketProbability ?? undefined,
+    outcomeProbabilities,
+    promptTokens: result.usage?.promptTokens,
+    completionTokens: result.usage?.completionTokens,
+    reasoningTokens: result.usage?.reasoningTokens,
+    costUsd: cost.totalUsd,
+    costBreakdown: cost,
+    researchContext: original.researchContext ?? undefined,
+    marketSnapshot: (original.marketSnapshot as PolymarketMarket | null) ?? undefined,
+    researchAsOf: original.researchAsOf ?? undefined,
+    replayOfPredictionId: predictionId,
+  });
+
+  logger.info(
+    { predictionId: saved.prediction.id, replayOf: predictionId, model, probability: predictionData.probability },
+    'Replayed prediction saved'
+  );
+
+  return {
+    success: true,
+    predictionId: saved.prediction.id,
+    originalPredictionId: predictionId,
+    model,
+    probability: predictionData.probability,
+    originalProbability: original.probability,
+    predictionDelta,
+    costUsd: cost.totalUsd,
+  };
+}
@@ -1,6 +1,14 @@
 import { db, predictionJobs, predictions, markets, rawMarkets } from '../db/index.js';
-import { eq } from 'drizzle-orm';
+import { and, desc, eq, isNotNull, isNull, sql } from 'drizzle-orm';
 import { logger } from '../utils/logger.js';
+import { normalizePrediction, toPredictionColumns, type OutcomeProbability } from './prediction-record.js';
+import type { CostBreakdown } from '../utils/cost.js';
+import type { LlmUsage } from './llm-client.js';
+import type { PromptTemplateRef } from './prompt-templates.js';
+import type { ResearchTrace } from './research-agent.js';
+import type { ResearchPlan } from './research-planner.js';
+import { linkPredictionSources } from './research-store.js';
+import type { PolymarketMarket } from './polymarket.js';
 
 export interface PredictionData {
   marketId: string;
@@ -8,11 +16,26 @@ export interface PredictionData {
   prediction: any;
   rawRequest?: any;
   rawResponse?: any;
+  promptTemplates?: PromptTemplateRef[];
   model?: string;
   promptTokens?: number;
   completionTokens?: number;
+  reasoningTokens?: number;
+  costUsd?: number;
+  costBreakdown?: CostBreakdown;
   predictionDelta?: number;
+  marketProbability?: number;
+  outcomeProbabilities?: OutcomeProbability[]; // Categorical markets, with market prices at prediction time
   researchContext?: string;
+  researchTrace?: ResearchTrace; // Research agent runs only
+  researchPlan?: ResearchPlan; // Planned research runs only
+  researchSourceIds?: number[]; // Stored research sources in the prompt, in context order
+  marketSnapshot?: PolymarketMarket; // Market the prompt was built from, for --replay
+  researchAsOf?: Date; // Run time the research was gathered as of, for --replay
+  replayOfPredictionId?: string; // Set by replay:prediction
+  priceMode?: string; // anchored, blind or both
+  anchoredProbability?: number; // 0-100
+  blindProbability?: number; // 0-100
 }
 
 /**
@@ -33,6 +56,15 @@ export async function savePrediction(data: PredictionData) {
 
     logger.info({ jobId: job[0].id, marketId: data.marketId }, 'Created prediction job');
 
+    // Normalize prediction payload into the canonical columns
+    const canonical = normalizePrediction(data.prediction);
+    if (!canonical.success) {
+      logger.warn(
+        { marketId: data.marketId, error: canonical.error },
+        'Could not normalize prediction payload - canonical columns left empty'
+      );
+    }
+
     // Save prediction
     const prediction = await db
       .insert(predictions)
@@ -41,16 +73,33 @@ export async function savePrediction(data: PredictionData) {
         marketId: data.marketId,
         experimentId: data.experimentId,
         prediction: data.prediction,
+        ...(canonical.value ? toPredictionColumns(canonical.value) : {}),
+        ...(data.outcomeProbabilities ? { outcomeProbabilities: data.outcomeProbabilities } : {}),
         rawRequest: data.rawRequest,
         rawResponse: data.rawResponse,
+        promptTemplates: data.promptTemplates,
         model: data.model,
         promptTokens: data.promptTokens,
         completionTokens: data.completionTokens,
+        reasoningTokens: data.reasoningTokens,
+        costUsd: data.costUsd,
+        costBreakdown: data.costBreakdown,
         predictionDelta: data.predictionDelta,
+        marketProbability: data.marketProbability,
         researchContext: data.researchContext,
+        researchTrace: data.researchTrace,
+        researchPlan: data.researchPlan,
+        marketSnapshot: data.marketSnapshot,
+        researchAsOf: data.researchAsOf,
+        replayOfPredictionId: data.replayOfPredictionId,
+        priceMode: data.priceMode,
+        anchoredProbability: data.anchoredProbability,
+        blindProbability: data.blindProbability,
       })
       .returning();
 
+    await linkPredictionSources(prediction[0].id, data.researchSourceIds ?? []);
+
     logger.info(
       { predictionId: prediction[0].id, jobId: job[0].id, marketId: data.marketId },
       'Saved prediction to database'
@@ -69,10 +118,16 @@ export async function savePrediction(data: PredictionData) {
   }
 }
 
+export interface FailedPredictionData {
+  rawResponse?: any; // Model attempts made before the failure
+  usage?: LlmUsage;
+  costBreakdown?: CostBreakdown; // Research and LLM calls paid for before the failure
+}
+
 /**
- * Create a failed prediction job
+ * Create a failed prediction job, keeping the attempts and cost of the failed run
  */
-export async function saveFailedPrediction(marketId: string, error: string) {
+export async function saveFailedPrediction(marketId: string, error: string, failure: FailedPredictionData = {}) {
   try {
     const job = await db
       .insert(predictionJobs)
@@ -82,10 +137,19 @@ export async function saveFailedPrediction(marketId: string, error: string) {
         startedAt: new Date(),
         completedAt: new Date(),
         error,
+        rawResponse: failure.rawResponse,
+        promptTokens: failure.usage?.promptTokens,
+        completionTokens: failure.usage?.completionTokens,
+        reasoningTokens: failure.usage?.reasoningTokens,
+        costUsd: failure.costBreakdown?.totalUsd,
+        costBreakdown: failure.costBreakdown,
       })
       .returning();
 
-    logger.info({ jobId: job[0].id, marketId, error }, 'Created failed prediction job');
+    logger.info(
+      { jobId: job[0].id, marketId, error, costUsd: failure.costBreakdown?.totalUsd },
+      'Created failed prediction job'
+    );
 
     return job[0];
   } catch (err) {
@@ -144,3 +208,92 @@ export async function getPredictionById(predictionId: string) {
     throw error;
   }
 }
+
+/**
+ * List predictions made with a given prompt template version, newest first
+ */
+export async function listPredictionsByTemplate(templateId: string, version: string) {
+  const match = JSON.stringify([{ id: templateId, version }]);
+
+  return db
+    .select({
+      id: predictions.id,
+      marketId: predictions.marketId,
+      experimentId: predictions.experimentId,
+      model: predictions.model,
+      probability: predictions.probability,
+      promptTemplates: predictions.promptTemplates,
+      createdAt: predictions.createdAt,
+    })
+    .from(predictions)
+    .where(sql`${predictions.promptTemplates} @> ${match}::jsonb`)
+    .orderBy(desc(predictions.createdAt));
+}
+
+/**
+ * Market snapshot saved with the latest run of an experiment on a market (by slug), and the time
+ * its research was gathered as of (the prediction's creation time for runs that did not store it)
+ * Replay rebuilds prompts from this rather than raw_markets, which price ingestion overwrites.
+ */
+export async function getMarketSnapshot(
+  marketSlug: string,
+  experimentId: string
+): Promise<{ market: PolymarketMarket; asOf: Date }> {
+  const rows = await db
+    .select({
+      marketSnapshot: predictions.marketSnapshot,
+      researchAsOf: predictions.researchAsOf,
+      createdAt: predictions.createdAt,
+    })
+    .from(predictions)
+    .innerJoin(markets, eq(predictions.marketId, markets.marketId))
+    .where(
+      and(eq(markets.slug, marketSlug), eq(predictions.experimentId, experimentId), isNotNull(predictions.marketSnapshot))
+    )
+    .orderBy(desc(predictions.createdAt))
+    .limit(1);
+
+  if (rows.length === 0) {
+    throw new Error(`No market snapshot saved for ${marketSlug} in experiment ${experimentId} - run it without --replay first`);
+  }
+  return { market: rows[0].marketSnapshot as PolymarketMarket, asOf: rows[0].researchAsOf ?? rows[0].createdAt };
+}
+
+/**
+ * Backfill canonical columns (outcome, probability, confidence, data_quality)
+ * for predictions saved before the columns existed
+ */
+export async function backfillPredictionColumns(options: { all?: boolean } = {}) {
+  const rows = await db
+    .select({ id: predictions.id, prediction: predictions.prediction })
+    .from(predictions)
+    .where(options.all ? undefined : isNull(predictions.outcome));
+
+  logger.info({ count: rows.length, all: !!options.all }, 'Backfilling canonical prediction columns');
+
+  let updated = 0;
+  const failures: Array<{ predictionId: string; error: string }> = [];
+
+  for (const row of rows) {
+    const canonical = normalizePrediction(row.prediction);
+
+    if (!canonical.success || !canonical.value) {
+      failures.push({ predictionId: row.id, error: canonical.error || 'Unknown error' });
+      continue;
+    }
+
+    await db
+      .update(predictions)
+      .set(toPredictionColumns(canonical.value))
+      .where(eq(predictions.id, row.id));
+    updated++;
+  }
+
+  logger.info({ scanned: rows.length, updated, failed: failures.length }, 'Backfill complete');
+
+  return {
+    scanned: rows.length,
+    updated,
+    failures,
+  };
+}
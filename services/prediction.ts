@@ -1,13 +1,15 @@
-import { ChatOpenAI } from '@langchain/openai';
 import { z } from 'zod';
 import { logger } from '../utils/logger.js';
 import { db } from '../db/index.js';
 import { predictionJobs, predictions, markets } from '../db/schema.js';
 import type { PolymarketMarket } from './polymarket.js';
 import { eq } from 'drizzle-orm';
-import { env } from '../config/env.js';
+import { normalizePrediction, toPredictionColumns } from './prediction-record.js';
+import { getLlmClient } from './llm-client.js';
+import { renderPrompt } from './prompt-templates.js';
+import { summarizeCosts } from '../utils/cost.js';
 
-const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+const PREDICTION_MODEL = 'anthropic/claude-3.5-sonnet'; // Using Claude 3.5 Sonnet via OpenRouter
 
 // Prediction output schema
 export const PredictionOutputSchema = z.object({
@@ -27,60 +29,30 @@ export const PredictionOutputSchema = z.object({
 export type PredictionOutput = z.infer<typeof PredictionOutputSchema>;
 
 /**
- * Build the system prompt for market prediction
+ * Build the system and context prompts from market data
  */
-function buildSystemPrompt(): string {
-  return `You are an expert prediction analyst for Polymarket markets. Your role is to analyze market questions and provide structured, data-driven predictions.
-
-Guidelines:
-- Analyze the question carefully and consider all available information
-- Provide a clear outcome prediction: YES, NO, or UNCERTAIN
-- Assign a confidence level (0-100) based on the strength of available evidence
-- Estimate a probability (0-100) for the YES outcome
-- Provide detailed reasoning for your prediction
-- Identify key factors that influence the outcome
-- Assess the quality of available data
-
-Be objective, balanced, and transparent about uncertainty. Focus on verifiable information over speculation.`;
+function buildPrompts(market: PolymarketMarket) {
+  const system = renderPrompt('prediction-system');
+  const context = renderPrompt('prediction-context', {
+    marketId: market.id,
+    question: market.question,
+    description: market.description || 'No description available',
+    conditionId: market.conditionId,
+    active: market.active ? 'Yes' : 'No',
+    closed: market.closed ? 'Yes' : 'No',
+    volume: market.volume || 'N/A',
+    liquidity: market.liquidity || 'N/A',
+  });
+
+  return {
+    systemPrompt: system.text,
+    contextPrompt: context.text,
+    templates: [...system.templates, ...context.templates],
+  };
 }
 
 /**
- * Build the context prompt from market data
- */
-function buildContextPrompt(market: PolymarketMarket): string {
-  const marketInfo = `
-Market Question: ${market.question}
-
-Description: ${market.description || 'No description available'}
-
-Market Details:
-- Market ID: ${market.id}
-- Condition ID: ${market.conditionId}
-- Active: ${market.active ? 'Yes' : 'No'}
-- Closed: ${market.closed ? 'Yes' : 'No'}
-- Current Volume: ${market.volume || 'N/A'}
-- Current Liquidity: ${market.liquidity || 'N/A'}
-
-Please analyze this market and provide a structured prediction following this JSON format:
-{
-  "marketId": "${market.id}",
-  "question": "${market.question}",
-  "prediction": {
-    "outcome": "YES" | "NO" | "UNCERTAIN",
-    "confidence": <number 0-100>,
-    "probability": <number 0-100>,
-    "reasoning": "<detailed explanation>"
-  },
-  "keyFactors": ["<factor 1>", "<factor 2>", ...],
-  "dataQuality": "HIGH" | "MEDIUM" | "LOW",
-  "lastUpdated": "<ISO timestamp>"
-}`;
-
-  return marketInfo;
-}
-
-/**
- * Run prediction for a market using LangChain + OpenRouter
+ * Run prediction for a market using the shared LLM client (OpenRouter)
  */
 export async function runPrediction(
   marketId: string,
@@ -124,31 +96,20 @@ export async function runPrediction(
 
     contextLogger.info({ question: market.question }, 'Fetched market data');
 
-    // Initialize OpenRouter via LangChain
-    const model = new ChatOpenAI({
-      model: 'anthropic/claude-3.5-sonnet', // Using Claude 3.5 Sonnet via OpenRouter
-      temperature: 0.7,
-      apiKey: env.OPENROUTER_API_KEY,
-      configuration: {
-        baseURL: OPENROUTER_BASE_URL,
-        defaultHeaders: {
-          'HTTP-Referer': 'https://github.com/betteraiengine',
-          'X-Title': 'BetterAI Engine',
-        },
-      },
-    });
-
     // Build prompts
-    const systemPrompt = buildSystemPrompt();
-    const contextPrompt = buildContextPrompt(market as unknown as PolymarketMarket);
+    const { systemPrompt, contextPrompt, templates } = buildPrompts(market as unknown as PolymarketMarket);
 
     contextLogger.info('Sending request to LLM');
 
     // Invoke the model
-    const response = await model.invoke([
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: contextPrompt },
-    ]);
+    const response = await getLlmClient().complete({
+      model: PREDICTION_MODEL,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: contextPrompt },
+      ],
+      temperature: 0.7,
+    });
 
     const rawResponse = response.content;
     contextLogger.info({ rawResponse }, 'Received LLM response');
@@ -157,7 +118,7 @@ export async function runPrediction(
     let predictionOutput: PredictionOutput;
     try {
       // Extract JSON from response (it might be wrapped in markdown code blocks)
-      const content = typeof rawResponse === 'string' ? rawResponse : JSON.stringify(rawResponse);
+      const content = rawResponse;
       const jsonMatch = content.match(/```json\n?([\s\S]*?)\n?```/) || content.match(/\{[\s\S]*\}/);
       const jsonStr = jsonMatch ? (jsonMatch[1] || jsonMatch[0]) : content;
 
@@ -174,17 +135,31 @@ export async function runPrediction(
       throw new Error(`Failed to parse prediction output: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
     }
 
-    // Save prediction to database
+    // Save prediction to database (canonical columns derived from the legacy nested shape)
+    const canonical = normalizePrediction(predictionOutput);
     const [savedPrediction] = await db
       .insert(predictions)
       .values({
         jobId: finalJobId,
         marketId,
         prediction: predictionOutput,
+        ...(canonical.value ? toPredictionColumns(canonical.value) : {}),
         rawResponse: { content: rawResponse },
-        model: 'anthropic/claude-3.5-sonnet',
-        promptTokens: response.response_metadata?.tokenUsage?.promptTokens,
-        completionTokens: response.response_metadata?.tokenUsage?.completionTokens,
+        model: PREDICTION_MODEL,
+        promptTemplates: templates,
+        promptTokens: response.usage.promptTokens,
+        completionTokens: response.usage.completionTokens,
+        reasoningTokens: response.usage.reasoningTokens,
+        costUsd: response.costUsd,
+        costBreakdown: summarizeCosts([
+          {
+            stage: 'prediction',
+            model: PREDICTION_MODEL,
+            promptTokens: response.usage.promptTokens,
+            completionTokens: response.usage.completionTokens,
+            costUsd: response.costUsd,
+          },
+        ]),
       })
       .returning();
 
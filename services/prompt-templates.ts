@@ -0,0 +1,129 @@
+import { createHash } from 'crypto';
+import { PROMPT_TEMPLATES } from '../prompts/index.js';
+
+/**
+ * Prompt Template Service
+ * Named, versioned prompt templates with {{variable}} placeholders. Each rendered prompt
+ * carries a reference (id, version, content hash) that is stored with the prediction.
+ */
+
+const PLACEHOLDER_PATTERN = /\{\{(\w+)\}\}/g;
+
+export interface PromptTemplate {
+  id: string; // e.g. 'exp006-system'
+  version: string; // Semver; bump on any wording change and keep the old version registered
+  description: string;
+  variables: string[]; // Every {{placeholder}} used in template
+  template: string;
+}
+
+/**
+ * Reference to the exact template wording used for a prediction
+ */
+export interface PromptTemplateRef {
+  id: string;
+  version: string;
+  hash: string; // sha256 of the template text
+}
+
+export interface RenderedPrompt {
+  text: string;
+  templates: PromptTemplateRef[]; // This template plus any fragment templates rendered into it
+}
+
+/**
+ * Content hash of a template's text
+ */
+export function hashPromptTemplate(template: PromptTemplate): string {
+  return createHash('sha256').update(template.template).digest('hex');
+}
+
+/**
+ * Get the stored reference for a template
+ */
+export function getPromptTemplateRef(template: PromptTemplate): PromptTemplateRef {
+  return { id: template.id, version: template.version, hash: hashPromptTemplate(template) };
+}
+
+/**
+ * Compare two semver strings (major.minor.patch), negative when a < b
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+  for (let i = 0; i < 3; i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+/**
+ * List every registered version of a template, oldest first
+ */
+export function listPromptTemplateVersions(id: string): PromptTemplate[] {
+  return PROMPT_TEMPLATES
+    .filter(template => template.id === id)
+    .sort((a, b) => compareVersions(a.version, b.version));
+}
+
+/**
+ * Get a template by ID (latest version unless a version is given)
+ */
+export function getPromptTemplate(id: string, version?: string): PromptTemplate | undefined {
+  const versions = listPromptTemplateVersions(id);
+  return version ? versions.find(template => template.version === version) : versions[versions.length - 1];
+}
+
+/**
+ * List the placeholders used in a template's text
+ */
+export function getTemplatePlaceholders(template: string): string[] {
+  return [...new Set([...template.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]))];
+}
+
+/**
+ * Substitute variables into a template
+ * Fragments (prompts rendered from other templates) are passed as RenderedPrompt so their references are kept.
+ *
+ * @throws Error when a placeholder has no value
+ */
+export function renderPromptTemplate(
+  template: PromptTemplate,
+  variables: Record<string, string | RenderedPrompt> = {}
+): RenderedPrompt {
+  const missing = getTemplatePlaceholders(template.template).filter(name => variables[name] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Prompt template ${template.id}@${template.version} is missing variables: ${missing.join(', ')}`);
+  }
+
+  const fragments = Object.values(variables).filter((value): value is RenderedPrompt => typeof value !== 'string');
+  const text = template.template.replace(PLACEHOLDER_PATTERN, (_match, name: string) => {
+    const value = variables[name];
+    return typeof value === 'string' ? value : value.text;
+  });
+
+  return {
+    text,
+    templates: [getPromptTemplateRef(template), ...fragments.flatMap(fragment => fragment.templates)],
+  };
+}
+
+/**
+ * Render the latest (or given) version of a registered template
+ *
+ * @throws Error when the template is not registered or a variable is missing
+ */
+export function renderPrompt(
+  id: string,
+  variables: Record<string, string | RenderedPrompt> = {},
+  version?: string
+): RenderedPrompt {
+  const template = getPromptTemplate(id, version);
+  if (!template) {
+    throw new Error(`Prompt template ${id}${version ? `@${version}` : ''} is not registered`);
+  }
+  return renderPromptTemplate(template, variables);
+}
@@ -0,0 +1,172 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { createOpenRouterProvider, type LlmProvider } from './llm-client.js';
+
+/**
+ * External Providers
+ * Every network dependency (Gamma, Exa, OpenRouter/Grok, GitHub) sits behind an interface so
+ * the pipeline can run against recorded fixtures or scripted mocks (see tests/harness).
+ */
+
+const execAsync = promisify(exec);
+
+const GAMMA_API_BASE = 'https://gamma-api.polymarket.com';
+const EXA_API_BASE = 'https://api.exa.ai';
+
+/**
+ * Parsed HTTP response (body is JSON when the response is JSON, otherwise text)
+ */
+export interface JsonResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  data: unknown;
+}
+
+/**
+ * Polymarket Gamma API (read-only)
+ */
+export interface GammaProvider {
+  get(path: string): Promise<JsonResponse>; // e.g. '/markets?slug=...'
+}
+
+/**
+ * Exa AI search + contents API
+ */
+export interface ExaProvider {
+  search(payload: Record<string, unknown>): Promise<JsonResponse>;
+  contents(payload: Record<string, unknown>): Promise<JsonResponse>; // Page contents for known URLs
+}
+
+export interface GitHubFilePayload {
+  message: string;
+  content: string; // Base64
+  branch: string;
+  sha?: string; // Required when updating an existing file
+}
+
+/**
+ * GitHub contents API, used to publish predictions
+ */
+export interface GitHubProvider {
+  isAvailable(): Promise<boolean>;
+  getFileSha(repo: string, path: string): Promise<string | undefined>;
+  putFile(repo: string, path: string, payload: GitHubFilePayload): Promise<{ htmlUrl?: string }>;
+}
+
+export interface Providers {
+  gamma: GammaProvider;
+  exa: ExaProvider;
+  llm: LlmProvider; // OpenRouter, also serves Grok search
+  github: GitHubProvider;
+}
+
+/**
+ * Read a fetch Response into a JsonResponse
+ */
+async function toJsonResponse(response: Response): Promise<JsonResponse> {
+  const text = await response.text();
+  let data: unknown = text;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    // Error pages and plain-text bodies are kept as text
+  }
+  return { ok: response.ok, status: response.status, statusText: response.statusText, data };
+}
+
+/**
+ * Live Gamma API provider
+ */
+export function createGammaApiProvider(baseUrl: string = GAMMA_API_BASE): GammaProvider {
+  return {
+    async get(path) {
+      return toJsonResponse(await fetch(`${baseUrl}${path}`));
+    },
+  };
+}
+
+/**
+ * Live Exa API provider (EXA_API_KEY is read at call time)
+ */
+export function createExaApiProvider(baseUrl: string = EXA_API_BASE): ExaProvider {
+  const post = async (endpoint: string, payload: Record<string, unknown>) => {
+    const response = await fetch(`${baseUrl}${endpoint}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': process.env.EXA_API_KEY ?? '',
+      },
+      body: JSON.stringify(payload),
+    });
+    return toJsonResponse(response);
+  };
+
+  return {
+    search: payload => post('/search', payload),
+    contents: payload => post('/contents', payload),
+  };
+}
+
+/**
+ * Live GitHub provider using the authenticated gh CLI
+ */
+export function createGhCliProvider(): GitHubProvider {
+  return {
+    async isAvailable() {
+      try {
+        await execAsync('gh --version');
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    async getFileSha(repo, path) {
+      try {
+        const { stdout } = await execAsync(`gh api repos/${repo}/contents/${path} --jq '.sha'`);
+        return stdout.trim() || undefined;
+      } catch {
+        return undefined; // Not found
+      }
+    },
+    async putFile(repo, path, payload) {
+      const payloadJson = JSON.stringify(payload);
+      const { stdout } = await execAsync(
+        `echo '${payloadJson.replace(/'/g, "'\\''")}' | gh api repos/${repo}/contents/${path} -X PUT --input -`
+      );
+      const response = JSON.parse(stdout);
+      return { htmlUrl: response.content?.html_url };
+    },
+  };
+}
+
+let providers: Providers | null = null;
+
+/**
+ * Get the active providers (live unless overridden with setProviders)
+ */
+export function getProviders(): Providers {
+  if (!providers) {
+    providers = {
+      gamma: createGammaApiProvider(),
+      exa: createExaApiProvider(),
+      llm: createOpenRouterProvider(),
+      github: createGhCliProvider(),
+    };
+  }
+  return providers;
+}
+
+/**
+ * Replace some or all providers (tests and offline runs)
+ */
+export function setProviders(overrides: Partial<Providers>): void {
+  providers = { ...getProviders(), ...overrides };
+}
+
+/**
+ * Restore the live providers
+ */
+export function resetProviders(): void {
+  providers = null;
+}
@@ -0,0 +1,171 @@
+import { db, events, marketResolutions, markets, rawMarkets } from '../db/index.js';
+import { and, desc, eq, lt, ne, sql } from 'drizzle-orm';
+import { logger } from '../utils/logger.js';
+import {
+  rankBySimilarity,
+  summarizeReferenceClass,
+  type ReferenceClassSummary,
+  type ReferenceMarket,
+} from '../utils/reference-class.js';
+import { takeWithinCharacters } from '../utils/research-context.js';
+import { getPriceAtTime } from './market-price-history.js';
+import type { ResearchProvider } from './research-providers.js';
+
+/**
+ * Reference Class Service
+ * Finds resolved markets in our own history that resemble the current question, to give the
+ * forecaster a base rate and a record of how those markets were priced before resolving.
+ */
+
+const MAX_CANDIDATES = 5000; // Most recently resolved markets considered
+const DEFAULT_LIMIT = 10;
+const MIN_SIMILARITY = 0.25;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRIOR_PRICE_LEAD_MS = DAY_MS; // Prior price: last snapshot at least a day before resolution
+
+export interface ReferenceClassMarket extends ReferenceMarket {
+  marketId: string;
+  eventTitle: string | null;
+  resolvedOutcome: string | null;
+  resolvedAt: Date | null;
+  priorPriceAt: Date | null;
+  similarity: number;
+}
+
+export interface ReferenceClass {
+  markets: ReferenceClassMarket[];
+  summary: ReferenceClassSummary;
+}
+
+/**
+ * Find resolved markets similar to a market question (and event title)
+ * Similarity is TF-IDF cosine over question and event title; the market itself is excluded.
+ * Only markets resolved before options.asOf count, so backtests and replays see the history
+ * the original run saw.
+ */
+export async function findReferenceClass(
+  market: { id: string; question: string; eventTitle?: string },
+  options: { limit?: number; minSimilarity?: number; asOf?: Date } = {}
+): Promise<ReferenceClass> {
+  const { limit = DEFAULT_LIMIT, minSimilarity = MIN_SIMILARITY, asOf = new Date() } = options;
+
+  const candidates = await db
+    .select({
+      marketId: markets.marketId,
+      question: markets.question,
+      eventTitle: sql<string | null>`coalesce(${events.title}, ${rawMarkets.data}->'events'->0->>'title')`,
+      status: marketResolutions.status,
+      resolvedOutcome: marketResolutions.resolvedOutcome,
+      resolvedOutcomeIndex: marketResolutions.resolvedOutcomeIndex,
+      resolvedAt: marketResolutions.resolvedAt,
+    })
+    .from(marketResolutions)
+    .innerJoin(markets, eq(marketResolutions.marketId, markets.marketId))
+    .leftJoin(events, eq(markets.eventId, events.eventId))
+    .leftJoin(rawMarkets, eq(markets.marketId, rawMarkets.marketId))
+    .where(and(ne(markets.marketId, market.id), lt(marketResolutions.resolvedAt, asOf)))
+    .orderBy(desc(marketResolutions.resolvedAt))
+    .limit(MAX_CANDIDATES);
+
+  const matches = rankBySimilarity(
+    [market.question, market.eventTitle].filter(Boolean).join(' '),
+    candidates,
+    candidate => [candidate.question, candidate.eventTitle].filter(Boolean).join(' '),
+    { limit, minScore: minSimilarity }
+  );
+
+  const referenceMarkets = await Promise.all(
+    matches.map(async ({ item, score }): Promise<ReferenceClassMarket> => {
+      const snapshot = item.resolvedAt
+        ? await getPriceAtTime(item.marketId, new Date(item.resolvedAt.getTime() - PRIOR_PRICE_LEAD_MS))
+        : null;
+      const resolved = item.status === 'RESOLVED' && item.resolvedOutcomeIndex !== null;
+
+      return {
+        marketId: item.marketId,
+        question: item.question,
+        eventTitle: item.eventTitle,
+        resolvedOutcome: item.resolvedOutcome,
+        resolvedAt: item.resolvedAt,
+        outcome: resolved ? (item.resolvedOutcomeIndex === 0 ? 1 : 0) : null,
+        priorPrice: snapshot?.yesPrice ?? null,
+        priorPriceAt: snapshot?.capturedAt ?? null,
+        similarity: score,
+      };
+    })
+  );
+
+  const summary = summarizeReferenceClass(referenceMarkets);
+  logger.info(
+    { marketId: market.id, candidates: candidates.length, matches: referenceMarkets.length, yesRate: summary.yesRate },
+    'Reference class retrieved'
+  );
+
+  return { markets: referenceMarkets, summary };
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+function formatReferenceMarket(referenceMarket: ReferenceClassMarket): string {
+  const outcome = referenceMarket.outcome === null
+    ? 'voided'
+    : `resolved ${referenceMarket.resolvedOutcome ?? (referenceMarket.outcome === 1 ? 'YES' : 'NO')}`;
+  const resolvedAt = referenceMarket.resolvedAt ? ` on ${referenceMarket.resolvedAt.toISOString().slice(0, 10)}` : '';
+  const prior = referenceMarket.priorPrice !== null && referenceMarket.priorPriceAt && referenceMarket.resolvedAt
+    ? `; priced ${percent(referenceMarket.priorPrice)} YES ${Math.round((referenceMarket.resolvedAt.getTime() - referenceMarket.priorPriceAt.getTime()) / DAY_MS)} days before`
+    : '';
+  const event = referenceMarket.eventTitle ? ` (${referenceMarket.eventTitle})` : '';
+  return `- "${referenceMarket.question}"${event}: ${outcome}${resolvedAt}${prior} [similarity ${referenceMarket.similarity.toFixed(2)}]`;
+}
+
+/**
+ * Format a reference class into a "Reference Class" research context section
+ */
+export function formatReferenceClassContext(referenceClass: ReferenceClass): string {
+  const { markets: referenceMarkets, summary } = referenceClass;
+  if (referenceMarkets.length === 0) {
+    return '# Reference Class\n\nNo similar resolved markets were found in our market history.';
+  }
+
+  const summaryLines = [
+    `- Similar resolved markets: ${summary.count}${summary.count > summary.resolved ? ` (${summary.count - summary.resolved} voided)` : ''}`,
+    summary.yesRate !== null ? `- Resolved YES (first outcome): ${summary.yesCount} of ${summary.resolved} (${percent(summary.yesRate)})` : '',
+    summary.meanPriorPrice !== null
+      ? `- Mean market price before resolution: ${percent(summary.meanPriorPrice)} YES (${summary.priced} priced markets, Brier score ${summary.priorPriceBrier!.toFixed(3)})`
+      : '- No price history before resolution',
+  ].filter(Boolean);
+
+  const marketLines = referenceMarkets.map(formatReferenceMarket);
+
+  return `# Reference Class\n\nSimilar past Polymarket markets from our own resolved-market history, found by text similarity. Use them as a base rate, weighing how closely each matches this question:\n\n${summaryLines.join('\n')}\n\n## Similar Markets\n${marketLines.join('\n')}`;
+}
+
+/**
+ * Reference class as a research provider: free (database only), ignores the search query
+ * Markets are kept in similarity order within the character budget; nothing similar means no section.
+ */
+export const referenceClassResearchProvider: ResearchProvider<ReferenceClassMarket> = {
+  id: 'reference-class',
+  name: 'Reference Class',
+  webSearch: false,
+  async search({ market, maxCharacters, asOf }) {
+    const referenceClass = await findReferenceClass(
+      { id: market.id ?? '', question: market.question, eventTitle: market.eventTitle },
+      { asOf }
+    );
+    const { kept, characters } = takeWithinCharacters(
+      referenceClass.markets,
+      referenceMarket => formatReferenceMarket(referenceMarket).length,
+      maxCharacters
+    );
+    return {
+      success: true,
+      items: kept,
+      characters,
+      truncated: kept.length < referenceClass.markets.length,
+      costItems: [],
+      metadata: { summary: summarizeReferenceClass(kept) },
+    };
+  },
+  format: items => formatReferenceClassContext({ markets: items, summary: summarizeReferenceClass(items) }),
+};
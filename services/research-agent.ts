@@ -0,0 +1,531 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { logger } from '../utils/logger.js';
+import type { CostItem } from '../utils/cost.js';
+import { MODEL_IDS } from '../config/models.js';
+import { sumUsage, type LlmMessage, type LlmUsage } from './llm-client.js';
+import { completeStructured, isStructuredOutputError } from './structured-output.js';
+import { isBudgetExceededError } from './budget.js';
+import { renderPrompt, type PromptTemplateRef } from './prompt-templates.js';
+import {
+  exaResearchProvider,
+  fetchExaContents,
+  formatExaResearchContext,
+  getExaContentLength,
+  performExaResearch,
+  toExaProviderResult,
+  type ExaContentResult,
+} from './exa-research.js';
+import {
+  formatGrokSearchContext,
+  getGrokResultLength,
+  grokResearchProvider,
+  performGrokSearch,
+  toGrokProviderResult,
+  type GrokSearchResult,
+} from './grok-search.js';
+import {
+  DEFAULT_WEB_SHARES,
+  allocateCharacterBudget,
+  takeWithinCharacters,
+  type ResearchBudgetShare,
+  type ResearchSourceData,
+} from '../utils/research-context.js';
+import {
+  formatMergedResearchContext,
+  getSourceLength,
+  mergeResearchSources,
+  type SourceCandidate,
+  type SourceMergeSummary,
+} from '../utils/source-merge.js';
+import { storeResearchRun, type ResearchMarketContext } from './research-providers.js';
+
+/**
+ * Research Agent Service
+ * An LLM-driven research loop: at each step the agent calls Exa search, Exa contents or Grok,
+ * reads the result and decides on a follow-up, until it judges the evidence sufficient or its
+ * step or cost budget runs out. Every tool call is kept in a trace and stored as a research run.
+ */
+
+const DEFAULT_AGENT_MODEL = MODEL_IDS.OPENAI_GPT_5;
+const DEFAULT_MAX_STEPS = 8; // Tool calls, excluding the final summary
+const DEFAULT_MAX_COST_USD = 0.5; // Agent and tool calls combined
+const MAX_CONTENT_URLS = 3; // Pages per exa_contents call
+const EXA_SEARCH_RESULTS = 5;
+const GROK_SEARCH_RESULTS = 8;
+const CONTENT_MAX_CHARACTERS = 4000; // Per page read with exa_contents
+const MAX_OBSERVATION_CHARACTERS = 8000; // Tool result shown to the agent
+const DEFAULT_MAX_CHARACTERS = 50000; // Final research context, split between Exa and Grok sources by their shares
+
+export type ResearchTool = 'exa_search' | 'exa_contents' | 'grok_search';
+
+const ResearchActionSchema = z.object({
+  reasoning: z.string().min(10).describe('What the evidence so far shows, and what is still missing'),
+  action: z.discriminatedUnion('tool', [
+    z.object({ tool: z.literal('exa_search'), query: z.string().min(3).describe('Search query') }),
+    z.object({
+      tool: z.literal('exa_contents'),
+      urls: z.array(z.string()).min(1).max(MAX_CONTENT_URLS).describe('URLs from earlier results to read in full'),
+    }),
+    z.object({ tool: z.literal('grok_search'), query: z.string().min(3).describe('Search query') }),
+    z.object({
+      tool: z.literal('finish'),
+      summary: z.string().min(10).describe('The evidence found for each resolution condition, and what remains unknown'),
+    }),
+  ]),
+});
+
+type ResearchAction = z.infer<typeof ResearchActionSchema>;
+
+export interface ResearchAgentOptions {
+  model?: string; // Agent (planning) model
+  maxSteps?: number; // Tool calls
+  maxCostUsd?: number; // Agent and tool calls combined
+  maxCharacters?: number; // Research context budget for the sources found
+  shares?: ResearchBudgetShare[]; // Exa and Grok shares of maxCharacters (default even)
+  mergeSources?: boolean; // Pool Exa and Grok sources: duplicates collapsed, ranked within maxCharacters
+  asOf?: Date; // Run time source recency is measured from (default now)
+}
+
+/**
+ * One agent step: its reasoning, the tool it called and what came back
+ */
+export interface ResearchToolCall {
+  step: number;
+  reasoning: string;
+  tool: ResearchTool;
+  input: { query?: string; urls?: string[] };
+  success: boolean;
+  sources: number; // Results or pages returned
+  costUsd: number | null; // Tool cost (null when unpriced)
+  agentCostUsd: number | null; // Agent call that chose this step
+  observation: string; // Tool result as shown to the agent
+  runId?: string; // research_runs row of the call
+  error?: string;
+}
+
+export type ResearchStopReason = 'finished' | 'max-steps' | 'budget' | 'agent-error';
+
+/**
+ * Full record of an agent run, stored with the prediction
+ */
+export interface ResearchTrace {
+  model: string;
+  maxSteps: number;
+  maxCostUsd: number;
+  stopReason: ResearchStopReason;
+  summary: string | null; // Agent's closing summary (finish action)
+  steps: ResearchToolCall[];
+  totalCostUsd: number; // Priced calls only
+  templates: PromptTemplateRef[];
+  error?: string;
+}
+
+export interface ResearchAgentResult {
+  researchContext: string;
+  metadata: {
+    exaSuccess: boolean;
+    grokSuccess: boolean;
+    exaSources: number;
+    grokSources: number;
+    exaCharacters: number;
+    grokCharacters: number;
+  };
+  costItems: CostItem[]; // 'research:agent', 'research:exa' and 'research:grok'
+  sourceIds: number[]; // Stored research sources in the context, in context order
+  merge?: SourceMergeSummary; // With options.mergeSources
+  trace: ResearchTrace;
+}
+
+/**
+ * Search results as shown to the agent: enough to decide what to read in full
+ */
+function formatSearchObservation(contents: ExaContentResult[]): string {
+  if (contents.length === 0) {
+    return 'No results.';
+  }
+
+  return contents
+    .map((content, index) =>
+      [
+        `[${index + 1}] ${content.title}`,
+        `URL: ${content.url}`,
+        content.publishedDate ? `Published: ${content.publishedDate}` : '',
+        content.summary ? `Summary: ${content.summary}` : '',
+        content.highlights?.length ? `Highlights: ${content.highlights.join(' ... ')}` : '',
+      ]
+        .filter(Boolean)
+        .join('\n')
+    )
+    .join('\n\n');
+}
+
+function setSourceId(sourceIds: Map<string, number>, key: string, sourceId: number | undefined) {
+  if (sourceId !== undefined) {
+    sourceIds.set(key, sourceId);
+  }
+}
+
+interface AgentSources {
+  sections: string[];
+  metadata: Omit<ResearchAgentResult['metadata'], 'exaSuccess' | 'grokSuccess'>;
+  sourceIds: number[];
+  merge?: SourceMergeSummary;
+}
+
+/**
+ * Exa and Grok sources each kept within their share of the budget, in the order found
+ */
+function keepAgentSources(
+  exaSources: Map<string, ExaContentResult>,
+  grokSources: Map<string, GrokSearchResult>,
+  sourceIds: Map<string, number>,
+  getAllocation: (id: string) => number
+): AgentSources {
+  const exa = takeWithinCharacters([...exaSources.values()], getExaContentLength, getAllocation('exa'));
+  const grok = takeWithinCharacters([...grokSources.values()], getGrokResultLength, getAllocation('grok'));
+  const keys = [...exa.kept.map(content => `exa:${content.url}`), ...grok.kept.map(item => `grok:${item.url}`)];
+
+  return {
+    sections: [
+      ...(exa.kept.length > 0 ? [formatExaResearchContext(exa.kept)] : []),
+      ...(grok.kept.length > 0 ? [formatGrokSearchContext(grok.kept)] : []),
+    ],
+    metadata: {
+      exaSources: exa.kept.length,
+      grokSources: grok.kept.length,
+      exaCharacters: exa.characters,
+      grokCharacters: grok.characters,
+    },
+    sourceIds: keys.flatMap(key => (sourceIds.has(key) ? [sourceIds.get(key)!] : [])),
+  };
+}
+
+/**
+ * Exa and Grok sources pooled: duplicates collapsed and ranked within the whole budget
+ */
+function mergeAgentSources(
+  market: ResearchMarketContext,
+  exaSources: Map<string, ExaContentResult>,
+  grokSources: Map<string, GrokSearchResult>,
+  sourceIds: Map<string, number>,
+  options: ResearchAgentOptions
+): AgentSources {
+  const toCandidates = (provider: string, sources: ResearchSourceData[]) =>
+    sources.map((source, rank): SourceCandidate => ({
+      provider,
+      rank,
+      source,
+      sourceId: sourceIds.get(`${provider}:${source.url}`),
+    }));
+  const merged = mergeResearchSources(
+    [
+      ...toCandidates('exa', exaResearchProvider.toSources!([...exaSources.values()])),
+      ...toCandidates('grok', grokResearchProvider.toSources!([...grokSources.values()])),
+    ],
+    { maxCharacters: options.maxCharacters ?? DEFAULT_MAX_CHARACTERS, endDate: market.closeTime, now: options.asOf }
+  );
+
+  // Each kept source counts toward the provider whose copy was kept
+  const byProvider = (provider: string) => merged.sources.filter(source => source.providers[0] === provider);
+  return {
+    sections: merged.sources.length > 0
+      ? [formatMergedResearchContext(merged.sources, { exa: exaResearchProvider.name, grok: grokResearchProvider.name })]
+      : [],
+    metadata: {
+      exaSources: byProvider('exa').length,
+      grokSources: byProvider('grok').length,
+      exaCharacters: byProvider('exa').reduce((sum, source) => sum + getSourceLength(source), 0),
+      grokCharacters: byProvider('grok').reduce((sum, source) => sum + getSourceLength(source), 0),
+    },
+    sourceIds: merged.sources.flatMap(source => (source.sourceId !== undefined ? [source.sourceId] : [])),
+    merge: merged.summary,
+  };
+}
+
+function truncateObservation(text: string): string {
+  return text.length > MAX_OBSERVATION_CHARACTERS
+    ? `${text.slice(0, MAX_OBSERVATION_CHARACTERS)}\n\n[Truncated ${text.length - MAX_OBSERVATION_CHARACTERS} characters]`
+    : text;
+}
+
+/**
+ * Run the research agent for a market
+ * Budget errors (the global spend cap) propagate; every other failure ends the loop and
+ * keeps the sources gathered so far.
+ */
+export async function runResearchAgent(
+  market: ResearchMarketContext,
+  options: ResearchAgentOptions = {}
+): Promise<ResearchAgentResult> {
+  const model = options.model ?? DEFAULT_AGENT_MODEL;
+  const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+  const maxCostUsd = options.maxCostUsd ?? DEFAULT_MAX_COST_USD;
+  const allocations = allocateCharacterBudget(options.maxCharacters ?? DEFAULT_MAX_CHARACTERS, options.shares ?? DEFAULT_WEB_SHARES);
+  const getAllocation = (id: string) => allocations.find(allocation => allocation.id === id)?.maxCharacters ?? 0;
+
+  const system = renderPrompt('research-agent-system', {
+    maxContentUrls: String(MAX_CONTENT_URLS),
+    maxSteps: String(maxSteps),
+    maxCostUsd: maxCostUsd.toFixed(2),
+  });
+  const task = renderPrompt('research-agent-task', {
+    question: market.question,
+    eventTitle: market.eventTitle || 'N/A',
+    description: market.description || 'No description available',
+    closeTime: market.closeTime || 'N/A',
+    schema: JSON.stringify(zodToJsonSchema(ResearchActionSchema, { target: 'openApi3', $refStrategy: 'none' }), null, 2),
+  });
+  const templates = [...system.templates, ...task.templates];
+  const messages: LlmMessage[] = [
+    { role: 'system', content: system.text },
+    { role: 'user', content: task.text },
+  ];
+
+  const exaSources = new Map<string, ExaContentResult>(); // By URL; full page text replaces search snippets
+  const grokSources = new Map<string, GrokSearchResult>();
+  const sourceIds = new Map<string, number>(); // Stored row of each source by provider and URL
+  const steps: ResearchToolCall[] = [];
+  const agentUsages: LlmUsage[] = [];
+  const grokUsages: LlmUsage[] = [];
+  let agentCostUsd: number | null = 0;
+  let exaCostUsd = 0;
+  let grokCostUsd: number | null = 0;
+  let exaSuccess = false;
+  let grokSuccess = false;
+  let stopReason: ResearchStopReason = 'max-steps';
+  let summary: string | null = null;
+  let agentError: string | undefined;
+
+  const spentUsd = () => (agentCostUsd ?? 0) + exaCostUsd + (grokCostUsd ?? 0);
+  // An unpriced call could have cost anything, so it exhausts the budget
+  const costUnknown = () => agentCostUsd === null || grokCostUsd === null;
+
+  logger.info({ question: market.question, model, maxSteps, maxCostUsd }, 'Starting research agent');
+
+  // One extra agent call after the last tool call lets the agent summarize
+  for (let step = 1; step <= maxSteps + 1; step++) {
+    if (costUnknown() || spentUsd() >= maxCostUsd) {
+      stopReason = 'budget';
+      break;
+    }
+
+    let action: ResearchAction;
+    let stepAgentCostUsd: number | null;
+    try {
+      const response = await completeStructured({
+        model,
+        messages,
+        temperature: 0.2,
+        schema: ResearchActionSchema,
+        schemaName: 'research_action',
+      });
+      action = response.value;
+      stepAgentCostUsd = response.costUsd;
+      agentUsages.push(response.usage);
+      agentCostUsd = agentCostUsd === null || response.costUsd === null ? null : agentCostUsd + response.costUsd;
+      messages.push({ role: 'assistant', content: JSON.stringify(action) });
+    } catch (error) {
+      if (isBudgetExceededError(error)) {
+        throw error;
+      }
+      // Invalid and repair attempts were paid for too
+      for (const attempt of isStructuredOutputError(error) ? error.attempts : []) {
+        agentUsages.push(attempt.usage);
+        agentCostUsd = agentCostUsd === null || attempt.costUsd === null ? null : agentCostUsd + attempt.costUsd;
+      }
+      agentError = error instanceof Error ? error.message : String(error);
+      stopReason = 'agent-error';
+      logger.warn({ step, error: agentError }, 'Research agent call failed - keeping sources gathered so far');
+      break;
+    }
+
+    if (action.action.tool === 'finish') {
+      stopReason = 'finished';
+      summary = action.action.summary;
+      break;
+    }
+
+    if (step > maxSteps) {
+      break; // Out of tool calls and the agent did not finish
+    }
+
+    const { tool } = action.action;
+    const call: ResearchToolCall = {
+      step,
+      reasoning: action.reasoning,
+      tool,
+      input: 'urls' in action.action ? { urls: action.action.urls } : { query: action.action.query },
+      success: false,
+      sources: 0,
+      costUsd: 0,
+      agentCostUsd: stepAgentCostUsd,
+      observation: '',
+    };
+
+    if (action.action.tool === 'exa_search') {
+      const result = await performExaResearch({
+        query: action.action.query,
+        numResults: EXA_SEARCH_RESULTS,
+        // Question only: the date filter applies, but the agent's query is sent as written
+        market: { question: market.question, closeTime: market.closeTime },
+        contents: {
+          text: { maxCharacters: 1000 },
+          highlights: { numSentences: 3, highlightsPerUrl: 3 },
+          summary: true,
+        },
+      });
+      const stored = await storeResearchRun(exaResearchProvider, action.action.query, market, toExaProviderResult(result));
+      call.runId = stored.runId;
+      if (result.success && result.data) {
+        exaSuccess = true;
+        exaCostUsd += result.data.costUsd;
+        call.costUsd = result.data.costUsd;
+        call.sources = result.data.contents.length;
+        result.data.contents.forEach((content, index) => {
+          if (!exaSources.has(content.url)) {
+            exaSources.set(content.url, content);
+            setSourceId(sourceIds, `exa:${content.url}`, stored.sourceIds[index]);
+          }
+        });
+        call.observation = formatSearchObservation(result.data.contents);
+      } else {
+        call.error = result.error;
+      }
+    } else if (action.action.tool === 'exa_contents') {
+      const result = await fetchExaContents({
+        urls: action.action.urls,
+        text: { maxCharacters: CONTENT_MAX_CHARACTERS },
+      });
+      // Stored under the URLs read, so every page text is kept with its run
+      const stored = await storeResearchRun(exaResearchProvider, action.action.urls.join(' '), market, toExaProviderResult(result));
+      call.runId = stored.runId;
+      if (result.success && result.data) {
+        exaSuccess = true;
+        exaCostUsd += result.data.costUsd;
+        call.costUsd = result.data.costUsd;
+        call.sources = result.data.contents.length;
+        result.data.contents.forEach((content, index) => {
+          exaSources.set(content.url, { ...exaSources.get(content.url), ...content });
+          setSourceId(sourceIds, `exa:${content.url}`, stored.sourceIds[index]);
+        });
+        call.observation = formatExaResearchContext(result.data.contents);
+      } else {
+        call.error = result.error;
+      }
+    } else {
+      const result = await performGrokSearch({
+        query: action.action.query,
+        maxResults: GROK_SEARCH_RESULTS,
+        market,
+      });
+      const stored = await storeResearchRun(grokResearchProvider, action.action.query, market, toGrokProviderResult(result));
+      call.runId = stored.runId;
+      if (result.success && result.data) {
+        grokSuccess = true;
+        grokUsages.push(result.data.usage);
+        grokCostUsd = grokCostUsd === null || result.data.costUsd === null ? null : grokCostUsd + result.data.costUsd;
+        call.costUsd = result.data.costUsd;
+        call.sources = result.data.results.length;
+        result.data.results.forEach((item, index) => {
+          if (item.url && !grokSources.has(item.url)) {
+            grokSources.set(item.url, item);
+            setSourceId(sourceIds, `grok:${item.url}`, stored.sourceIds[index]);
+          }
+        });
+        call.observation = formatGrokSearchContext(result.data.results);
+      } else {
+        call.error = result.error;
+      }
+    }
+
+    call.success = !call.error;
+    call.observation = truncateObservation(call.error ? `Tool call failed: ${call.error}` : call.observation);
+    steps.push(call);
+
+    logger.info(
+      { step, tool, input: call.input, success: call.success, sources: call.sources, spentUsd: spentUsd() },
+      'Research agent tool call'
+    );
+
+    const observation = renderPrompt('research-agent-observation', {
+      step: String(step),
+      tool,
+      result: call.observation,
+      stepsLeft: String(maxSteps - step),
+      budgetLeft: Math.max(maxCostUsd - spentUsd(), 0).toFixed(2),
+    });
+    if (step === 1) {
+      templates.push(...observation.templates);
+    }
+    messages.push({ role: 'user', content: observation.text });
+  }
+
+  // Research context: the Exa and Grok sources (pooled, or each within its share), then the agent's summary
+  const sources = options.mergeSources
+    ? mergeAgentSources(market, exaSources, grokSources, sourceIds, options)
+    : keepAgentSources(exaSources, grokSources, sourceIds, getAllocation);
+  const researchParts = [...sources.sections];
+  if (summary) researchParts.push(`# Research Agent Summary\n\n${summary}`);
+
+  const researchContext = researchParts.length > 0
+    ? researchParts.join('\n\n---\n\n')
+    : 'No additional research data available due to API errors.';
+
+  const agentUsage = sumUsage(agentUsages);
+  const grokUsage = sumUsage(grokUsages);
+  const costItems: CostItem[] = [
+    {
+      stage: 'research:agent',
+      model,
+      promptTokens: agentUsage.promptTokens,
+      completionTokens: agentUsage.completionTokens,
+      costUsd: agentCostUsd,
+    },
+  ];
+  if (exaSuccess) {
+    costItems.push({ stage: 'research:exa', costUsd: exaCostUsd });
+  }
+  if (grokSuccess) {
+    costItems.push({
+      stage: 'research:grok',
+      model: MODEL_IDS.XAI_GROK_3_MINI,
+      promptTokens: grokUsage.promptTokens,
+      completionTokens: grokUsage.completionTokens,
+      costUsd: grokCostUsd,
+    });
+  }
+
+  const trace: ResearchTrace = {
+    model,
+    maxSteps,
+    maxCostUsd,
+    stopReason,
+    summary,
+    steps,
+    totalCostUsd: spentUsd(),
+    templates,
+    ...(agentError && { error: agentError }),
+  };
+
+  logger.info(
+    {
+      question: market.question,
+      stopReason,
+      toolCalls: steps.length,
+      exaSources: sources.metadata.exaSources,
+      grokSources: sources.metadata.grokSources,
+      totalCostUsd: trace.totalCostUsd,
+    },
+    'Research agent finished'
+  );
+
+  return {
+    researchContext,
+    metadata: { exaSuccess, grokSuccess, ...sources.metadata },
+    costItems,
+    sourceIds: sources.sourceIds,
+    ...(sources.merge && { merge: sources.merge }),
+    trace,
+  };
+}
@@ -0,0 +1,428 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { logger } from '../utils/logger.js';
+import type { CostItem } from '../utils/cost.js';
+import {
+  DEFAULT_WEB_SHARES,
+  allocateCharacterBudget,
+  takeWithinCharacters,
+  type ResearchBudgetShare,
+  type ResearchSourceData,
+} from '../utils/research-context.js';
+import {
+  canonicalizeUrl,
+  getSourceLength,
+  mergeResearchSources,
+  type SourceCandidate,
+  type SourceMergeSummary,
+} from '../utils/source-merge.js';
+import { MODEL_IDS } from '../config/models.js';
+import { sumUsage, type LlmMessage, type LlmUsage } from './llm-client.js';
+import { completeStructured, isStructuredOutputError } from './structured-output.js';
+import { isBudgetExceededError } from './budget.js';
+import { renderPrompt, type PromptTemplateRef } from './prompt-templates.js';
+import { exaResearchProvider, performExaResearch, toExaProviderResult } from './exa-research.js';
+import { grokResearchProvider, performGrokSearch, toGrokProviderResult } from './grok-search.js';
+import { storeResearchRun, type ResearchMarketContext } from './research-providers.js';
+
+/**
+ * Research Planner Service
+ * Before searching, an LLM decomposes the market question and resolution criteria into
+ * sub-questions, each with targeted Exa or Grok queries. Every query runs in parallel, is stored
+ * as a research run, and the research context is organized by sub-question.
+ */
+
+const DEFAULT_PLANNER_MODEL = MODEL_IDS.OPENAI_GPT_5;
+const DEFAULT_MAX_SUB_QUESTIONS = 4;
+const EXA_QUERY_RESULTS = 4;
+const GROK_QUERY_RESULTS = 5;
+const DEFAULT_MAX_CHARACTERS = 50000; // Same total as single-query research, split evenly across sub-questions
+
+const ResearchPlanSchema = z.object({
+  subQuestions: z
+    .array(
+      z.object({
+        question: z.string().min(5).describe('Sub-question a forecaster must answer'),
+        rationale: z.string().min(5).describe('How the answer bears on the market resolution'),
+        queries: z
+          .array(
+            z.object({
+              provider: z.enum(['exa', 'grok']).describe('exa for articles and background, grok for breaking news'),
+              query: z.string().min(3),
+            })
+          )
+          .min(1)
+          .max(3),
+      })
+    )
+    .min(1),
+});
+
+type ResearchPlanOutput = z.infer<typeof ResearchPlanSchema>;
+
+export type PlannedQueryProvider = 'exa' | 'grok';
+
+export interface ResearchPlannerOptions {
+  model?: string; // Planner model
+  maxSubQuestions?: number;
+  maxCharacters?: number; // Research context budget
+  shares?: ResearchBudgetShare[]; // Exa and Grok shares of each sub-question's budget (default even)
+  mergeSources?: boolean; // Pool each sub-question's sources: duplicates collapsed, ranked within its budget
+  asOf?: Date; // Run time source recency is measured from (default now)
+}
+
+/**
+ * One planned query and what it returned
+ */
+export interface PlannedQueryResult {
+  provider: PlannedQueryProvider;
+  query: string;
+  success: boolean;
+  results: Array<{ url: string; title: string }>;
+  characters: number;
+  costUsd: number | null;
+  runId?: string; // research_runs row of the query
+  error?: string;
+}
+
+/**
+ * Stored record of a planned research run
+ */
+export interface ResearchPlan {
+  model: string;
+  subQuestions: Array<{
+    question: string;
+    rationale: string;
+    queries: PlannedQueryResult[];
+    merge?: SourceMergeSummary; // With options.mergeSources
+  }>;
+  templates: PromptTemplateRef[];
+  error?: string; // Planning failed; research fell back to a single query per provider
+}
+
+export interface PlannedResearchResult {
+  success: boolean;
+  researchContext: string;
+  metadata: {
+    exaSuccess: boolean;
+    grokSuccess: boolean;
+    exaSources: number;
+    grokSources: number;
+    exaCharacters: number;
+    grokCharacters: number;
+  };
+  costItems: CostItem[]; // 'research:plan', plus 'research:exa' and 'research:grok' when they ran
+  sourceIds: number[]; // Stored research sources in the context, in context order
+  plan: ResearchPlan;
+  error?: string;
+}
+
+const PROVIDER_NAMES: Record<PlannedQueryProvider, string> = { exa: 'Exa', grok: 'Grok' };
+
+/**
+ * A source kept for a sub-question, with every provider that found it (kept copy first)
+ */
+interface PlannedSource {
+  source: ResearchSourceData;
+  providers: string[];
+  sourceId?: number;
+}
+
+function formatSource({ source, providers }: PlannedSource, label: string): string {
+  const foundBy = providers.map(provider => PROVIDER_NAMES[provider as PlannedQueryProvider] ?? provider).join(', ');
+  const parts: string[] = [];
+
+  parts.push(`### Source ${label}: ${source.title}`);
+  parts.push(`URL: ${source.url}`);
+  parts.push(`Found by: ${foundBy}${source.source ? ` (${source.source})` : ''}`);
+  if (source.publishedDate) parts.push(`Published: ${source.publishedDate}`);
+  if (source.summary) parts.push(`\nSummary: ${source.summary}`);
+  if (source.highlights && source.highlights.length > 0) {
+    parts.push(`\nKey Highlights:\n${source.highlights.map(highlight => `- ${highlight.trim()}`).join('\n')}`);
+  }
+  if (source.text) parts.push(`\n${source.text}`);
+
+  return parts.join('\n');
+}
+
+/**
+ * Ask the planner model for sub-questions and queries
+ */
+async function createResearchPlan(market: ResearchMarketContext, model: string, maxSubQuestions: number) {
+  const system = renderPrompt('research-planner-system');
+  const context = renderPrompt('research-planner', {
+    question: market.question,
+    eventTitle: market.eventTitle || 'N/A',
+    description: market.description || 'No description available',
+    closeTime: market.closeTime || 'N/A',
+    maxSubQuestions: String(maxSubQuestions),
+    schema: JSON.stringify(zodToJsonSchema(ResearchPlanSchema, { target: 'openApi3', $refStrategy: 'none' }), null, 2),
+  });
+  const messages: LlmMessage[] = [
+    { role: 'system', content: system.text },
+    { role: 'user', content: context.text },
+  ];
+
+  const response = await completeStructured({
+    model,
+    messages,
+    temperature: 0.2,
+    schema: ResearchPlanSchema,
+    schemaName: 'research_plan',
+  });
+
+  return {
+    plan: response.value,
+    usage: response.usage,
+    costUsd: response.costUsd,
+    templates: [...system.templates, ...context.templates],
+  };
+}
+
+/**
+ * Plan research for a market, run every planned query and build a context organized by sub-question
+ * A failed plan returns success: false (with the planner cost) so the caller can fall back;
+ * failed queries are recorded and skipped. Budget errors propagate.
+ */
+export async function runPlannedResearch(
+  market: ResearchMarketContext,
+  options: ResearchPlannerOptions = {}
+): Promise<PlannedResearchResult> {
+  const model = options.model ?? DEFAULT_PLANNER_MODEL;
+  const maxSubQuestions = options.maxSubQuestions ?? DEFAULT_MAX_SUB_QUESTIONS;
+  const emptyMetadata = {
+    exaSuccess: false,
+    grokSuccess: false,
+    exaSources: 0,
+    grokSources: 0,
+    exaCharacters: 0,
+    grokCharacters: 0,
+  };
+
+  // Step 1: Plan
+  let planned: Awaited<ReturnType<typeof createResearchPlan>>;
+  try {
+    planned = await createResearchPlan(market, model, maxSubQuestions);
+  } catch (error) {
+    if (isBudgetExceededError(error)) {
+      throw error;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error({ question: market.question, model, error: errorMessage }, 'Research planning failed');
+
+    // Invalid plans were still paid for
+    const attempts = isStructuredOutputError(error) ? error.attempts : [];
+    const usage = sumUsage(attempts.map(attempt => attempt.usage));
+    return {
+      success: false,
+      researchContext: '',
+      metadata: emptyMetadata,
+      sourceIds: [],
+      costItems: attempts.length > 0
+        ? [
+            {
+              stage: 'research:plan',
+              model,
+              promptTokens: usage.promptTokens,
+              completionTokens: usage.completionTokens,
+              costUsd: attempts.some(attempt => attempt.costUsd === null)
+                ? null
+                : attempts.reduce((sum, attempt) => sum + attempt.costUsd!, 0),
+            },
+          ]
+        : [],
+      plan: { model, subQuestions: [], templates: [], error: errorMessage },
+      error: `Research planning failed: ${errorMessage}`,
+    };
+  }
+
+  const subQuestions: ResearchPlanOutput['subQuestions'] = planned.plan.subQuestions.slice(0, maxSubQuestions);
+  logger.info(
+    {
+      question: market.question,
+      subQuestions: subQuestions.map(subQuestion => subQuestion.question),
+      queries: subQuestions.reduce((sum, subQuestion) => sum + subQuestion.queries.length, 0),
+    },
+    'Research plan created'
+  );
+
+  // Step 2: Run every query in parallel
+  const grokUsages: LlmUsage[] = [];
+  let exaCostUsd = 0;
+  let grokCostUsd: number | null = 0;
+  let exaSuccess = false;
+  let grokSuccess = false;
+
+  const executed = await Promise.all(
+    subQuestions.map(subQuestion =>
+      Promise.all(
+        subQuestion.queries.map(async ({ provider, query }) => {
+          const record: PlannedQueryResult = { provider, query, success: false, results: [], characters: 0, costUsd: 0 };
+          let sources: ResearchSourceData[] = [];
+          let stored: Awaited<ReturnType<typeof storeResearchRun>>;
+
+          if (provider === 'exa') {
+            const result = await performExaResearch({
+              query,
+              numResults: EXA_QUERY_RESULTS,
+              // Question only: the date filter applies, but the planned query is sent as written
+              market: { question: market.question, closeTime: market.closeTime },
+              contents: {
+                text: { maxCharacters: 1000 },
+                highlights: { numSentences: 3, highlightsPerUrl: 3 },
+                summary: true,
+              },
+            });
+            if (result.success && result.data) {
+              exaSuccess = true;
+              exaCostUsd += result.data.costUsd;
+              record.costUsd = result.data.costUsd;
+              record.characters = result.data.totalCharacters;
+              sources = exaResearchProvider.toSources!(result.data.contents);
+            } else {
+              record.error = result.error;
+            }
+            stored = await storeResearchRun(exaResearchProvider, query, market, toExaProviderResult(result));
+          } else {
+            const result = await performGrokSearch({ query, maxResults: GROK_QUERY_RESULTS, market });
+            if (result.success && result.data) {
+              grokSuccess = true;
+              grokUsages.push(result.data.usage);
+              grokCostUsd = grokCostUsd === null || result.data.costUsd === null ? null : grokCostUsd + result.data.costUsd;
+              record.costUsd = result.data.costUsd;
+              record.characters = result.data.totalCharacters;
+              sources = grokResearchProvider.toSources!(result.data.results);
+            } else {
+              record.error = result.error;
+            }
+            stored = await storeResearchRun(grokResearchProvider, query, market, toGrokProviderResult(result));
+          }
+
+          record.success = !record.error;
+          record.results = sources.map(source => ({ url: source.url, title: source.title ?? '' }));
+          if (stored.runId) record.runId = stored.runId;
+          const candidates = sources.map(
+            (source, rank): SourceCandidate => ({ provider, rank, source, sourceId: stored.sourceIds[rank] })
+          );
+          return { record, candidates };
+        })
+      )
+    )
+  );
+
+  // Step 3: Context by sub-question; a URL found twice (after canonicalization) is kept under the first sub-question
+  const earlierUrls = new Set<string>();
+  const characterShare = Math.floor((options.maxCharacters ?? DEFAULT_MAX_CHARACTERS) / Math.max(subQuestions.length, 1));
+  const metadata = { ...emptyMetadata, exaSuccess, grokSuccess };
+  const sourceIds: number[] = [];
+  const merges = new Map<number, SourceMergeSummary>(); // By sub-question index
+
+  const sections = subQuestions.map((subQuestion, index) => {
+    const candidates = executed[index]
+      .flatMap(query => query.candidates)
+      .filter(candidate => candidate.source.url && !earlierUrls.has(canonicalizeUrl(candidate.source.url)));
+    for (const candidate of candidates) {
+      earlierUrls.add(canonicalizeUrl(candidate.source.url));
+    }
+
+    let kept: PlannedSource[];
+    if (options.mergeSources) {
+      // Duplicates within the sub-question collapse, credited to every provider that found them
+      const merged = mergeResearchSources(candidates, {
+        maxCharacters: characterShare,
+        endDate: market.closeTime,
+        now: options.asOf,
+      });
+      merges.set(index, merged.summary);
+      kept = merged.sources.map(source => ({ source, providers: source.providers, sourceId: source.sourceId }));
+    } else {
+      const seenUrls = new Set<string>();
+      const unique = candidates.filter(candidate => {
+        const url = canonicalizeUrl(candidate.source.url);
+        if (seenUrls.has(url)) return false;
+        seenUrls.add(url);
+        return true;
+      });
+      // Split across the providers this sub-question queried, by their shares
+      const budgets = allocateCharacterBudget(
+        characterShare,
+        (options.shares ?? DEFAULT_WEB_SHARES).filter(({ id }) => subQuestion.queries.some(query => query.provider === id))
+      );
+      kept = budgets.flatMap(({ id, maxCharacters }) =>
+        takeWithinCharacters(
+          unique.filter(candidate => candidate.provider === id),
+          candidate => getSourceLength(candidate.source),
+          maxCharacters
+        ).kept.map(({ provider, source, sourceId }) => ({ source, providers: [provider], sourceId }))
+      );
+    }
+
+    for (const { source, providers, sourceId } of kept) {
+      if (providers[0] === 'exa') {
+        metadata.exaSources += 1;
+        metadata.exaCharacters += getSourceLength(source);
+      } else {
+        metadata.grokSources += 1;
+        metadata.grokCharacters += getSourceLength(source);
+      }
+      if (sourceId !== undefined) {
+        sourceIds.push(sourceId);
+      }
+    }
+
+    const queries = subQuestion.queries
+      .map(({ provider, query }) => `"${query}" (${provider === 'exa' ? 'Exa' : 'Grok'})`)
+      .join(', ');
+    const body = kept.length > 0
+      ? kept.map((source, sourceIndex) => formatSource(source, `${index + 1}.${sourceIndex + 1}`)).join('\n\n')
+      : 'No results found for this sub-question.';
+
+    return `## Sub-question ${index + 1}: ${subQuestion.question}\nWhy it matters: ${subQuestion.rationale}\nQueries: ${queries}\n\n${body}`;
+  });
+
+  const researchContext = `# Web Research by Sub-question\n\nThe research for this prediction was planned as the following sub-questions, each searched separately:\n\n${sections.join('\n\n---\n\n')}`;
+
+  const grokUsage = sumUsage(grokUsages);
+  const costItems: CostItem[] = [
+    {
+      stage: 'research:plan',
+      model,
+      promptTokens: planned.usage.promptTokens,
+      completionTokens: planned.usage.completionTokens,
+      costUsd: planned.costUsd,
+    },
+  ];
+  if (exaSuccess) {
+    costItems.push({ stage: 'research:exa', costUsd: exaCostUsd });
+  }
+  if (grokSuccess) {
+    costItems.push({
+      stage: 'research:grok',
+      model: MODEL_IDS.XAI_GROK_3_MINI,
+      promptTokens: grokUsage.promptTokens,
+      completionTokens: grokUsage.completionTokens,
+      costUsd: grokCostUsd,
+    });
+  }
+
+  logger.info({ question: market.question, ...metadata }, 'Planned research completed');
+
+  return {
+    success: true,
+    researchContext,
+    metadata,
+    costItems,
+    sourceIds,
+    plan: {
+      model,
+      subQuestions: subQuestions.map((subQuestion, index) => ({
+        question: subQuestion.question,
+        rationale: subQuestion.rationale,
+        queries: executed[index].map(query => query.record),
+        ...(merges.has(index) && { merge: merges.get(index) }),
+      })),
+      templates: planned.templates,
+    },
+  };
+}
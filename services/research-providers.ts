@@ -0,0 +1,295 @@
+import { logger } from '../utils/logger.js';
+import type { CostItem } from '../utils/cost.js';
+import { allocateCharacterBudget, type ResearchBudgetShare, type ResearchSourceData } from '../utils/research-context.js';
+import {
+  formatMergedResearchContext,
+  mergeResearchSources,
+  type SourceCandidate,
+  type SourceMergeSummary,
+} from '../utils/source-merge.js';
+import { isBudgetExceededError } from './budget.js';
+import { isReplayMode } from './llm-cache.js';
+import { findReusableResearchRun, saveResearchRun, toResearchSourceData } from './research-store.js';
+import { exaResearchProvider } from './exa-research.js';
+import { grokResearchProvider } from './grok-search.js';
+import { referenceClassResearchProvider } from './reference-class.js';
+
+/**
+ * Research Provider Registry
+ * Every research source (web search, our own database, ...) implements ResearchProvider and is
+ * registered here by ID. Experiments declare which providers they use and how the research
+ * context budget is split between them (ResearchConfig); runResearchProviders runs them in
+ * parallel and degrades per provider when one fails. Providers with toSources/fromSources are
+ * persisted to research_runs/research_sources and reused within a freshness window.
+ */
+
+export interface ResearchMarketContext {
+  id?: string; // Polymarket market ID
+  eventId?: string; // Gamma event ID
+  question: string;
+  description?: string;
+  closeTime?: string;
+  eventTitle?: string;
+}
+
+export interface ResearchQuery {
+  query: string;
+  market: ResearchMarketContext;
+  maxCharacters: number; // This provider's share of the context budget
+  asOf?: Date; // Run time: source recency and the reference-class cutoff are measured from it (default now)
+}
+
+export interface ResearchProviderResult<T> {
+  success: boolean;
+  items: T[]; // Results kept within maxCharacters
+  characters: number;
+  truncated: boolean;
+  costItems: CostItem[]; // Stage 'research:<provider id>'
+  metadata?: Record<string, unknown>; // Provider-specific summary stored with the prediction
+  error?: string;
+}
+
+export interface ResearchProvider<T = any> {
+  id: string;
+  name: string;
+  /** Searches the web; the research agent and planner replace these with their own queries */
+  webSearch: boolean;
+  search(query: ResearchQuery): Promise<ResearchProviderResult<T>>;
+  /** Full content for URLs found earlier */
+  contents?(urls: string[], options: { maxCharacters: number }): Promise<ResearchProviderResult<T>>;
+  /** Research context section for the prompt */
+  format(items: T[]): string;
+  /** Stored form of results; providers with toSources and fromSources are persisted and reused */
+  toSources?(items: T[]): ResearchSourceData[];
+  /** Results rebuilt from stored sources, leading sources kept within maxCharacters */
+  fromSources?(sources: ResearchSourceData[], maxCharacters: number): { items: T[]; characters: number };
+}
+
+/**
+ * Research providers an experiment uses and the total context budget they share
+ */
+export interface ResearchConfig {
+  maxCharacters: number;
+  providers: ResearchBudgetShare[]; // Budget split by relative share
+  /**
+   * Pool providers with toSources into one section: duplicates collapsed, sources ranked by
+   * relevance, recency and domain credibility within their combined share (utils/source-merge.ts)
+   */
+  mergeSources?: boolean;
+}
+
+/**
+ * Outcome of one provider in a research run (stored in enrichmentMetadata.providers)
+ */
+export interface ResearchProviderRun {
+  id: string;
+  success: boolean;
+  sources: number;
+  characters: number;
+  maxCharacters: number;
+  truncated: boolean;
+  runId?: string; // research_runs row (persisted providers)
+  reused?: boolean; // Served from a stored run instead of a new search
+  metadata?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface ResearchProvidersResult {
+  sections: Array<{ id: string; text: string }>; // Successful providers with results, in config order ('merged' for the pool)
+  runs: ResearchProviderRun[];
+  costItems: CostItem[];
+  sourceIds: number[]; // research_sources rows in the sections, in context order
+  merge?: SourceMergeSummary; // With config.mergeSources
+}
+
+export interface ResearchProvidersOptions {
+  store?: { maxAgeMs: number }; // Persist runs and reuse ones fetched within maxAgeMs (0 = never reuse)
+}
+
+const RESEARCH_PROVIDERS = new Map<string, ResearchProvider>(
+  [exaResearchProvider, grokResearchProvider, referenceClassResearchProvider].map(provider => [provider.id, provider])
+);
+
+export function getResearchProvider(id: string): ResearchProvider | undefined {
+  return RESEARCH_PROVIDERS.get(id);
+}
+
+export function getResearchProviderIds(): string[] {
+  return [...RESEARCH_PROVIDERS.keys()];
+}
+
+/**
+ * Register a research provider (replaces one with the same ID)
+ */
+export function registerResearchProvider(provider: ResearchProvider) {
+  RESEARCH_PROVIDERS.set(provider.id, provider);
+}
+
+interface ProviderSearch<T = any> {
+  result: ResearchProviderResult<T>;
+  runId?: string;
+  reused?: boolean;
+  sourceIds: number[]; // Parallel to result.items
+}
+
+/**
+ * Run one provider: reuse a fresh stored run if there is one, else search and store the run
+ * Storage failures are logged and never fail the research.
+ */
+async function searchProvider(
+  provider: ResearchProvider,
+  query: ResearchQuery,
+  options: ResearchProvidersOptions
+): Promise<ProviderSearch> {
+  // Replay mode re-runs from the response cache: stored runs are neither reused nor written
+  const persisted = !!provider.toSources && !!provider.fromSources && !!query.market.id && !isReplayMode();
+  const store = persisted ? options.store : undefined;
+
+  if (store) {
+    try {
+      const stored = await findReusableResearchRun(provider.id, query.query, query.market, store.maxAgeMs);
+      if (stored) {
+        const { items, characters } = provider.fromSources!(stored.sources.map(toResearchSourceData), query.maxCharacters);
+        logger.info(
+          { provider: provider.id, runId: stored.runId, fetchedAt: stored.fetchedAt, sources: items.length },
+          'Reusing stored research run'
+        );
+        return {
+          result: { success: true, items, characters, truncated: items.length < stored.sources.length, costItems: [] },
+          runId: stored.runId,
+          reused: true,
+          sourceIds: stored.sources.slice(0, items.length).map(source => source.id),
+        };
+      }
+    } catch (error) {
+      logger.warn({ provider: provider.id, error: error instanceof Error ? error.message : String(error) }, 'Research run lookup failed');
+    }
+  }
+
+  const result = await provider.search(query);
+  if (!store) {
+    return { result, sourceIds: [] };
+  }
+
+  return { result, ...(await storeResearchRun(provider, query.query, query.market, result)) };
+}
+
+/**
+ * Store one run of a provider with toSources, e.g. a research agent or planner query
+ * Skipped in replay mode and for markets without an ID; storage failures are logged and never
+ * fail the research. Source IDs are parallel to result.items.
+ */
+export async function storeResearchRun<T>(
+  provider: ResearchProvider<T>,
+  query: string,
+  market: ResearchMarketContext,
+  result: ResearchProviderResult<T>
+): Promise<{ runId?: string; sourceIds: number[] }> {
+  if (!provider.toSources || !market.id || isReplayMode()) {
+    return { sourceIds: [] };
+  }
+
+  try {
+    return await saveResearchRun(provider.id, query, market, result, provider.toSources(result.items));
+  } catch (error) {
+    logger.warn({ provider: provider.id, error: error instanceof Error ? error.message : String(error) }, 'Failed to save research run');
+    return { sourceIds: [] };
+  }
+}
+
+/**
+ * Run every provider in a research config in parallel, each within its share of the budget
+ * A provider that fails (or is not registered) is recorded and skipped; budget errors propagate.
+ */
+export async function runResearchProviders(
+  config: ResearchConfig,
+  query: Omit<ResearchQuery, 'maxCharacters'>,
+  options: ResearchProvidersOptions = {}
+): Promise<ResearchProvidersResult> {
+  const isPooled = (id: string) => !!config.mergeSources && !!getResearchProvider(id)?.toSources;
+  const allocations = allocateCharacterBudget(config.maxCharacters, config.providers);
+  const pooledCharacters = allocations
+    .filter(({ id }) => isPooled(id))
+    .reduce((sum, { maxCharacters }) => sum + maxCharacters, 0);
+
+  // Pooled providers each search with the whole pool; the merge decides what fits
+  const results = await Promise.all(
+    allocations.map(async allocation => {
+      const { id } = allocation;
+      const maxCharacters = isPooled(id) ? pooledCharacters : allocation.maxCharacters;
+      const provider = getResearchProvider(id);
+      if (!provider) {
+        return { id, provider, maxCharacters, search: undefined, error: `Unknown research provider: ${id}` };
+      }
+
+      try {
+        const search = await searchProvider(provider, { ...query, maxCharacters }, options);
+        return { id, provider, maxCharacters, search, error: search.result.success ? undefined : search.result.error };
+      } catch (error) {
+        if (isBudgetExceededError(error)) {
+          throw error;
+        }
+        return { id, provider, maxCharacters, search: undefined, error: error instanceof Error ? error.message : String(error) };
+      }
+    })
+  );
+
+  const runs: ResearchProviderRun[] = results.map(({ id, maxCharacters, search, error }) => ({
+    id,
+    success: !error && !!search?.result.success,
+    sources: search?.result.items.length ?? 0,
+    characters: search?.result.characters ?? 0,
+    maxCharacters,
+    truncated: search?.result.truncated ?? false,
+    ...(search?.runId && { runId: search.runId }),
+    ...(search?.reused && { reused: true }),
+    ...(search?.result.metadata && { metadata: search.result.metadata }),
+    ...(error && { error }),
+  }));
+
+  for (const run of runs.filter(run => run.error)) {
+    logger.warn({ provider: run.id, error: run.error }, 'Research provider failed - continuing without it');
+  }
+
+  const included = results.filter(({ search }) => search?.result.success && search.result.items.length > 0);
+  const pooled = included.filter(({ id }) => isPooled(id));
+  const merged = pooled.length > 0
+    ? mergeResearchSources(
+        pooled.flatMap(({ id, provider, search }): SourceCandidate[] =>
+          provider!.toSources!(search!.result.items).map((source, rank) => ({
+            provider: id,
+            rank,
+            source,
+            sourceId: search!.sourceIds[rank],
+          }))
+        ),
+        { maxCharacters: pooledCharacters, endDate: query.market.closeTime, now: query.asOf }
+      )
+    : undefined;
+
+  if (merged) {
+    logger.info({ ...merged.summary }, 'Merged research sources across providers');
+  }
+
+  // The merged section takes the place of the first pooled provider
+  const sections: ResearchProvidersResult['sections'] = [];
+  const sourceIds: number[] = [];
+  for (const { id, provider, search } of included) {
+    if (!isPooled(id)) {
+      sections.push({ id, text: provider!.format(search!.result.items) });
+      sourceIds.push(...search!.sourceIds);
+    } else if (merged && merged.sources.length > 0 && id === pooled[0].id) {
+      const names = Object.fromEntries(pooled.map(({ id, provider }) => [id, provider!.name]));
+      sections.push({ id: 'merged', text: formatMergedResearchContext(merged.sources, names) });
+      sourceIds.push(...merged.sources.flatMap(source => (source.sourceId !== undefined ? [source.sourceId] : [])));
+    }
+  }
+
+  return {
+    sections,
+    runs,
+    costItems: results.flatMap(({ search }) => search?.result.costItems ?? []),
+    sourceIds,
+    ...(merged && { merge: merged.summary }),
+  };
+}
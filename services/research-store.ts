@@ -0,0 +1,153 @@
+import { db, predictionResearchSources, researchRuns, researchSources, type ResearchSource } from '../db/index.js';
+import { and, asc, desc, eq, gte, gt, or, sql } from 'drizzle-orm';
+import { logger } from '../utils/logger.js';
+import type { ResearchSourceData } from '../utils/research-context.js';
+import type { ResearchMarketContext, ResearchProviderResult } from './research-providers.js';
+
+/**
+ * Research Store Service
+ * Persists research provider runs and every source they returned, links predictions to the
+ * sources in their prompt, and finds fresh runs to reuse instead of paying for the search again.
+ */
+
+export const DEFAULT_RESEARCH_MAX_AGE_HOURS = 6;
+
+export interface StoredResearchRun {
+  runId: string;
+  fetchedAt: Date;
+  sources: ResearchSource[]; // In provider order
+}
+
+/**
+ * Convert a stored source row back to provider-neutral source data
+ */
+export function toResearchSourceData(row: ResearchSource): ResearchSourceData {
+  return {
+    url: row.url,
+    title: row.title ?? undefined,
+    publishedDate: row.publishedDate ?? undefined,
+    author: row.author ?? undefined,
+    source: row.source ?? undefined,
+    summary: row.summary ?? undefined,
+    text: row.text ?? undefined,
+    highlights: (row.highlights as string[] | null) ?? undefined,
+    score: row.score ?? undefined,
+  };
+}
+
+/**
+ * Find the latest successful run of a provider for the same query fetched within maxAgeMs, for
+ * this market or another market in its event. Runs for the market itself win over runs for the
+ * event. Only the same query is reused, so a sibling market asking a different question searches
+ * for itself.
+ */
+export async function findReusableResearchRun(
+  provider: string,
+  query: string,
+  market: ResearchMarketContext,
+  maxAgeMs: number
+): Promise<StoredResearchRun | null> {
+  if (!market.id || maxAgeMs <= 0) {
+    return null;
+  }
+
+  const sameMarket = eq(researchRuns.marketId, market.id);
+  const [run] = await db
+    .select()
+    .from(researchRuns)
+    .where(
+      and(
+        eq(researchRuns.provider, provider),
+        eq(researchRuns.query, query),
+        eq(researchRuns.success, true),
+        gt(researchRuns.sourceCount, 0),
+        gte(researchRuns.fetchedAt, new Date(Date.now() - maxAgeMs)),
+        market.eventId ? or(sameMarket, eq(researchRuns.eventId, market.eventId)) : sameMarket
+      )
+    )
+    .orderBy(desc(sql`${sameMarket}`), desc(researchRuns.fetchedAt))
+    .limit(1);
+
+  if (!run) {
+    return null;
+  }
+
+  const sources = await db
+    .select()
+    .from(researchSources)
+    .where(eq(researchSources.runId, run.id))
+    .orderBy(asc(researchSources.position));
+
+  return { runId: run.id, fetchedAt: run.fetchedAt, sources };
+}
+
+/**
+ * Save a provider run and its sources
+ * Returns the run ID and source IDs in result order.
+ */
+export async function saveResearchRun(
+  provider: string,
+  query: string,
+  market: ResearchMarketContext,
+  result: ResearchProviderResult<unknown>,
+  sources: ResearchSourceData[]
+): Promise<{ runId: string; sourceIds: number[] }> {
+  const [run] = await db
+    .insert(researchRuns)
+    .values({
+      marketId: market.id!,
+      eventId: market.eventId,
+      provider,
+      query,
+      success: result.success,
+      error: result.error,
+      sourceCount: sources.length,
+      characters: result.characters,
+      truncated: result.truncated,
+      costUsd: result.costItems.some(item => item.costUsd === null)
+        ? null
+        : result.costItems.reduce((sum, item) => sum + item.costUsd!, 0),
+    })
+    .returning();
+
+  const rows = sources.length > 0
+    ? await db
+        .insert(researchSources)
+        .values(
+          sources.map((source, position) => ({
+            runId: run.id,
+            position,
+            url: source.url,
+            title: source.title,
+            publishedDate: source.publishedDate,
+            author: source.author,
+            source: source.source,
+            summary: source.summary,
+            text: source.text,
+            highlights: source.highlights,
+            score: source.score,
+          }))
+        )
+        .returning({ id: researchSources.id, position: researchSources.position })
+    : [];
+
+  logger.debug({ runId: run.id, provider, sources: rows.length }, 'Saved research run');
+
+  return {
+    runId: run.id,
+    sourceIds: rows.sort((a, b) => a.position - b.position).map(row => row.id),
+  };
+}
+
+/**
+ * Record which research sources went into a prediction's prompt, in context order
+ */
+export async function linkPredictionSources(predictionId: string, sourceIds: number[]) {
+  if (sourceIds.length === 0) {
+    return;
+  }
+
+  await db
+    .insert(predictionResearchSources)
+    .values(sourceIds.map((sourceId, position) => ({ predictionId, sourceId, position })));
+}
@@ -0,0 +1,331 @@
+import { db, predictions, marketResolutions, rawMarkets, type MarketResolution } from '../db/index.js';
+import { and, eq, isNotNull } from 'drizzle-orm';
+import { logger } from '../utils/logger.js';
+import { summarizeScores, type ScoreSummary, type ScoredForecast } from '../utils/scoring.js';
+import { summarizeAnchoring, type AnchoringPair, type AnchoringSummary } from '../utils/anchoring.js';
+import {
+  getCanonicalPrediction,
+  normalizePrediction,
+  type CanonicalPrediction,
+  type OutcomeProbability,
+} from './prediction-record.js';
+import { getPriceAtTime } from './market-price-history.js';
+
+/**
+ * Score Report Service
+ * Joins predictions with resolved outcomes and scores them against the market-price baseline.
+ * Binary markets are scored on the YES probability, categorical markets over every outcome.
+ */
+
+export type ScoreDimension = 'overall' | 'experiment' | 'model' | 'category';
+
+export interface ScoreGroup {
+  dimension: ScoreDimension;
+  key: string;
+  forecast: ScoreSummary; // All resolved predictions in the group
+  market: ScoreSummary; // Market price at prediction time, where it was captured
+  brierVsMarket: number | null; // Forecast minus market Brier on the same predictions (negative = beats market)
+}
+
+export interface ScoreReport {
+  generatedAt: string;
+  resolvedPredictions: number;
+  skippedPredictions: number;
+  groups: ScoreGroup[];
+  anchoring: AnchoringSummary; // Predictions with both anchored and blind probabilities (--price-mode both)
+}
+
+interface ScoredPrediction {
+  predictionId: string;
+  experimentId: string;
+  model: string;
+  category: string;
+  forecast: ScoredForecast;
+  market: ScoredForecast | null; // Market price(s) at prediction time, where captured
+}
+
+/**
+ * Get a market category from the raw Gamma payload (category field, then first tag)
+ */
+function getMarketCategory(data: any): string {
+  if (typeof data?.category === 'string' && data.category.trim().length > 0) {
+    return data.category;
+  }
+
+  const tag = Array.isArray(data?.tags) ? data.tags.find((t: any) => t?.label) : undefined;
+  return tag?.label || 'Uncategorized';
+}
+
+/**
+ * Index of the winning outcome in a categorical distribution: by label, else by market outcome
+ * index (distributions are stored in market outcome order); null if it is not in the distribution
+ */
+function getResolvedIndex(entries: OutcomeProbability[], resolution: MarketResolution): number | null {
+  const byLabel = entries.findIndex(entry => entry.outcome === resolution.resolvedOutcome);
+  if (byLabel >= 0) return byLabel;
+  const index = resolution.resolvedOutcomeIndex;
+  return index !== null && index < entries.length ? index : null;
+}
+
+/**
+ * Market prices of a categorical distribution rescaled to sum to 1, null unless every outcome has one
+ */
+function getMarketDistribution(entries: OutcomeProbability[]): number[] | null {
+  const prices = entries.map(entry => entry.marketPrice);
+  if (!prices.every((price): price is number => typeof price === 'number')) return null;
+  const total = prices.reduce((sum, price) => sum + price, 0);
+  return total > 0 ? prices.map(price => price / total) : null;
+}
+
+/**
+ * Score a prediction against its resolution: categorical markets over every outcome, binary markets
+ * on the YES probability (or an override, e.g. the event-normalized probability, which is always
+ * scored as binary); null when the winning outcome is not in the distribution
+ */
+function toScoredForecast(
+  prediction: CanonicalPrediction,
+  resolution: MarketResolution,
+  probabilityOverride?: number | null
+): ScoredForecast | null {
+  const entries = prediction.outcomeProbabilities;
+  if (entries && probabilityOverride == null) {
+    const resolvedIndex = getResolvedIndex(entries, resolution);
+    return resolvedIndex !== null
+      ? { probabilities: entries.map(entry => entry.probability / 100), resolvedIndex }
+      : null;
+  }
+
+  return {
+    probability: (probabilityOverride ?? prediction.probability) / 100,
+    outcome: resolution.resolvedOutcomeIndex === 0 ? 1 : 0,
+  };
+}
+
+/**
+ * Score a group of predictions
+ */
+function scoreGroup(dimension: ScoreDimension, key: string, rows: ScoredPrediction[]): ScoreGroup {
+  const withBaseline = rows.filter(row => row.market !== null);
+
+  const market = summarizeScores(withBaseline.map(row => row.market!));
+  const forecastOnBaseline = summarizeScores(withBaseline.map(row => row.forecast));
+
+  return {
+    dimension,
+    key,
+    forecast: summarizeScores(rows.map(row => row.forecast)),
+    market,
+    brierVsMarket:
+      forecastOnBaseline.brierScore !== null && market.brierScore !== null
+        ? forecastOnBaseline.brierScore - market.brierScore
+        : null,
+  };
+}
+
+/**
+ * Group predictions by a dimension and score each group
+ */
+function scoreBy(
+  dimension: ScoreDimension,
+  rows: ScoredPrediction[],
+  getKey: (row: ScoredPrediction) => string
+): ScoreGroup[] {
+  const grouped = new Map<string, ScoredPrediction[]>();
+  for (const row of rows) {
+    const key = getKey(row);
+    grouped.set(key, [...(grouped.get(key) ?? []), row]);
+  }
+
+  return [...grouped.entries()]
+    .map(([key, groupRows]) => scoreGroup(dimension, key, groupRows))
+    .sort((a, b) => (a.forecast.brierScore ?? Infinity) - (b.forecast.brierScore ?? Infinity));
+}
+
+/**
+ * Anchored, blind and market distributions of a categorical --price-mode both prediction, in the
+ * order of the stored outcome probabilities; null for binary markets or without every price
+ * The anchored forecast is the one before any critique (debate.initial), like anchored_probability.
+ */
+function getCategoricalPair(payload: any, entries: OutcomeProbability[] | null) {
+  const anchored: OutcomeProbability[] | undefined = (payload?.debate?.initial ?? payload)?.outcomeProbabilities;
+  const blind: OutcomeProbability[] | undefined = payload?.blind?.outcomeProbabilities;
+  const market = entries ? getMarketDistribution(entries) : null;
+  if (!entries || !anchored || !blind || !market) {
+    return null;
+  }
+
+  const byOutcome = (distribution: OutcomeProbability[]) =>
+    entries.map(({ outcome }) => (distribution.find(entry => entry.outcome === outcome)?.probability ?? 0) / 100);
+  return { entries, distributions: { anchored: byOutcome(anchored), blind: byOutcome(blind), market } };
+}
+
+/**
+ * Collect anchored/blind probability pairs, with outcomes where the market has resolved
+ * Unlike the score groups this includes unresolved markets: anchoring bias needs no outcome.
+ */
+async function getAnchoringPairs(experimentId?: string): Promise<AnchoringPair[]> {
+  const rows = await db
+    .select({
+      anchoredProbability: predictions.anchoredProbability,
+      blindProbability: predictions.blindProbability,
+      marketProbability: predictions.marketProbability,
+      prediction: predictions.prediction,
+      outcomeProbabilities: predictions.outcomeProbabilities,
+      resolution: marketResolutions,
+    })
+    .from(predictions)
+    .leftJoin(marketResolutions, eq(predictions.marketId, marketResolutions.marketId))
+    .where(
+      and(
+        isNotNull(predictions.anchoredProbability),
+        isNotNull(predictions.blindProbability),
+        isNotNull(predictions.marketProbability),
+        experimentId ? eq(predictions.experimentId, experimentId) : undefined
+      )
+    );
+
+  return rows.map(row => {
+    const resolved = row.resolution?.status === 'RESOLVED' && row.resolution.resolvedOutcomeIndex !== null;
+    const categorical = getCategoricalPair(row.prediction, row.outcomeProbabilities as OutcomeProbability[] | null);
+    const resolvedIndex = categorical && resolved ? getResolvedIndex(categorical.entries, row.resolution!) : null;
+    return {
+      anchored: row.anchoredProbability! / 100,
+      blind: row.blindProbability! / 100,
+      market: row.marketProbability!,
+      ...(resolved && { outcome: row.resolution!.resolvedOutcomeIndex === 0 ? (1 as const) : (0 as const) }),
+      ...(categorical && {
+        categorical: { ...categorical.distributions, ...(resolvedIndex !== null && { resolvedIndex }) },
+      }),
+    };
+  });
+}
+
+/**
+ * Build a scoring report over all predictions whose market has resolved
+ *
+ * @param options.experimentId - Only score predictions from this experiment
+ * @param options.eventNormalized - Score event-wide runs by their event-normalized probability
+ */
+export async function buildScoreReport(
+  options: { experimentId?: string; eventNormalized?: boolean } = {}
+): Promise<ScoreReport> {
+  const rows = await db
+    .select({
+      prediction: predictions,
+      resolution: marketResolutions,
+      rawMarket: rawMarkets,
+    })
+    .from(predictions)
+    .innerJoin(marketResolutions, eq(predictions.marketId, marketResolutions.marketId))
+    .leftJoin(rawMarkets, eq(predictions.marketId, rawMarkets.marketId))
+    .where(
+      and(
+        eq(marketResolutions.status, 'RESOLVED'),
+        options.experimentId ? eq(predictions.experimentId, options.experimentId) : undefined
+      )
+    );
+
+  const scored: ScoredPrediction[] = [];
+  let skippedPredictions = 0;
+
+  for (const row of rows) {
+    const canonical = getCanonicalPrediction(row.prediction);
+    if (!canonical.success || !canonical.value || row.resolution.resolvedOutcomeIndex === null) {
+      skippedPredictions++;
+      continue;
+    }
+
+    const forecast = toScoredForecast(
+      canonical.value,
+      row.resolution,
+      options.eventNormalized ? canonical.value.normalizedProbability : null
+    );
+    if (!forecast) {
+      skippedPredictions++;
+      continue;
+    }
+
+    // Baseline: categorical markets use the stored outcome prices; binary markets the price
+    // captured with the prediction, else the price history at prediction time
+    let market: ScoredForecast | null;
+    if ('probabilities' in forecast) {
+      const marketDistribution = getMarketDistribution(canonical.value.outcomeProbabilities!);
+      market = marketDistribution && { probabilities: marketDistribution, resolvedIndex: forecast.resolvedIndex };
+    } else {
+      const marketProbability =
+        row.prediction.marketProbability ??
+        (await getPriceAtTime(row.resolution.marketId, row.prediction.createdAt))?.yesPrice ??
+        null;
+      market = marketProbability !== null ? { probability: marketProbability, outcome: forecast.outcome } : null;
+    }
+
+    scored.push({
+      predictionId: row.prediction.id,
+      experimentId: row.prediction.experimentId,
+      model: row.prediction.model || 'unknown',
+      category: getMarketCategory(row.rawMarket?.data),
+      forecast,
+      market,
+    });
+  }
+
+  logger.info(
+    { resolvedPredictions: scored.length, skippedPredictions, experimentId: options.experimentId },
+    'Built score report'
+  );
+
+  return {
+    generatedAt: new Date().toISOString(),
+    resolvedPredictions: scored.length,
+    skippedPredictions,
+    groups: [
+      scoreGroup('overall', 'all', scored),
+      ...scoreBy('experiment', scored, row => row.experimentId),
+      ...scoreBy('model', scored, row => row.model),
+      ...scoreBy('category', scored, row => row.category),
+    ],
+    anchoring: summarizeAnchoring(await getAnchoringPairs(options.experimentId)),
+  };
+}
+
+/**
+ * Score each model over its resolved predictions, counting every ensemble member's own
+ * prediction (prediction.ensemble.members) under the member's model as well
+ * Ensemble rows are saved under the aggregate ('ensemble:<aggregator>'), so without the members
+ * a model that only ever ran inside an ensemble would have no history.
+ */
+export async function getModelScores(): Promise<Map<string, ScoreSummary>> {
+  const rows = await db
+    .select({ prediction: predictions, resolution: marketResolutions })
+    .from(predictions)
+    .innerJoin(marketResolutions, eq(predictions.marketId, marketResolutions.marketId))
+    .where(eq(marketResolutions.status, 'RESOLVED'));
+
+  const forecasts = new Map<string, ScoredForecast[]>();
+  const add = (model: string, forecast: ScoredForecast | null) => {
+    if (forecast) {
+      forecasts.set(model, [...(forecasts.get(model) ?? []), forecast]);
+    }
+  };
+
+  for (const row of rows) {
+    if (row.resolution.resolvedOutcomeIndex === null) {
+      continue;
+    }
+
+    const canonical = getCanonicalPrediction(row.prediction);
+    if (canonical.value) {
+      add(row.prediction.model || 'unknown', toScoredForecast(canonical.value, row.resolution));
+    }
+
+    const members = (row.prediction.prediction as any)?.ensemble?.members;
+    for (const member of Array.isArray(members) ? members : []) {
+      const memberPrediction = normalizePrediction(member?.prediction).value;
+      if (memberPrediction && typeof member.model === 'string') {
+        add(member.model, toScoredForecast(memberPrediction, row.resolution));
+      }
+    }
+  }
+
+  return new Map([...forecasts.entries()].map(([model, modelForecasts]) => [model, summarizeScores(modelForecasts)]));
+}
@@ -0,0 +1,200 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { logger } from '../utils/logger.js';
+import { supportsStructuredOutput } from '../config/models.js';
+import {
+  getLlmClient,
+  sumUsage,
+  type LlmClient,
+  type LlmMessage,
+  type LlmRequest,
+  type LlmResponse,
+  type LlmUsage,
+} from './llm-client.js';
+import { isBudgetExceededError } from './budget.js';
+
+/**
+ * Structured Output Service
+ * Requests JSON that validates against a Zod schema: native response_format where the
+ * model supports it, then a bounded repair loop that feeds validation errors back.
+ */
+
+const DEFAULT_MAX_REPAIRS = 2;
+
+export interface StructuredOutputRequest<S extends z.ZodTypeAny> extends Omit<LlmRequest, 'responseFormat'> {
+  schema: S;
+  schemaName: string;
+  maxRepairs?: number; // Extra attempts after the first invalid response
+  client?: LlmClient;
+}
+
+/**
+ * One model response and how it fared against the schema
+ */
+export interface StructuredOutputAttempt {
+  attempt: number;
+  content: string;
+  error: string | null; // Validation error fed back to the model, null for the accepted attempt
+  usage: LlmUsage;
+  costUsd: number | null;
+  raw: any;
+}
+
+export interface StructuredOutputResult<T> {
+  value: T;
+  model: string;
+  nativeStructuredOutput: boolean;
+  attempts: StructuredOutputAttempt[];
+  usage: LlmUsage; // Summed over all attempts
+  costUsd: number | null; // Summed over all attempts, null if any attempt was unpriced
+}
+
+/**
+ * Raised when no attempt produced a valid response; carries every attempt for auditing
+ */
+export interface StructuredOutputError extends Error {
+  attempts: StructuredOutputAttempt[];
+}
+
+/**
+ * Create a StructuredOutputError
+ */
+export function createStructuredOutputError(message: string, attempts: StructuredOutputAttempt[]): StructuredOutputError {
+  return Object.assign(new Error(message), { attempts });
+}
+
+/**
+ * Whether an error is a StructuredOutputError
+ */
+export function isStructuredOutputError(error: unknown): error is StructuredOutputError {
+  return error instanceof Error && Array.isArray((error as StructuredOutputError).attempts);
+}
+
+/**
+ * Parse JSON from a model response, tolerating markdown code fences
+ */
+export function extractJson(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
+  return JSON.parse(fenced ? fenced[1].trim() : content.trim());
+}
+
+/**
+ * Describe a parse or validation failure in a form the model can act on
+ */
+export function formatValidationError(error: unknown): string {
+  if (error instanceof z.ZodError) {
+    return error.issues
+      .map(issue => `- ${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+      .join('\n');
+  }
+  if (error instanceof SyntaxError) {
+    return `- Response is not valid JSON: ${error.message}`;
+  }
+  return `- ${error instanceof Error ? error.message : String(error)}`;
+}
+
+/**
+ * Validate a model response against a schema
+ */
+export function parseStructuredContent<T>(
+  content: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): { success: true; value: T } | { success: false; error: string } {
+  try {
+    return { success: true, value: schema.parse(extractJson(content)) };
+  } catch (error) {
+    return { success: false, error: formatValidationError(error) };
+  }
+}
+
+/**
+ * Build the follow-up message asking the model to fix an invalid response
+ */
+function buildRepairMessage(error: string): string {
+  return `Your previous response did not match the required JSON schema:
+${error}
+
+Respond again with ONLY the corrected JSON object. Keep your analysis, fix only the listed problems.`;
+}
+
+/**
+ * Complete a request whose response must validate against a Zod schema
+ * Each invalid response is sent back with its validation errors, up to maxRepairs times.
+ *
+ * @throws StructuredOutputError when every attempt is invalid, or a repair call fails after paid attempts
+ */
+export async function completeStructured<S extends z.ZodTypeAny>(
+  request: StructuredOutputRequest<S>
+): Promise<StructuredOutputResult<z.infer<S>>> {
+  const { schema, schemaName, maxRepairs = DEFAULT_MAX_REPAIRS, client = getLlmClient(), ...llmRequest } = request;
+
+  const nativeStructuredOutput = supportsStructuredOutput(llmRequest.model);
+  const responseFormat = nativeStructuredOutput
+    ? {
+        type: 'json_schema' as const,
+        name: schemaName,
+        schema: zodToJsonSchema(schema, { target: 'openAi', $refStrategy: 'none' }) as Record<string, unknown>,
+      }
+    : undefined;
+
+  const messages: LlmMessage[] = [...llmRequest.messages];
+  const attempts: StructuredOutputAttempt[] = [];
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    let response: LlmResponse;
+    try {
+      response = await client.complete({ ...llmRequest, messages, responseFormat });
+    } catch (error) {
+      // A repair call that fails outright still leaves the earlier attempts paid for
+      if (attempts.length === 0 || isBudgetExceededError(error)) {
+        throw error;
+      }
+      throw createStructuredOutputError(
+        `${schemaName} repair attempt ${attempt} failed: ${error instanceof Error ? error.message : String(error)}`,
+        attempts
+      );
+    }
+    const parsed = parseStructuredContent<z.infer<S>>(response.content, schema);
+
+    attempts.push({
+      attempt,
+      content: response.content,
+      error: parsed.success ? null : parsed.error,
+      usage: response.usage,
+      costUsd: response.costUsd,
+      raw: response.raw,
+    });
+
+    if (parsed.success) {
+      if (attempt > 1) {
+        logger.info({ schemaName, model: llmRequest.model, attempts: attempt }, 'Structured output repaired');
+      }
+
+      return {
+        value: parsed.value,
+        model: response.model,
+        nativeStructuredOutput,
+        attempts,
+        usage: sumUsage(attempts.map(item => item.usage)),
+        costUsd: attempts.some(item => item.costUsd === null)
+          ? null
+          : attempts.reduce((sum, item) => sum + item.costUsd!, 0),
+      };
+    }
+
+    logger.warn(
+      { schemaName, model: llmRequest.model, attempt, maxAttempts: maxRepairs + 1, error: parsed.error },
+      'Structured output failed validation'
+    );
+
+    messages.push(
+      { role: 'assistant', content: response.content },
+      { role: 'user', content: buildRepairMessage(parsed.error) }
+    );
+  }
+
+  throw createStructuredOutputError(
+    `Response failed ${schemaName} validation after ${attempts.length} attempts:\n${attempts[attempts.length - 1].error}`,
+    attempts
+  );
+}
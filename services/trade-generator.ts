@@ -3,6 +3,8 @@ import { db } from '../db/index.js';
 import { predictions } from '../db/schema.js';
 import { eq } from 'drizzle-orm';
 import { fetchMarketById, extractTokenIdForOutcome, type PolymarketMarket } from './polymarket.js';
+import { getCanonicalPrediction } from './prediction-record.js';
+import { calculateOutcomeDeltas, parseMarketOutcomes, type OutcomeDelta } from '../utils/market-utils.js';
 import {
   calculateTradeStrategy,
   validateTradeOpportunity,
@@ -18,6 +20,8 @@ import {
  * - Added 'notes' field at the TradePlan level (not per-trade)
  * - Changed 'marketId' to 'marketTokenId' (ERC1155 token ID for specific outcome)
  * - marketTokenId is the CLOB token ID used by Polymarket's order book
+ *
+ * Trade outcomes are 'YES' | 'NO' for binary markets and the market's outcome label for categorical markets.
  */
 export interface TradePlan {
   planId: string;
@@ -25,7 +29,7 @@ export interface TradePlan {
   notes?: string; // Optional plan-level notes about rationale, strategy, or context
   trades: Array<{
     marketTokenId: string; // CLOB token ID (not market ID)
-    outcome: 'YES' | 'NO';
+    outcome: string;
     side: 'BUY' | 'SELL';
     orderType: 'MARKET' | 'LIMIT';
     size: number;
@@ -52,6 +56,7 @@ export interface GenerateTradeResult {
     confidence: number;
     outcome: string;
     strategyUsed: string;
+    outcomeDeltas?: OutcomeDelta[]; // Categorical markets only
   };
 }
 
@@ -60,7 +65,7 @@ export interface GenerateTradeResult {
  * outcomePrices is a stringified JSON array like '["0.6234", "0.3766"]'
  * Index 0 = YES price, Index 1 = NO price
  */
-function extractMarketPrice(market: PolymarketMarket, outcome: 'YES' | 'NO'): number {
+function extractMarketPrice(market: PolymarketMarket, outcome: string): number {
   if (!market.outcomePrices) {
     throw new Error('Market does not have outcomePrices data');
   }
@@ -112,19 +117,18 @@ export async function generateTrade(input: GenerateTradeInput): Promise<Generate
 
     contextLogger.info({ marketId: prediction.marketId }, 'Fetched prediction from database');
 
-    // 2. Extract prediction data
-    const predictionData = prediction.prediction as any;
-    const outcome = predictionData.prediction?.outcome;
-    const probability = predictionData.prediction?.probability;
-    const confidence = predictionData.prediction?.confidence;
+    // 2. Extract canonical prediction data
+    const canonical = getCanonicalPrediction(prediction);
 
-    if (!outcome || typeof probability !== 'number' || typeof confidence !== 'number') {
+    if (!canonical.success || !canonical.value) {
       return {
         success: false,
-        error: 'Invalid prediction data format',
+        error: `Invalid prediction data format: ${canonical.error}`,
       };
     }
 
+    const { outcome, probability, confidence } = canonical.value;
+
     // 3. Check for UNCERTAIN predictions
     if (outcome === 'UNCERTAIN') {
       return {
@@ -145,16 +149,40 @@ export async function generateTrade(input: GenerateTradeInput): Promise<Generate
     const market = await fetchMarketById(prediction.marketId);
     contextLogger.info('Successfully fetched market data');
 
-    // 5. Extract current market price
-    const currentMarketPrice = extractMarketPrice(market, outcome);
-    contextLogger.info({ currentMarketPrice, outcome }, 'Extracted current market price');
+    // 5. Extract current market prices (per outcome for categorical predictions)
+    let currentMarketPrice: number;
+    let outcomeDeltas: OutcomeDelta[] | undefined;
+
+    if (canonical.value.outcomeProbabilities) {
+      const marketOutcomes = parseMarketOutcomes(market);
+      if (!marketOutcomes.success || !marketOutcomes.value) {
+        throw new Error(`Failed to parse market outcomes: ${marketOutcomes.error}`);
+      }
+
+      outcomeDeltas = calculateOutcomeDeltas(marketOutcomes.value, canonical.value.outcomeProbabilities);
+      const predicted = outcomeDeltas.find(delta => delta.outcome === outcome);
+      if (!predicted || predicted.marketPrice === null) {
+        throw new Error(`Predicted outcome ${outcome} not found in market outcomes`);
+      }
+      currentMarketPrice = predicted.marketPrice;
+    } else {
+      currentMarketPrice = extractMarketPrice(market, outcome);
+    }
+    contextLogger.info({ currentMarketPrice, outcome, outcomeDeltas }, 'Extracted current market price');
 
     // 6. Validate trade opportunity
     const strategyInput: StrategyInput = {
-      predictionProbability: probability,
+      predictionProbability: outcomeDeltas?.find(delta => delta.outcome === outcome)?.probability ?? probability,
       currentMarketPrice,
       confidence,
       outcome,
+      outcomes: outcomeDeltas
+        ?.filter(delta => delta.marketPrice !== null)
+        .map(delta => ({
+          outcome: delta.outcome,
+          predictionProbability: delta.probability,
+          marketPrice: delta.marketPrice!,
+        })),
     };
 
     const validation = validateTradeOpportunity(strategyInput, minDeltaPercent);
@@ -166,12 +194,13 @@ export async function generateTrade(input: GenerateTradeInput): Promise<Generate
         metadata: {
           predictionId,
           marketId: prediction.marketId,
-          predictionProbability: probability,
+          predictionProbability: strategyInput.predictionProbability,
           currentMarketPrice,
           delta: validation.delta || 0,
           confidence,
           outcome,
           strategyUsed: strategyName,
+          outcomeDeltas,
         },
       };
     }
@@ -192,7 +221,7 @@ export async function generateTrade(input: GenerateTradeInput): Promise<Generate
       notes: strategy.reasoning, // Plan-level notes with strategy reasoning
       trades: strategy.trades.map((trade) => {
         // Extract the correct token ID for this outcome
-        const marketTokenId = extractTokenIdForOutcome(market.clobTokenIds, trade.outcome);
+        const marketTokenId = extractTokenIdForOutcome(market.clobTokenIds, trade.outcome, market.outcomes);
 
         return {
           marketTokenId,
@@ -213,12 +242,13 @@ export async function generateTrade(input: GenerateTradeInput): Promise<Generate
       metadata: {
         predictionId,
         marketId: prediction.marketId,
-        predictionProbability: probability,
+        predictionProbability: strategyInput.predictionProbability,
         currentMarketPrice,
         delta: validation.delta!,
         confidence,
         outcome,
         strategyUsed: strategy.strategyName,
+        outcomeDeltas,
       },
     };
   } catch (error) {
@@ -4,16 +4,23 @@ import { logger } from '../utils/logger.js';
  * Trade strategy configuration and calculation utilities
  */
 
+export interface OutcomeStrategyInput {
+  outcome: string; // Market outcome label
+  predictionProbability: number; // 0-100
+  marketPrice: number; // 0-1
+}
+
 export interface StrategyInput {
   predictionProbability: number; // 0-100
   currentMarketPrice: number; // 0-1
   confidence: number; // 0-100
-  outcome: 'YES' | 'NO';
+  outcome: string; // 'YES' | 'NO' for binary markets, predicted label for categorical markets
+  outcomes?: OutcomeStrategyInput[]; // Categorical markets: full distribution vs market prices
 }
 
 export interface StrategyOutput {
   trades: Array<{
-    outcome: 'YES' | 'NO';
+    outcome: string; // 'YES' | 'NO' or market outcome label
     side: 'BUY' | 'SELL';
     orderType: 'MARKET' | 'LIMIT';
     size: number;
@@ -48,6 +55,10 @@ export interface StrategyOutput {
  * Lower AI confidence = more conservative target (captures less, exits earlier)
  */
 export function takeProfitStrategy(input: StrategyInput): StrategyOutput {
+  if (input.outcomes) {
+    return categoricalTakeProfitStrategy(input.outcomes, input.confidence);
+  }
+
   const { predictionProbability, currentMarketPrice, confidence, outcome } = input;
 
   logger.info(
@@ -75,7 +86,7 @@ export function takeProfitStrategy(input: StrategyInput): StrategyOutput {
   const isUnderpriced = outcomeMarketPrice < predictionPrice;
   const isOverpriced = outcomeMarketPrice > predictionPrice;
 
-  let buyOutcome: 'YES' | 'NO';
+  let buyOutcome: string;
   let targetPrice: number;
   let reasoning: string;
 
@@ -171,6 +182,66 @@ export function takeProfitStrategy(input: StrategyInput): StrategyOutput {
   }
 }
 
+/**
+ * Find the outcome the AI rates most above its market price
+ * Returns undefined when no outcome is underpriced.
+ */
+export function findBestOutcomeEdge(outcomes: OutcomeStrategyInput[]): (OutcomeStrategyInput & { edge: number }) | undefined {
+  return outcomes
+    .map(outcome => ({ ...outcome, edge: outcome.predictionProbability / 100 - outcome.marketPrice }))
+    .filter(outcome => outcome.edge > 0)
+    .sort((a, b) => b.edge - a.edge)[0];
+}
+
+/**
+ * Take Profit Strategy for categorical (N-outcome) markets
+ *
+ * Buys the outcome with the largest positive edge (AI probability above market price)
+ * and sells at the same confidence-based target as the binary strategy.
+ * There is no "opposite" side to buy, so overpriced outcomes are simply skipped.
+ */
+function categoricalTakeProfitStrategy(outcomes: OutcomeStrategyInput[], confidence: number): StrategyOutput {
+  logger.info({ outcomes, confidence }, 'Calculating categorical take profit strategy');
+
+  const best = findBestOutcomeEdge(outcomes);
+  if (!best) {
+    throw new Error('No outcome is priced below the AI prediction - no trade opportunity');
+  }
+
+  const tradeSize = 1;
+  const predictionPrice = best.predictionProbability / 100;
+  const profitFraction = confidence / 200;
+  const targetPrice = best.marketPrice + best.edge * profitFraction;
+
+  const trades = [
+    {
+      outcome: best.outcome,
+      side: 'BUY' as const,
+      orderType: 'MARKET' as const,
+      size: tradeSize,
+    },
+    {
+      outcome: best.outcome,
+      side: 'SELL' as const,
+      orderType: 'LIMIT' as const,
+      size: tradeSize,
+      price: targetPrice,
+    },
+  ];
+
+  const tradeNotes = [
+    `Entry: Buy ${best.outcome} at market ${best.marketPrice.toFixed(3)} (largest edge vs AI prediction ${predictionPrice.toFixed(3)}, confidence: ${confidence}%)`,
+    `Take profit: Sell ${best.outcome} at target ${targetPrice.toFixed(3)} (${(profitFraction * 100).toFixed(1)}% toward AI prediction ${predictionPrice.toFixed(3)}, confidence: ${confidence}%)`,
+  ];
+
+  return {
+    trades,
+    strategyName: 'takeProfit',
+    reasoning: `Take profit (categorical): Buy ${best.outcome} at market ${best.marketPrice.toFixed(3)}, sell at ${targetPrice.toFixed(3)} (${(profitFraction * 100).toFixed(1)}% toward AI target ${predictionPrice.toFixed(3)}, confidence-based). Expected edge: ${((targetPrice - best.marketPrice) * 100).toFixed(1)}%`,
+    tradeNotes,
+  };
+}
+
 /**
  * Calculate trade strategy based on strategy name
  */
@@ -199,12 +270,33 @@ export function calculateTradeStrategy(
  * - Overpriced: Market > Prediction (buy opposite outcome)
  *
  * Only requirement is that delta exceeds minimum threshold.
+ * For categorical markets the delta is the largest positive edge across outcomes.
  */
 export function validateTradeOpportunity(input: StrategyInput, minDeltaPercent: number = 2.5): {
   valid: boolean;
   reason?: string;
   delta?: number;
 } {
+  if (input.outcomes) {
+    const best = findBestOutcomeEdge(input.outcomes);
+    const delta = best ? best.edge * 100 : 0;
+
+    if (delta < minDeltaPercent) {
+      return {
+        valid: false,
+        reason: best
+          ? `Largest outcome edge ${delta.toFixed(2)}% (${best.outcome}) is below minimum threshold ${minDeltaPercent}%`
+          : 'No outcome is priced below the AI prediction',
+        delta,
+      };
+    }
+
+    return {
+      valid: true,
+      delta,
+    };
+  }
+
   const { predictionProbability, currentMarketPrice, outcome } = input;
 
   const predictionPrice = predictionProbability / 100;
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeAnchoring } from '../utils/anchoring.js';
+
+describe('Anchoring analysis', () => {
+  const pairs = [
+    { anchored: 0.3, blind: 0.6, market: 0.2 },
+    { anchored: 0.7, blind: 0.5, market: 0.8, outcome: 1 as const },
+  ];
+
+  it('should measure how far prices pull forecasts toward the market', () => {
+    const summary = summarizeAnchoring(pairs);
+
+    expect(summary.count).toBe(2);
+    expect(summary.anchoredDistance).toBeCloseTo(0.1);
+    expect(summary.blindDistance).toBeCloseTo(0.35);
+    expect(summary.anchoringBias).toBeCloseTo(0.25);
+  });
+
+  it('should score only resolved pairs, including the blind/market blend', () => {
+    const summary = summarizeAnchoring(pairs);
+
+    expect(summary.anchored.count).toBe(1);
+    expect(summary.anchored.brierScore).toBeCloseTo(0.09);
+    expect(summary.blind.brierScore).toBeCloseTo(0.25);
+    expect(summary.market.brierScore).toBeCloseTo(0.04);
+    expect(summary.blindMarketBlend.brierScore).toBeCloseTo(0.1225);
+  });
+
+  it('should score categorical pairs over every outcome', () => {
+    const summary = summarizeAnchoring([
+      {
+        anchored: 0.5,
+        blind: 0.2,
+        market: 0.6,
+        outcome: 0,
+        categorical: { anchored: [0.5, 0.3, 0.2], blind: [0.2, 0.7, 0.1], market: [0.6, 0.3, 0.1], resolvedIndex: 1 },
+      },
+    ]);
+
+    expect(summary.anchored.brierScore).toBeCloseTo((0.25 + 0.49 + 0.04) / 2);
+    expect(summary.blind.brierScore).toBeCloseTo((0.04 + 0.09 + 0.01) / 2);
+    expect(summary.blind.accuracy).toBe(1);
+    expect(summary.blindMarketBlend.brierScore).toBeCloseTo((0.16 + 0.25 + 0.01) / 2);
+  });
+
+  it('should return nulls for no pairs', () => {
+    const summary = summarizeAnchoring([]);
+    expect(summary.anchoringBias).toBeNull();
+    expect(summary.blind.brierScore).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { calculateBenchmarkMetrics } from '../services/benchmark-service.js';
+
+describe('calculateBenchmarkMetrics', () => {
+  const predictedAt = new Date('2025-11-01T00:00:00Z');
+
+  it('should detect convergence toward the prediction', () => {
+    // Design doc example: AI 75%, market 60% -> 63% one hour later
+    const metrics = calculateBenchmarkMetrics({
+      predictedProbability: 75,
+      currentPrice: 0.63,
+      initialDelta: 0.15,
+      predictedAt,
+      now: new Date('2025-11-01T01:00:00Z'),
+    });
+
+    expect(metrics.absDelta).toBeCloseTo(0.12);
+    expect(metrics.movementDirection).toBe('CONVERGING');
+    expect(metrics.convergenceRate).toBeCloseTo(0.03);
+    expect(metrics.cumulativeConvergence).toBeCloseTo(0.03);
+    expect(metrics.hoursSincePrediction).toBe(1);
+  });
+
+  it('should compare against the previous snapshot', () => {
+    const metrics = calculateBenchmarkMetrics({
+      predictedProbability: 75,
+      currentPrice: 0.6,
+      initialDelta: 0.15,
+      predictedAt,
+      previousSnapshot: { absDelta: 0.12, snapshotAt: new Date('2025-11-01T01:00:00Z') },
+      now: new Date('2025-11-01T03:00:00Z'),
+    });
+
+    expect(metrics.movementDirection).toBe('DIVERGING');
+    expect(metrics.convergenceRate).toBeCloseTo(-0.015);
+    expect(metrics.cumulativeConvergence).toBeCloseTo(0);
+  });
+
+  it('should treat tiny moves as stable', () => {
+    const metrics = calculateBenchmarkMetrics({
+      predictedProbability: 75,
+      currentPrice: 0.602,
+      initialDelta: 0.15,
+      predictedAt,
+      now: new Date('2025-11-01T01:00:00Z'),
+    });
+
+    expect(metrics.movementDirection).toBe('STABLE');
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createBudgetExceededError,
+  findExceededPeriod,
+  getPeriodStart,
+  isBudgetExceededError,
+  type BudgetPeriodStatus,
+} from '../services/budget.js';
+
+function status(period: BudgetPeriodStatus['period'], limitUsd: number | null, spentUsd: number): BudgetPeriodStatus {
+  return {
+    period,
+    since: new Date(0),
+    limitUsd,
+    spentUsd,
+    remainingUsd: limitUsd === null ? null : Math.max(limitUsd - spentUsd, 0),
+  };
+}
+
+describe('Budget', () => {
+  it('should start periods at UTC midnight and the first of the month', () => {
+    const now = new Date('2025-03-14T23:30:00Z');
+
+    expect(getPeriodStart('daily', now).toISOString()).toBe('2025-03-14T00:00:00.000Z');
+    expect(getPeriodStart('monthly', now).toISOString()).toBe('2025-03-01T00:00:00.000Z');
+  });
+
+  it('should find the first period at or over its cap', () => {
+    expect(findExceededPeriod([status('daily', 5, 4.99), status('monthly', 100, 20)])).toBeNull();
+    expect(findExceededPeriod([status('daily', 5, 5), status('monthly', 100, 20)])?.period).toBe('daily');
+    expect(findExceededPeriod([status('daily', null, 50), status('monthly', 40, 50)])?.period).toBe('monthly');
+  });
+
+  it('should identify budget errors', () => {
+    const error = createBudgetExceededError('monthly', 100, 101.5);
+
+    expect(isBudgetExceededError(error)).toBe(true);
+    expect(error.message).toBe('Monthly budget exceeded: $101.50 spent of $100.00');
+    expect(isBudgetExceededError(new Error('other'))).toBe(false);
+  });
+});
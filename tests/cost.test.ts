@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { calculateExaContentsCost, calculateExaCost, calculateLlmCost, summarizeCosts } from '../utils/cost.js';
+import { MODEL_IDS } from '../config/models.js';
+
+describe('Cost calculation', () => {
+  it('should price LLM usage per million tokens', () => {
+    // GPT-5: $1.25/M input, $10/M output
+    expect(calculateLlmCost(MODEL_IDS.OPENAI_GPT_5, { promptTokens: 20_000, completionTokens: 3_000 })).toBeCloseTo(0.055);
+  });
+
+  it('should return null for unpriced models', () => {
+    expect(calculateLlmCost('unknown/model', { promptTokens: 1000, completionTokens: 1000 })).toBeNull();
+  });
+
+  it('should estimate Exa search plus contents', () => {
+    expect(calculateExaCost(10, 3)).toBeCloseTo(0.035);
+    expect(calculateExaContentsCost(10, 3)).toBeCloseTo(0.03);
+  });
+
+  it('should sum priced stages and list unpriced ones', () => {
+    const breakdown = summarizeCosts([
+      { stage: 'research:exa', costUsd: 0.035 },
+      { stage: 'research:grok', costUsd: null },
+      { stage: 'prediction', costUsd: 0.055 },
+    ]);
+
+    expect(breakdown.totalUsd).toBeCloseTo(0.09);
+    expect(breakdown.unpricedStages).toEqual(['research:grok']);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateProbabilities, brierWeight, computeDisagreement } from '../utils/ensemble.js';
+
+describe('Ensemble aggregation', () => {
+  const probabilities = [20, 40, 45, 50, 95];
+
+  it('should compute mean, median and trimmed mean', () => {
+    expect(aggregateProbabilities(probabilities, 'mean')).toBeCloseTo(50);
+    expect(aggregateProbabilities(probabilities, 'median')).toBe(45);
+    // Drops one member from each end: mean of 40, 45, 50
+    expect(aggregateProbabilities(probabilities, 'trimmed-mean')).toBeCloseTo(45);
+  });
+
+  it('should pool in log-odds space', () => {
+    // Symmetric around 50% pools to 50%
+    expect(aggregateProbabilities([20, 80], 'brier-logodds')).toBeCloseTo(50);
+    // Equal-weight log-odds pool of 90% and 50% is 75%
+    expect(aggregateProbabilities([90, 50], 'brier-logodds')).toBeCloseTo(75);
+    // The better-calibrated member pulls the pool toward itself
+    expect(aggregateProbabilities([90, 50], 'brier-logodds', [brierWeight(0.1), brierWeight(0.25)])).toBeGreaterThan(75);
+  });
+
+  it('should keep log-odds finite at 0 and 100', () => {
+    const pooled = aggregateProbabilities([0, 100, 100], 'brier-logodds');
+    expect(Number.isFinite(pooled)).toBe(true);
+    expect(pooled).toBeGreaterThan(50);
+  });
+
+  it('should weight unscored models as a coin flip', () => {
+    expect(brierWeight(null)).toBe(brierWeight(0.25));
+    expect(brierWeight(0)).toBe(brierWeight(0.05));
+  });
+
+  it('should measure disagreement', () => {
+    expect(computeDisagreement([40, 60])).toEqual({ stdDev: 10, range: 20 });
+    expect(computeDisagreement([55])).toEqual({ stdDev: 0, range: 0 });
+  });
+});
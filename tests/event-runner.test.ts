@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { computeEventCoherence, type EventMarketResult } from '../services/event-runner.js';
+
+function marketResult(marketId: string, rawProbability: number | null): EventMarketResult {
+  return {
+    marketId,
+    question: `Will ${marketId} win?`,
+    predictionId: rawProbability !== null ? `prediction-${marketId}` : null,
+    rawProbability,
+    normalizedProbability: null,
+  };
+}
+
+describe('Event coherence', () => {
+  it('should normalize negRisk probabilities to sum to 100', () => {
+    const coherence = computeEventCoherence(
+      [marketResult('a', 60), marketResult('b', 40), marketResult('c', 20)],
+      true
+    );
+
+    expect(coherence.rawProbabilitySum).toBe(120);
+    expect(coherence.incoherence).toBe(20);
+    expect(coherence.normalized).toBe(true);
+    expect(coherence.results.map(r => r.normalizedProbability)).toEqual([50, expect.closeTo(33.33, 2), expect.closeTo(16.67, 2)]);
+  });
+
+  it('should not normalize when a market has no prediction', () => {
+    const coherence = computeEventCoherence([marketResult('a', 60), marketResult('b', null)], true);
+
+    expect(coherence.incoherence).toBe(40);
+    expect(coherence.normalized).toBe(false);
+    expect(coherence.results[0].normalizedProbability).toBeNull();
+  });
+
+  it('should leave independent markets untouched', () => {
+    const coherence = computeEventCoherence([marketResult('a', 70), marketResult('b', 80)], false);
+
+    expect(coherence.incoherence).toBeNull();
+    expect(coherence.normalized).toBe(false);
+  });
+});
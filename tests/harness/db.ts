@@ -0,0 +1,85 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import postgres from 'postgres';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import { migrate } from 'drizzle-orm/pglite/migrator';
+import * as schema from '../../db/schema.js';
+import { closeDb, setDb } from '../../db/index.js';
+
+/**
+ * Throwaway test database
+ * By default an in-process PGlite database with the generated migrations applied. With
+ * TEST_DATABASE_URL set, a fresh database on that Postgres server instead, migrated with
+ * drizzle-kit and reached through DATABASE_URL like every other environment.
+ */
+
+const execFileAsync = promisify(execFile);
+
+const PROJECT_ROOT = join(dirname(fileURLToPath(import.meta.url)), '..', '..');
+const MIGRATIONS_FOLDER = join(PROJECT_ROOT, 'drizzle');
+const MIGRATE_TIMEOUT_MS = 120_000;
+
+export const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+
+export interface TestDatabase {
+  url: string;
+  teardown(): Promise<void>;
+}
+
+/**
+ * Create and migrate a throwaway database, then route the app's db client to it
+ */
+export async function setupTestDatabase(): Promise<TestDatabase> {
+  if (!TEST_DATABASE_URL) {
+    return setupPgliteDatabase();
+  }
+
+  const name = `betterai_test_${process.pid}_${Date.now()}`;
+  const admin = postgres(TEST_DATABASE_URL, { max: 1 });
+  await admin`CREATE DATABASE ${admin(name)}`;
+
+  const url = new URL(TEST_DATABASE_URL);
+  url.pathname = `/${name}`;
+
+  // Same migrations as every other environment, applied by drizzle-kit
+  await execFileAsync('npx', ['--no-install', 'drizzle-kit', 'migrate'], {
+    cwd: PROJECT_ROOT,
+    env: { ...process.env, DATABASE_URL: url.toString() },
+    timeout: MIGRATE_TIMEOUT_MS,
+  });
+
+  await closeDb();
+  process.env.DATABASE_URL = url.toString();
+
+  return {
+    url: url.toString(),
+    async teardown() {
+      await closeDb();
+      await admin`DROP DATABASE IF EXISTS ${admin(name)} WITH (FORCE)`;
+      await admin.end();
+    },
+  };
+}
+
+/**
+ * In-memory PGlite database with the migrations in drizzle/ applied
+ */
+async function setupPgliteDatabase(): Promise<TestDatabase> {
+  const client = new PGlite();
+  const database = drizzle(client, { schema });
+  await migrate(database, { migrationsFolder: MIGRATIONS_FOLDER });
+
+  await closeDb();
+  setDb(database);
+
+  return {
+    url: 'pglite://memory',
+    async teardown() {
+      await closeDb();
+      await client.close();
+    },
+  };
+}
@@ -0,0 +1,181 @@
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { normalizeUsage, type LlmProvider, type LlmRequest } from '../../services/llm-client.js';
+import {
+  setProviders,
+  type ExaProvider,
+  type GammaProvider,
+  type GitHubFilePayload,
+  type GitHubProvider,
+  type JsonResponse,
+} from '../../services/providers.js';
+import { MODEL_IDS } from '../../config/models.js';
+
+/**
+ * Offline provider implementations for integration tests
+ * Fixture providers answer from recorded API responses in tests/fixtures; scripted providers
+ * answer from a handler so a test can shape each response.
+ */
+
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'fixtures');
+
+/**
+ * Load a recorded response from tests/fixtures
+ */
+export function loadFixture<T = any>(name: string): T {
+  return JSON.parse(readFileSync(join(FIXTURES_DIR, name), 'utf-8')) as T;
+}
+
+function jsonResponse(data: unknown, status = 200): JsonResponse {
+  return { ok: status < 400, status, statusText: status < 400 ? 'OK' : 'Not Found', data };
+}
+
+/**
+ * Gamma provider answering each path from a handler (undefined means 404)
+ */
+export function createScriptedGammaProvider(handler: (path: string) => unknown): GammaProvider & { paths: string[] } {
+  const paths: string[] = [];
+  return {
+    paths,
+    async get(path) {
+      paths.push(path);
+      const data = handler(path);
+      return data === undefined ? jsonResponse('Not Found', 404) : jsonResponse(data);
+    },
+  };
+}
+
+/**
+ * Gamma provider serving the recorded market and event, by slug and by ID
+ */
+export function createFixtureGammaProvider(): GammaProvider & { paths: string[] } {
+  const market = loadFixture('gamma-market.json');
+  const event = loadFixture('gamma-event.json');
+
+  return createScriptedGammaProvider(path => {
+    if (path === `/markets?slug=${market.slug}`) return [market];
+    if (path === `/markets/${market.id}`) return market;
+    if (path === `/events?slug=${event.slug}`) return [event];
+    return undefined;
+  });
+}
+
+/**
+ * Exa provider answering each search and contents payload from a handler
+ */
+export function createScriptedExaProvider(
+  handler: (payload: Record<string, unknown>, endpoint: 'search' | 'contents') => unknown
+): ExaProvider & { payloads: Array<Record<string, unknown>>; contentsPayloads: Array<Record<string, unknown>> } {
+  const payloads: Array<Record<string, unknown>> = [];
+  const contentsPayloads: Array<Record<string, unknown>> = [];
+  return {
+    payloads,
+    contentsPayloads,
+    async search(payload) {
+      payloads.push(payload);
+      return jsonResponse(handler(payload, 'search'));
+    },
+    async contents(payload) {
+      contentsPayloads.push(payload);
+      return jsonResponse(handler(payload, 'contents'));
+    },
+  };
+}
+
+/**
+ * Exa provider returning the recorded search response for every query, and the recorded
+ * results matching the requested URLs for contents requests
+ */
+export function createFixtureExaProvider() {
+  const response = loadFixture('exa-search.json');
+  return createScriptedExaProvider((payload, endpoint) => {
+    if (endpoint === 'search') {
+      return response;
+    }
+    const urls = (payload.urls as string[] | undefined) ?? [];
+    return { ...response, results: response.results.filter((result: { url: string }) => urls.includes(result.url)) };
+  });
+}
+
+/**
+ * LLM provider answering each request from a handler (content only, fixed token usage)
+ */
+export function createScriptedLlmProvider(
+  handler: (request: LlmRequest) => string
+): LlmProvider & { requests: LlmRequest[] } {
+  const requests: LlmRequest[] = [];
+  return {
+    name: 'scripted',
+    requests,
+    async complete(request) {
+      requests.push(request);
+      const content = handler(request);
+      return {
+        content,
+        model: request.model,
+        usage: normalizeUsage({ prompt_tokens: 1000, completion_tokens: 200 }),
+        raw: { choices: [{ message: { content } }] },
+      };
+    },
+  };
+}
+
+/**
+ * LLM provider returning the recorded Grok search results, research plan, critique and prediction
+ * Research agent calls get the recorded actions in order (one per assistant turn so far).
+ */
+export function createFixtureLlmProvider() {
+  const responses = loadFixture('llm-responses.json');
+  return createScriptedLlmProvider(request => {
+    if (request.model === MODEL_IDS.XAI_GROK_3_MINI) {
+      return JSON.stringify(responses.grokSearch);
+    }
+    if (request.responseFormat?.name === 'research_plan') {
+      return JSON.stringify(responses.researchPlan);
+    }
+    if (request.responseFormat?.name === 'research_action') {
+      const step = request.messages.filter(message => message.role === 'assistant').length;
+      return JSON.stringify(responses.researchAgent[Math.min(step, responses.researchAgent.length - 1)]);
+    }
+    return JSON.stringify(request.responseFormat?.name === 'critique' ? responses.critique : responses.prediction);
+  });
+}
+
+/**
+ * GitHub provider keeping published files in memory
+ */
+export function createMockGitHubProvider(): GitHubProvider & { files: Map<string, GitHubFilePayload> } {
+  const files = new Map<string, GitHubFilePayload>();
+  return {
+    files,
+    async isAvailable() {
+      return true;
+    },
+    async getFileSha(repo, path) {
+      return files.has(`${repo}/${path}`) ? `sha-${path}` : undefined;
+    },
+    async putFile(repo, path, payload) {
+      files.set(`${repo}/${path}`, payload);
+      return { htmlUrl: `https://github.com/${repo}/blob/${payload.branch}/${path}` };
+    },
+  };
+}
+
+/**
+ * Install fixture providers for every external service and return them for assertions
+ * Also sets dummy API keys so configuration checks pass; nothing reaches the network.
+ */
+export function installFixtureProviders() {
+  process.env.EXA_API_KEY = 'test-exa-key';
+  process.env.OPENROUTER_API_KEY = 'test-openrouter-key';
+
+  const providers = {
+    gamma: createFixtureGammaProvider(),
+    exa: createFixtureExaProvider(),
+    llm: createFixtureLlmProvider(),
+    github: createMockGitHubProvider(),
+  };
+  setProviders(providers);
+  return providers;
+}
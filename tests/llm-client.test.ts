@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createLlmClient,
+  createLlmError,
+  normalizeUsage,
+  type LlmProvider,
+  type LlmProviderResponse,
+} from '../services/llm-client.js';
+import { createBudgetExceededError, type BudgetGuard, type SpendEntry } from '../services/budget.js';
+import { getLlmCacheKey, type CachedResponse, type ResponseCache } from '../services/llm-cache.js';
+
+const request = {
+  model: 'test/model',
+  messages: [{ role: 'user' as const, content: 'Hello' }],
+};
+
+const okResponse: LlmProviderResponse = {
+  content: 'Hi',
+  model: 'test/model',
+  usage: normalizeUsage({ prompt_tokens: 10, completion_tokens: 5 }),
+  raw: {},
+};
+
+/**
+ * Provider that fails with the given errors before succeeding
+ */
+function createFlakyProvider(errors: Error[]): LlmProvider & { calls: number } {
+  const provider = {
+    name: 'fake',
+    calls: 0,
+    async complete() {
+      provider.calls++;
+      const error = errors.shift();
+      if (error) {
+        throw error;
+      }
+      return okResponse;
+    },
+  };
+  return provider;
+}
+
+describe('LLM client', () => {
+  it('should retry rate limits and server errors', async () => {
+    const provider = createFlakyProvider([
+      createLlmError('rate limited', { status: 429, retryable: true }),
+      createLlmError('bad gateway', { status: 502, retryable: true }),
+    ]);
+    const client = createLlmClient({ provider, baseDelayMs: 0 });
+
+    const response = await client.complete(request);
+
+    expect(response.content).toBe('Hi');
+    expect(response.attempts).toBe(3);
+    expect(provider.calls).toBe(3);
+  });
+
+  it('should not retry client errors', async () => {
+    const provider = createFlakyProvider([createLlmError('bad request', { status: 400, retryable: false })]);
+    const client = createLlmClient({ provider, baseDelayMs: 0 });
+
+    await expect(client.complete(request)).rejects.toThrow('bad request');
+    expect(provider.calls).toBe(1);
+  });
+
+  it('should give up after maxRetries', async () => {
+    const provider = createFlakyProvider([
+      createLlmError('unavailable', { status: 503, retryable: true }),
+      createLlmError('unavailable', { status: 503, retryable: true }),
+    ]);
+    const client = createLlmClient({ provider, maxRetries: 1, baseDelayMs: 0 });
+
+    await expect(client.complete(request)).rejects.toThrow('unavailable');
+    expect(provider.calls).toBe(2);
+  });
+
+  it('should refuse requests once the budget is exceeded', async () => {
+    const provider = createFlakyProvider([]);
+    const budget: BudgetGuard = {
+      async assertWithinBudget() {
+        throw createBudgetExceededError('daily', 10, 10.5);
+      },
+      async recordSpend() {},
+    };
+    const client = createLlmClient({ provider, budget, baseDelayMs: 0 });
+
+    await expect(client.complete(request)).rejects.toThrow('Daily budget exceeded');
+    expect(provider.calls).toBe(0);
+  });
+
+  it('should record spend for completed requests', async () => {
+    const recorded: SpendEntry[] = [];
+    const budget: BudgetGuard = {
+      async assertWithinBudget() {},
+      async recordSpend(entry) {
+        recorded.push(entry);
+      },
+    };
+    const client = createLlmClient({ provider: createFlakyProvider([]), budget, baseDelayMs: 0 });
+
+    await client.complete(request);
+
+    expect(recorded).toEqual([{ source: 'llm', model: 'test/model', costUsd: null }]);
+  });
+
+  it('should record responses and replay them without calling the provider', async () => {
+    const entries = new Map<string, CachedResponse>();
+    const cache: ResponseCache = {
+      async get(key) {
+        return entries.get(key) ?? null;
+      },
+      async set(entry) {
+        entries.set(entry.key, entry);
+      },
+    };
+
+    await createLlmClient({ provider: createFlakyProvider([]), cache, baseDelayMs: 0 }).complete(request);
+    expect([...entries.values()].map(entry => entry.key)).toEqual([getLlmCacheKey(request)]);
+
+    const provider = createFlakyProvider([]);
+    const replayed = await createLlmClient({ provider, cache, replay: true }).complete(request);
+
+    expect(provider.calls).toBe(0);
+    expect(replayed).toMatchObject({ content: okResponse.content, costUsd: 0, cached: true });
+    await expect(
+      createLlmClient({ provider, cache, replay: true }).complete({ ...request, temperature: 0.1 })
+    ).rejects.toThrow('No cached response');
+  });
+
+  it('should key repeated samples of one request apart', () => {
+    expect(getLlmCacheKey({ ...request, sample: 0 })).not.toBe(getLlmCacheKey({ ...request, sample: 1 }));
+    expect(getLlmCacheKey({ ...request, sample: undefined })).toBe(getLlmCacheKey(request));
+  });
+
+  it('should normalize usage including reasoning tokens', () => {
+    expect(
+      normalizeUsage({
+        prompt_tokens: 100,
+        completion_tokens: 50,
+        completion_tokens_details: { reasoning_tokens: 30 },
+      })
+    ).toEqual({ promptTokens: 100, completionTokens: 50, reasoningTokens: 30, totalTokens: 150 });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { detectMarketResolution } from '../services/market-resolution.js';
+import type { PolymarketMarket } from '../services/polymarket.js';
+
+const baseMarket: PolymarketMarket = {
+  id: '1',
+  slug: 'test-market',
+  conditionId: '0xabc',
+  question: 'Will it happen?',
+  outcomes: '["Yes", "No"]',
+};
+
+describe('detectMarketResolution', () => {
+  it('should return null for open markets', () => {
+    expect(detectMarketResolution({ ...baseMarket, closed: false, outcomePrices: '["1", "0"]' })).toBeNull();
+  });
+
+  it('should detect the winning outcome of a closed market', () => {
+    const resolution = detectMarketResolution({
+      ...baseMarket,
+      closed: true,
+      outcomePrices: '["0", "1"]',
+      umaResolutionStatus: 'resolved',
+      closedTime: '2025-11-05 18:00:00+00',
+    });
+
+    expect(resolution).toMatchObject({
+      status: 'RESOLVED',
+      resolvedOutcome: 'No',
+      resolvedOutcomeIndex: 1,
+      finalOutcomePrices: [0, 1],
+    });
+    expect(resolution?.resolvedAt?.toISOString()).toBe('2025-11-05T18:00:00.000Z');
+  });
+
+  it('should wait while the UMA oracle is disputed', () => {
+    expect(
+      detectMarketResolution({
+        ...baseMarket,
+        closed: true,
+        outcomePrices: '["1", "0"]',
+        umaResolutionStatus: 'disputed',
+      })
+    ).toBeNull();
+  });
+
+  it('should detect 50/50 void resolutions', () => {
+    const resolution = detectMarketResolution({
+      ...baseMarket,
+      closed: true,
+      outcomePrices: '["0.5", "0.5"]',
+      umaResolutionStatus: 'resolved',
+    });
+
+    expect(resolution?.status).toBe('VOID');
+    expect(resolution?.resolvedOutcome).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateOutcomeDeltas,
+  formatOutcomePrices,
+  getCategoricalOutcomeLabels,
+  parseMarketOutcomes,
+} from '../utils/market-utils.js';
+
+describe('Market outcome parsing', () => {
+  it('should align labels, prices and token IDs', () => {
+    const result = parseMarketOutcomes({
+      outcomes: '["Lakers", "Celtics", "Other"]',
+      outcomePrices: '["0.3", "0.38", "0.32"]',
+      clobTokenIds: '["t1", "t2", "t3"]',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.value).toEqual([
+      { label: 'Lakers', price: 0.3, tokenId: 't1' },
+      { label: 'Celtics', price: 0.38, tokenId: 't2' },
+      { label: 'Other', price: 0.32, tokenId: 't3' },
+    ]);
+  });
+
+  it('should default to Yes/No labels for two-price markets without outcomes', () => {
+    const result = parseMarketOutcomes({ outcomePrices: '["0.6", "0.4"]' });
+
+    expect(result.value?.map(outcome => outcome.label)).toEqual(['Yes', 'No']);
+  });
+
+  it('should fail when outcomes and prices do not align', () => {
+    const result = parseMarketOutcomes({ outcomes: '["A", "B", "C"]', outcomePrices: '["0.6", "0.4"]' });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should only return categorical labels for non Yes/No markets', () => {
+    expect(getCategoricalOutcomeLabels({ outcomes: '["Yes", "No"]', outcomePrices: '["0.6", "0.4"]' })).toBeUndefined();
+    expect(getCategoricalOutcomeLabels({ outcomes: '["Over", "Under"]', outcomePrices: '["0.6", "0.4"]' })).toEqual([
+      'Over',
+      'Under',
+    ]);
+  });
+
+  it('should format prices with outcome labels', () => {
+    expect(formatOutcomePrices('["0.45", "0.55"]')).toBe('YES: 45.0%, NO: 55.0%');
+    expect(formatOutcomePrices('["0.5", "0.3", "0.2"]', '["A", "B", "C"]')).toBe('A: 50.0%, B: 30.0%, C: 20.0%');
+  });
+
+  it('should calculate per-outcome deltas by label', () => {
+    const deltas = calculateOutcomeDeltas(
+      [
+        { label: 'Lakers', price: 0.3 },
+        { label: 'Celtics', price: 0.38 },
+      ],
+      [
+        { outcome: 'lakers', probability: 40 },
+        { outcome: 'Knicks', probability: 10 },
+      ]
+    );
+
+    expect(deltas[0].delta).toBeCloseTo(0.1);
+    expect(deltas[1]).toMatchObject({ outcome: 'Knicks', marketPrice: null, delta: null });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db, events, marketPriceSnapshots, markets, predictionJobs, predictions } from '../db/index.js';
+import { getWatchedMarketIds, ingestMarketPrices, saveMarket } from '../services/polymarket-storage.js';
+import { resetProviders, setProviders } from '../services/providers.js';
+import { setupTestDatabase, type TestDatabase } from './harness/db.js';
+import { createScriptedGammaProvider, loadFixture } from './harness/providers.js';
+
+const market = loadFixture('gamma-market.json');
+const unseen = { ...market, id: '516711', slug: 'unseen-market', conditionId: '0xunseen' };
+
+describe('Market price ingestion', () => {
+  let database: TestDatabase;
+  let closed = false;
+
+  beforeAll(async () => {
+    database = await setupTestDatabase();
+    setProviders({
+      gamma: createScriptedGammaProvider(path => {
+        if (path === `/markets/${market.id}`) return { ...market, closed, active: !closed };
+        if (path === `/markets/${unseen.id}`) return unseen;
+        return undefined;
+      }),
+    });
+
+    await db.insert(events).values({ eventId: 'event-1', slug: 'event-1', title: 'College Football Champion 2026' });
+    await saveMarket({ ...market, eventSlug: 'event-1' });
+    const [job] = await db.insert(predictionJobs).values({ marketId: market.id, status: 'completed' }).returning();
+    await db.insert(predictions).values({ jobId: job.id, marketId: market.id, prediction: {} });
+  }, 180_000);
+
+  afterAll(async () => {
+    resetProviders();
+    await database?.teardown();
+  });
+
+  it('should snapshot a market that was never ingested', async () => {
+    const result = await ingestMarketPrices([unseen.id]);
+
+    expect(result).toEqual({ captured: 1, failures: [] });
+    const [row] = await db.select().from(markets).where(eq(markets.marketId, unseen.id));
+    expect(row.slug).toBe(unseen.slug);
+    expect(await db.select().from(marketPriceSnapshots).where(eq(marketPriceSnapshots.marketId, unseen.id))).toHaveLength(1);
+  });
+
+  it('should drop a market from the watch set once it closes, keeping its event', async () => {
+    expect(await getWatchedMarketIds()).toEqual([market.id]);
+
+    closed = true;
+    await ingestMarketPrices([market.id]);
+
+    const [row] = await db.select().from(markets).where(eq(markets.marketId, market.id));
+    expect(row).toMatchObject({ closed: true, active: false, eventId: 'event-1' });
+    expect(await getWatchedMarketIds()).toEqual([]);
+  });
+});
@@ -1,34 +1,57 @@
-import { describe, it, expect } from 'vitest';
-import { fetchEventBySlug, fetchMarketBySlug } from '../services/polymarket.js';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { fetchEventBySlug, fetchMarketById, fetchMarketBySlug } from '../services/polymarket.js';
+import { resetProviders, setProviders } from '../services/providers.js';
+import { createFixtureGammaProvider, loadFixture } from './harness/providers.js';
+
+const marketSlug = 'will-georgia-tech-win-the-2026-college-football-national-championship';
 
 describe('Polymarket API', () => {
+  let gamma: ReturnType<typeof createFixtureGammaProvider>;
+
+  beforeAll(() => {
+    gamma = createFixtureGammaProvider();
+    setProviders({ gamma });
+  });
+
+  afterAll(() => {
+    resetProviders();
+  });
+
   describe('fetchMarketBySlug', () => {
     it('should fetch a market by slug and return valid data', async () => {
-      // Using a known market slug from the Polymarket API
-      const marketSlug = 'will-joe-biden-get-coronavirus-before-the-election';
-
       const market = await fetchMarketBySlug(marketSlug);
 
       expect(market).toBeDefined();
       expect(market.id).toBeDefined();
       expect(market.slug).toBe(marketSlug);
-      expect(market.question).toBeDefined();
+      expect(market.question).toContain('Georgia Tech');
       expect(market.conditionId).toBeDefined();
       expect(typeof market.id).toBe('string');
       expect(typeof market.question).toBe('string');
+      expect(gamma.paths).toContain(`/markets?slug=${marketSlug}`);
     });
 
-    it('should fetch Georgia Tech 2026 Championship market', async () => {
-      const marketSlug = 'will-georgia-tech-win-the-2026-college-football-national-championship';
+    it('should reject a slug the API does not know', async () => {
+      await expect(fetchMarketBySlug('no-such-market')).rejects.toThrow('Failed to fetch market no-such-market');
+    });
+  });
 
-      const market = await fetchMarketBySlug(marketSlug);
+  describe('fetchMarketById', () => {
+    it('should fetch the same market by ID', async () => {
+      const market = await fetchMarketById(loadFixture('gamma-market.json').id);
 
-      expect(market).toBeDefined();
-      expect(market.id).toBeDefined();
       expect(market.slug).toBe(marketSlug);
-      expect(market.question).toContain('Georgia Tech');
-      expect(market.conditionId).toBeDefined();
     });
   });
 
+  describe('fetchEventBySlug', () => {
+    it('should fetch an event by slug', async () => {
+      const { slug } = loadFixture('gamma-event.json');
+
+      const event = await fetchEventBySlug(slug);
+
+      expect(event.slug).toBe(slug);
+      expect(event.id).toBeDefined();
+    });
+  });
 });
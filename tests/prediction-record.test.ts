@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { getCanonicalPrediction, normalizePrediction } from '../services/prediction-record.js';
+import type { Prediction } from '../db/schema.js';
+
+describe('Prediction record normalization', () => {
+  it('should normalize the legacy nested shape', () => {
+    const result = normalizePrediction({
+      marketId: '123',
+      question: 'Will it rain?',
+      prediction: {
+        outcome: 'YES',
+        confidence: 70,
+        probability: 65,
+        reasoning: 'Forecast models agree',
+      },
+      keyFactors: ['Forecast'],
+      dataQuality: 'MEDIUM',
+      lastUpdated: '2025-11-01T00:00:00.000Z',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.value).toMatchObject({
+      outcome: 'YES',
+      probability: 65,
+      confidence: 70,
+      dataQuality: 60,
+      outcomeReasoning: 'Forecast models agree',
+      keyFactors: ['Forecast'],
+      shape: 'legacy-nested-v1',
+    });
+  });
+
+  it('should normalize the exp006 flat shape', () => {
+    const result = normalizePrediction({
+      marketId: '123',
+      question: 'Will it rain?',
+      outcome: 'NO',
+      outcomeReasoning: 'Dry season',
+      confidence: 80,
+      confidenceReasoning: 'Strong evidence',
+      probability: 20,
+      keyFactors: ['Season'],
+      dataQuality: 75,
+      lastUpdated: '2025-11-01T00:00:00.000Z',
+      enrichmentMetadata: { exaSources: 8 },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.value).toMatchObject({
+      outcome: 'NO',
+      probability: 20,
+      confidence: 80,
+      dataQuality: 75,
+      shape: 'exp006-flat-v1',
+    });
+  });
+
+  it('should normalize the categorical shape', () => {
+    const result = normalizePrediction({
+      outcome: 'Lakers',
+      outcomeProbabilities: [
+        { outcome: 'Lakers', probability: 40 },
+        { outcome: 'Celtics', probability: 35 },
+        { outcome: 'Other', probability: 25 },
+      ],
+      confidence: 70,
+      keyFactors: ['Injuries'],
+      dataQuality: 80,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.value).toMatchObject({
+      outcome: 'Lakers',
+      probability: 40,
+      confidence: 70,
+      shape: 'categorical-v1',
+    });
+    expect(result.value?.outcomeProbabilities).toHaveLength(3);
+  });
+
+  it('should return the event-normalized probability alongside the predicted one', () => {
+    const row = {
+      prediction: { outcome: 'YES', probability: 60, confidence: 70 },
+      outcome: 'YES',
+      probability: 60,
+      eventNormalizedProbability: 40,
+      outcomeProbabilities: null,
+      confidence: 70,
+      dataQuality: null,
+    } as unknown as Prediction;
+
+    expect(getCanonicalPrediction(row).value).toMatchObject({ outcome: 'YES', probability: 60, normalizedProbability: 40 });
+  });
+
+  it('should reject unknown shapes', () => {
+    const result = normalizePrediction({ foo: 'bar' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Unrecognized prediction shape');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { PROMPT_TEMPLATES } from '../prompts/index.js';
+import {
+  compareVersions,
+  getPromptTemplate,
+  getTemplatePlaceholders,
+  hashPromptTemplate,
+  renderPrompt,
+  renderPromptTemplate,
+  type PromptTemplate,
+} from '../services/prompt-templates.js';
+import { diffLines } from '../utils/text-diff.js';
+import { buildPrompts } from '../experiments/exp006/prepare-prompts.js';
+import { loadFixture } from './harness/providers.js';
+
+describe('Prompt template registry', () => {
+  it('should register each id@version once', () => {
+    const keys = PROMPT_TEMPLATES.map(template => `${template.id}@${template.version}`);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it('should declare exactly the placeholders each template uses', () => {
+    for (const template of PROMPT_TEMPLATES) {
+      expect([...template.variables].sort()).toEqual(getTemplatePlaceholders(template.template).sort());
+    }
+  });
+
+  it('should order versions numerically and default to the latest', () => {
+    expect(compareVersions('1.10.0', '1.9.0')).toBeGreaterThan(0);
+    expect(compareVersions('1.0.0', '1.0.0')).toBe(0);
+    expect(getPromptTemplate('prediction-system')?.version).toBe('1.0.0');
+    expect(getPromptTemplate('prediction-system', '9.9.9')).toBeUndefined();
+  });
+});
+
+describe('Prompt rendering', () => {
+  const template: PromptTemplate = {
+    id: 'test',
+    version: '1.0.0',
+    description: 'Test template',
+    variables: ['name', 'detail'],
+    template: 'Hello {{name}}.\n{{detail}}',
+  };
+
+  it('should substitute variables and collect fragment references', () => {
+    const detail = renderPrompt('exp006-system-outcomes-binary');
+    const rendered = renderPromptTemplate(template, { name: 'world', detail });
+
+    expect(rendered.text).toBe(`Hello world.\n${detail.text}`);
+    expect(rendered.templates.map(ref => ref.id)).toEqual(['test', 'exp006-system-outcomes-binary']);
+    expect(rendered.templates[0].hash).toBe(hashPromptTemplate(template));
+  });
+
+  it('should throw when a variable is missing', () => {
+    expect(() => renderPromptTemplate(template, { name: 'world' })).toThrow(/missing variables: detail/);
+    expect(() => renderPrompt('no-such-template')).toThrow(/not registered/);
+  });
+
+  it('should change the hash only when the text changes', () => {
+    expect(hashPromptTemplate({ ...template, version: '2.0.0' })).toBe(hashPromptTemplate(template));
+    expect(hashPromptTemplate({ ...template, template: 'Hi {{name}}.\n{{detail}}' })).not.toBe(hashPromptTemplate(template));
+  });
+});
+
+describe('Price modes', () => {
+  const market = loadFixture('gamma-market.json');
+
+  it('should withhold prices, volume and liquidity from blind context prompts', () => {
+    const anchored = buildPrompts(market, 'Research');
+    const blind = buildPrompts(market, 'Research', { blind: true });
+
+    expect(anchored.contextPrompt).toContain('Current Outcome Prices');
+    for (const signal of ['Current Outcome Prices', 'Current Volume', 'Current Liquidity', market.volume, market.liquidity]) {
+      expect(blind.contextPrompt).not.toContain(signal);
+    }
+    expect(blind.contextPrompt).toContain(market.question);
+    expect(blind.templates.map(ref => ref.id)).toContain('exp006-context-blind');
+  });
+});
+
+describe('Line diff', () => {
+  it('should mark added and removed lines', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'same', text: 'c' },
+    ]);
+  });
+});
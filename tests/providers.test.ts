@@ -0,0 +1,108 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { fetchEventBySlug, fetchMarketBySlug } from '../services/polymarket.js';
+import { publishPrediction } from '../services/prediction-publisher.js';
+import { resetProviders, setProviders } from '../services/providers.js';
+import {
+  createFixtureGammaProvider,
+  createMockGitHubProvider,
+  createScriptedGammaProvider,
+  loadFixture,
+} from './harness/providers.js';
+
+const market = loadFixture('gamma-market.json');
+const event = loadFixture('gamma-event.json');
+
+describe('Gamma provider', () => {
+  afterEach(() => resetProviders());
+
+  it('should serve markets and events from fixtures', async () => {
+    const gamma = createFixtureGammaProvider();
+    setProviders({ gamma });
+
+    expect((await fetchMarketBySlug(market.slug)).question).toContain('Georgia Tech');
+    expect((await fetchEventBySlug(event.slug)).title).toBe('College Football Champion 2026');
+    expect(gamma.paths).toEqual([`/markets?slug=${market.slug}`, `/events?slug=${event.slug}`]);
+  });
+
+  it('should surface API errors and empty results', async () => {
+    setProviders({ gamma: createScriptedGammaProvider(path => (path.startsWith('/events') ? [] : undefined)) });
+
+    await expect(fetchMarketBySlug('missing')).rejects.toThrow('Failed to fetch market missing: 404');
+    await expect(fetchEventBySlug('missing')).rejects.toThrow('Event with slug missing not found');
+  });
+});
+
+describe('GitHub provider', () => {
+  afterEach(() => resetProviders());
+
+  it('should publish prediction markdown and update it on republish', async () => {
+    const github = createMockGitHubProvider();
+    setProviders({ github });
+    const options = {
+      predictionId: 'test-prediction',
+      experimentId: '006',
+      experimentName: 'Test',
+      market,
+      result: {
+        success: true,
+        experimentId: '006',
+        experimentName: 'Test',
+        data: {
+          prediction: loadFixture('llm-responses.json').prediction,
+          model: 'openai/gpt-5',
+          rawRequest: { messages: [] },
+          rawResponse: {},
+        },
+      },
+    };
+
+    const url = await publishPrediction(options);
+    const [path, file] = [...github.files.entries()][0];
+    const markdown = Buffer.from(file.content, 'base64').toString('utf-8');
+
+    expect(url).toMatch(/^https:\/\/github\.com\/better-labs\/prediction-history\/blob\/main\/exp006\//);
+    expect(path).toMatch(/^better-labs\/prediction-history\/exp006\/\d{4}-\d{2}-\d{2}\/prediction-test-prediction\.md$/);
+    expect(markdown).toContain(market.question);
+    expect(file.sha).toBeUndefined();
+
+    await publishPrediction(options);
+    expect(github.files.get(path)?.sha).toBeDefined();
+  });
+
+  it('should show the initial prediction and critique of a challenged prediction', async () => {
+    const github = createMockGitHubProvider();
+    setProviders({ github });
+    const responses = loadFixture('llm-responses.json');
+    const prediction = {
+      ...responses.prediction,
+      probability: 7,
+      debate: {
+        criticModel: 'x-ai/grok-4',
+        adjudicatorModel: 'openai/gpt-5',
+        initial: responses.prediction,
+        critique: responses.critique,
+        revised: true,
+      },
+    };
+
+    await publishPrediction({
+      predictionId: 'test-debate',
+      experimentId: '006',
+      experimentName: 'Test',
+      market,
+      result: {
+        success: true,
+        experimentId: '006',
+        experimentName: 'Test',
+        data: { prediction, model: 'openai/gpt-5', rawRequest: { messages: [] }, rawResponse: {} },
+      },
+    });
+    const [file] = [...github.files.values()];
+    const markdown = Buffer.from(file.content, 'base64').toString('utf-8');
+
+    expect(markdown).toContain('- Initial AI Prediction: 4% (NO)');
+    expect(markdown).toContain('- Final AI Prediction: 7%');
+    expect(markdown).toContain(responses.critique.opposingCase);
+    expect(markdown).toContain(`- ${responses.critique.reasoningFlaws[0]}`);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { db, marketResolutions, markets } from '../db/index.js';
+import { findReferenceClass } from '../services/reference-class.js';
+import { rankBySimilarity, summarizeReferenceClass, tokenize } from '../utils/reference-class.js';
+import { setupTestDatabase, type TestDatabase } from './harness/db.js';
+
+describe('Reference class', () => {
+  it('should tokenize without stop words, keeping numbers', () => {
+    expect(tokenize("Will the Fed cut rates in December 2025?")).toEqual(['fed', 'cut', 'rates', 'december', '2025']);
+    expect(tokenize("Trump's approval above 45.5%")).toEqual(['trump', 'approval', 'above', '45.5']);
+  });
+
+  it('should rank similar questions first and drop unrelated ones', () => {
+    const questions = [
+      'Will the Fed cut rates in September 2025?',
+      'Will Bitcoin reach $150k in 2025?',
+      'Will the ECB cut rates in October 2025?',
+      'Will the Fed cut rates in July 2025?',
+    ];
+
+    const matches = rankBySimilarity('Will the Fed cut rates in December 2025?', questions, question => question, {
+      minScore: 0.2,
+    });
+
+    expect(matches.map(match => match.item).slice(0, 2).sort()).toEqual([questions[0], questions[3]].sort());
+    expect(matches.map(match => match.item)).not.toContain(questions[1]);
+    expect(matches[0].score).toBeGreaterThan(matches[matches.length - 1].score);
+  });
+
+  it('should summarize outcomes and prior prices, excluding voided markets', () => {
+    const summary = summarizeReferenceClass([
+      { question: 'A', outcome: 1, priorPrice: 0.8 },
+      { question: 'B', outcome: 0, priorPrice: 0.4 },
+      { question: 'C', outcome: 0, priorPrice: null },
+      { question: 'D', outcome: null, priorPrice: 0.5 },
+    ]);
+
+    expect(summary).toMatchObject({ count: 4, resolved: 3, yesCount: 1, priced: 2 });
+    expect(summary.yesRate).toBeCloseTo(1 / 3);
+    expect(summary.meanPriorPrice).toBeCloseTo(0.6);
+    expect(summary.priorPriceBrier).toBeCloseTo((0.04 + 0.16) / 2);
+  });
+
+  it('should return no matches for an empty query', () => {
+    expect(rankBySimilarity('the', ['Will the Fed cut rates?'], question => question)).toEqual([]);
+  });
+});
+
+describe('Reference class retrieval', () => {
+  const resolved = [
+    { id: 'fed-sep', question: 'Will the Fed cut rates in September 2025?', resolvedAt: new Date('2025-09-17T18:00:00Z'), index: 0 },
+    { id: 'fed-oct', question: 'Will the Fed cut rates in October 2025?', resolvedAt: new Date('2025-10-29T18:00:00Z'), index: 1 },
+  ];
+  let database: TestDatabase;
+
+  beforeAll(async () => {
+    database = await setupTestDatabase();
+    await db.insert(markets).values(
+      resolved.map(market => ({ marketId: market.id, conditionId: `condition-${market.id}`, slug: market.id, question: market.question }))
+    );
+    await db.insert(marketResolutions).values(
+      resolved.map(market => ({
+        marketId: market.id,
+        status: 'RESOLVED',
+        resolvedOutcome: market.index === 0 ? 'Yes' : 'No',
+        resolvedOutcomeIndex: market.index,
+        resolvedAt: market.resolvedAt,
+        data: {},
+      }))
+    );
+  }, 180_000);
+
+  afterAll(async () => {
+    await database?.teardown();
+  });
+
+  it('should only use markets resolved before the cutoff', async () => {
+    const market = { id: 'fed-dec', question: 'Will the Fed cut rates in December 2025?' };
+
+    const before = await findReferenceClass(market, { asOf: new Date('2025-10-01T00:00:00Z') });
+    const after = await findReferenceClass(market, { asOf: new Date('2025-11-01T00:00:00Z') });
+
+    expect(before.markets.map(referenceMarket => referenceMarket.marketId)).toEqual(['fed-sep']);
+    expect(before.summary.yesRate).toBe(1);
+    expect(after.markets.map(referenceMarket => referenceMarket.marketId).sort()).toEqual(['fed-oct', 'fed-sep']);
+    expect(after.summary.yesRate).toBe(0.5);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { allocateCharacterBudget } from '../utils/research-context.js';
+import { createBudgetExceededError } from '../services/budget.js';
+import {
+  getResearchProviderIds,
+  registerResearchProvider,
+  runResearchProviders,
+  type ResearchProvider,
+} from '../services/research-providers.js';
+
+function createTestProvider(id: string, search: ResearchProvider<string>['search']): ResearchProvider<string> {
+  return { id, name: id, webSearch: true, search, format: items => `# ${id}\n${items.join('\n')}` };
+}
+
+const market = { id: '1', question: 'Will it rain in Paris tomorrow?' };
+
+describe('Research providers', () => {
+  it('should register Exa, Grok and the reference class', () => {
+    expect(getResearchProviderIds()).toEqual(expect.arrayContaining(['exa', 'grok', 'reference-class']));
+  });
+
+  it('should split the character budget by relative share', () => {
+    expect(
+      allocateCharacterBudget(55000, [
+        { id: 'exa', share: 5 },
+        { id: 'grok', share: 5 },
+        { id: 'reference-class', share: 1 },
+      ])
+    ).toEqual([
+      { id: 'exa', maxCharacters: 25000 },
+      { id: 'grok', maxCharacters: 25000 },
+      { id: 'reference-class', maxCharacters: 5000 },
+    ]);
+  });
+
+  it('should give each provider its share and skip providers that fail', async () => {
+    const budgets: Record<string, number> = {};
+    registerResearchProvider(
+      createTestProvider('test-ok', async ({ maxCharacters }) => {
+        budgets['test-ok'] = maxCharacters;
+        return {
+          success: true,
+          items: ['sunny'],
+          characters: 5,
+          truncated: false,
+          costItems: [{ stage: 'research:test-ok', costUsd: 0.01 }],
+        };
+      })
+    );
+    registerResearchProvider(
+      createTestProvider('test-error', async () => ({
+        success: false,
+        items: [],
+        characters: 0,
+        truncated: false,
+        costItems: [],
+        error: 'API key missing',
+      }))
+    );
+    registerResearchProvider(
+      createTestProvider('test-throws', async () => {
+        throw new Error('socket hang up');
+      })
+    );
+
+    const result = await runResearchProviders(
+      {
+        maxCharacters: 9000,
+        providers: [
+          { id: 'test-ok', share: 2 },
+          { id: 'test-error', share: 1 },
+          { id: 'test-throws', share: 1 },
+          { id: 'test-missing', share: 1 },
+        ],
+      },
+      { query: market.question, market }
+    );
+
+    expect(budgets['test-ok']).toBe(3600);
+    expect(result.sections).toEqual([{ id: 'test-ok', text: '# test-ok\nsunny' }]);
+    expect(result.costItems).toEqual([{ stage: 'research:test-ok', costUsd: 0.01 }]);
+    expect(result.runs.map(run => [run.id, run.success, run.error])).toEqual([
+      ['test-ok', true, undefined],
+      ['test-error', false, 'API key missing'],
+      ['test-throws', false, 'socket hang up'],
+      ['test-missing', false, 'Unknown research provider: test-missing'],
+    ]);
+  });
+
+  it('should propagate budget errors', async () => {
+    registerResearchProvider(
+      createTestProvider('test-budget', async () => {
+        throw createBudgetExceededError('daily', 5, 5);
+      })
+    );
+
+    await expect(
+      runResearchProviders({ maxCharacters: 1000, providers: [{ id: 'test-budget', share: 1 }] }, { query: 'q', market })
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { db, markets } from '../db/index.js';
+import { findReusableResearchRun, saveResearchRun } from '../services/research-store.js';
+import { setupTestDatabase, type TestDatabase } from './harness/db.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const EVENT_ID = '35908';
+const GEORGIA_TECH = { id: 'market-gt', eventId: EVENT_ID, question: 'Will Georgia Tech win the 2026 national championship?' };
+const OHIO_STATE = { id: 'market-osu', eventId: EVENT_ID, question: 'Will Ohio State win the 2026 national championship?' };
+
+const result = { success: true, items: [], characters: 100, truncated: false, costItems: [{ stage: 'research:exa', costUsd: 0.015 }] };
+const sources = [{ url: 'https://www.espn.com/story/gt', title: 'Georgia Tech rises', text: 'Georgia Tech moved up.' }];
+
+describe('Research store', () => {
+  let database: TestDatabase;
+
+  beforeAll(async () => {
+    database = await setupTestDatabase();
+    await db.insert(markets).values(
+      [GEORGIA_TECH, OHIO_STATE].map(market => ({
+        marketId: market.id,
+        conditionId: `condition-${market.id}`,
+        slug: market.id,
+        question: market.question,
+      }))
+    );
+    await saveResearchRun('exa', GEORGIA_TECH.question, GEORGIA_TECH, result, sources);
+  }, 180_000);
+
+  afterAll(async () => {
+    await database?.teardown();
+  });
+
+  it('should reuse a fresh run of the same query for the same market', async () => {
+    const stored = await findReusableResearchRun('exa', GEORGIA_TECH.question, GEORGIA_TECH, 6 * HOUR_MS);
+
+    expect(stored?.sources.map(source => source.url)).toEqual(['https://www.espn.com/story/gt']);
+    expect(await findReusableResearchRun('exa', GEORGIA_TECH.question, GEORGIA_TECH, 0)).toBeNull();
+    expect(await findReusableResearchRun('grok', GEORGIA_TECH.question, GEORGIA_TECH, 6 * HOUR_MS)).toBeNull();
+  });
+
+  it('should not share research between markets in one event that ask different questions', async () => {
+    expect(await findReusableResearchRun('exa', OHIO_STATE.question, OHIO_STATE, 6 * HOUR_MS)).toBeNull();
+  });
+
+  it('should share a run of the same query with another market in the event', async () => {
+    const stored = await findReusableResearchRun('exa', GEORGIA_TECH.question, OHIO_STATE, 6 * HOUR_MS);
+
+    expect(stored?.sources).toHaveLength(1);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { brierScore, logLoss, multiOutcomeBrierScore, summarizeScores } from '../utils/scoring.js';
+
+describe('Scoring utilities', () => {
+  it('should compute Brier score', () => {
+    expect(brierScore(0.8, 1)).toBeCloseTo(0.04);
+    expect(brierScore(0.8, 0)).toBeCloseTo(0.64);
+    expect(brierScore(0.5, 1)).toBeCloseTo(0.25);
+  });
+
+  it('should compute log loss with clamping at the extremes', () => {
+    expect(logLoss(0.5, 1)).toBeCloseTo(Math.log(2));
+    expect(Number.isFinite(logLoss(1, 0))).toBe(true);
+  });
+
+  it('should summarize a set of forecasts', () => {
+    const summary = summarizeScores([
+      { probability: 0.9, outcome: 1 },
+      { probability: 0.3, outcome: 1 },
+      { probability: 0.5, outcome: 0 },
+    ]);
+
+    expect(summary.count).toBe(3);
+    expect(summary.brierScore).toBeCloseTo((0.01 + 0.49 + 0.25) / 3);
+    expect(summary.accuracy).toBeCloseTo(1 / 3);
+  });
+
+  it('should score categorical forecasts over every outcome', () => {
+    expect(multiOutcomeBrierScore([0.8, 0.2], 0)).toBeCloseTo(brierScore(0.8, 1));
+    expect(multiOutcomeBrierScore([0.5, 0.3, 0.2], 1)).toBeCloseTo((0.25 + 0.49 + 0.04) / 2);
+
+    const summary = summarizeScores([
+      { probabilities: [0.5, 0.3, 0.2], resolvedIndex: 1 },
+      { probabilities: [0.1, 0.6, 0.3], resolvedIndex: 1 },
+    ]);
+
+    expect(summary.brierScore).toBeCloseTo((0.39 + (0.01 + 0.16 + 0.09) / 2) / 2);
+    expect(summary.logLoss).toBeCloseTo((-Math.log(0.3) - Math.log(0.6)) / 2);
+    expect(summary.accuracy).toBeCloseTo(0.5);
+  });
+
+  it('should return nulls for an empty set', () => {
+    expect(summarizeScores([])).toEqual({ count: 0, brierScore: null, logLoss: null, accuracy: null });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { dispersionConfidence, quantile, summarizeSamples } from '../utils/self-consistency.js';
+
+describe('Self-consistency', () => {
+  it('should interpolate quantiles', () => {
+    expect(quantile([10, 20, 30, 40], 0.5)).toBe(25);
+    expect(quantile([10, 20, 30, 40], 0.25)).toBeCloseTo(17.5);
+    expect(quantile([42], 0.75)).toBe(42);
+  });
+
+  it('should give full confidence only when samples agree', () => {
+    expect(dispersionConfidence(0, 1)).toBe(100);
+    expect(dispersionConfidence(25, 1)).toBe(50);
+    expect(dispersionConfidence(0, 0.6)).toBeCloseTo(60);
+    expect(dispersionConfidence(80, 1)).toBe(0);
+  });
+
+  it('should summarize binary samples', () => {
+    const summary = summarizeSamples([
+      { outcome: 'YES', probability: 60 },
+      { outcome: 'YES', probability: 70 },
+      { outcome: 'NO', probability: 45 },
+      { outcome: 'YES', probability: 65 },
+      { outcome: 'YES', probability: 75 },
+    ]);
+
+    expect(summary.medianProbability).toBe(65);
+    expect(summary.iqr).toBe(10); // q1 60, q3 70
+    expect(summary.majorityOutcome).toBe('YES');
+    expect(summary.majorityVoteShare).toBeCloseTo(0.8);
+    expect(summary.confidence).toBeCloseTo(100 * 0.8 * (1 - 10 / 50));
+  });
+
+  it('should take per-outcome medians for categorical samples', () => {
+    const labels = ['Alice', 'Bob', 'Carol'];
+    const sample = (alice: number, bob: number, carol: number) => ({
+      outcome: 'Alice',
+      probability: alice,
+      outcomeProbabilities: [
+        { outcome: 'Alice', probability: alice },
+        { outcome: 'Bob', probability: bob },
+        { outcome: 'Carol', probability: carol },
+      ],
+    });
+
+    const summary = summarizeSamples([sample(50, 30, 20), sample(60, 20, 20), sample(40, 40, 20)], labels);
+
+    expect(summary.medianOutcomeProbabilities?.map(entry => entry.outcome)).toEqual(labels);
+    expect(summary.medianOutcomeProbabilities?.reduce((sum, entry) => sum + entry.probability, 0)).toBeCloseTo(100);
+    expect(summary.medianProbability).toBeCloseTo(50);
+    expect(summary.iqr).toBe(10);
+  });
+
+  it('should report the quartiles of the outcome the categorical IQR comes from', () => {
+    const labels = ['Alice', 'Bob'];
+    const sample = (alice: number, bob: number) => ({
+      outcome: 'Alice',
+      probability: alice,
+      outcomeProbabilities: [
+        { outcome: 'Alice', probability: alice },
+        { outcome: 'Bob', probability: bob },
+      ],
+    });
+
+    const summary = summarizeSamples([sample(60, 10), sample(62, 30), sample(64, 50)], labels);
+
+    expect(summary.iqrOutcome).toBe('Bob');
+    expect(summary).toMatchObject({ q1: 20, q3: 40, iqr: 20 });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canonicalizeUrl,
+  getDomainCredibility,
+  mergeResearchSources,
+  type SourceCandidate,
+} from '../utils/source-merge.js';
+
+const ARTICLE_TEXT =
+  'Georgia Tech beat Clemson on Saturday and moved into the top twelve of the playoff rankings, ' +
+  'keeping its hopes of a first national title appearance alive with two games left in the season.';
+
+function candidate(provider: string, rank: number, source: SourceCandidate['source'], sourceId?: number): SourceCandidate {
+  return { provider, rank, source, sourceId };
+}
+
+describe('Source merge', () => {
+  it('should canonicalize tracking parameters, AMP and mobile variants to one URL', () => {
+    const canonical = canonicalizeUrl('https://www.espn.com/story/georgia-tech?id=7');
+
+    expect(canonicalizeUrl('http://m.espn.com/story/georgia-tech/?utm_source=x&id=7#top')).toBe(canonical);
+    expect(canonicalizeUrl('https://amp.espn.com/story/georgia-tech/amp?id=7&fbclid=abc')).toBe(canonical);
+    expect(canonicalizeUrl('https://espn.com/story/georgia-tech?id=8')).not.toBe(canonical);
+  });
+
+  it('should rate official sites and major outlets above social media', () => {
+    expect(getDomainCredibility('https://www.census.gov/data')).toBe(1);
+    expect(getDomainCredibility('https://www.reuters.com/world/article')).toBe(1);
+    expect(getDomainCredibility('https://www.reddit.com/r/cfb/comments/1')).toBeLessThan(
+      getDomainCredibility('https://example-blog.net/post')
+    );
+  });
+
+  it('should collapse the same article found by two providers and keep the fullest copy', () => {
+    const { sources, summary } = mergeResearchSources(
+      [
+        candidate('exa', 0, { url: 'https://www.espn.com/story/gt?utm_medium=social', title: 'GT rises', text: ARTICLE_TEXT }, 11),
+        candidate('grok', 0, { url: 'https://espn.com/story/gt', title: 'GT rises', text: 'Short snippet', source: 'ESPN' }, 21),
+        candidate('grok', 1, {
+          url: 'https://syndicated.example.com/gt-rises',
+          title: 'Syndicated copy',
+          text: `${ARTICLE_TEXT} Reprinted with permission.`,
+        }),
+        candidate('grok', 2, { url: 'https://other.example.com/weather', title: 'Weather', text: 'Rain expected in Atlanta this weekend.' }),
+      ],
+      { maxCharacters: 10_000 }
+    );
+
+    expect(summary).toMatchObject({ candidates: 4, duplicates: 2, distinct: 2, kept: 2 });
+    expect(sources[0]).toMatchObject({ providers: ['grok', 'exa'], source: 'ESPN', duplicates: 2 });
+    expect(sources.map(source => source.title)).toContain('Weather');
+  });
+
+  it('should rank recent credible sources first and skip those that do not fit the budget', () => {
+    const { sources, summary } = mergeResearchSources(
+      [
+        candidate('exa', 0, { url: 'https://old-blog.example.com/a', title: 'Old', text: 'a'.repeat(100), publishedDate: '2024-01-01', score: 0.3 }),
+        candidate('exa', 1, { url: 'https://www.reuters.com/b', title: 'Recent', text: 'b'.repeat(100), publishedDate: '2025-11-20', score: 0.3 }),
+        candidate('exa', 2, { url: 'https://example.com/c', title: 'Too long', text: 'c'.repeat(1000), score: 0.2 }),
+      ],
+      { maxCharacters: 300, endDate: '2025-12-01T00:00:00Z', now: new Date('2026-03-01T00:00:00Z') }
+    );
+
+    expect(sources.map(source => source.title)).toEqual(['Recent', 'Old']);
+    expect(summary.kept).toBe(2);
+    expect(summary.byProvider.exa).toEqual({ candidates: 3, kept: 2 });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  createLlmClient,
+  createLlmError,
+  normalizeUsage,
+  type LlmProvider,
+  type LlmRequest,
+} from '../services/llm-client.js';
+import {
+  completeStructured,
+  extractJson,
+  isStructuredOutputError,
+  parseStructuredContent,
+} from '../services/structured-output.js';
+
+const schema = z.object({
+  outcome: z.enum(['YES', 'NO']),
+  probability: z.number().min(0).max(100),
+});
+
+/**
+ * Provider that replies with (or throws) the given contents in order and records each request
+ */
+function createScriptedProvider(contents: Array<string | Error>): LlmProvider & { requests: LlmRequest[] } {
+  const provider = {
+    name: 'fake',
+    requests: [] as LlmRequest[],
+    async complete(request: LlmRequest) {
+      provider.requests.push(request);
+      const content = contents.shift() ?? '';
+      if (content instanceof Error) {
+        throw content;
+      }
+      return {
+        content,
+        model: request.model,
+        usage: normalizeUsage({ prompt_tokens: 100, completion_tokens: 20 }),
+        raw: {},
+      };
+    },
+  };
+  return provider;
+}
+
+const messages = [{ role: 'user' as const, content: 'Predict' }];
+
+describe('Structured output', () => {
+  it('should parse fenced and bare JSON', () => {
+    expect(extractJson('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(extractJson(' {"a": 1} ')).toEqual({ a: 1 });
+  });
+
+  it('should report validation errors by path', () => {
+    const result = parseStructuredContent('{"outcome": "MAYBE", "probability": 120}', schema);
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toContain('- outcome:');
+    expect(!result.success && result.error).toContain('- probability:');
+  });
+
+  it('should repair an invalid response by feeding back the errors', async () => {
+    const provider = createScriptedProvider(['{"outcome": "YES"}', '{"outcome": "YES", "probability": 62}']);
+    const client = createLlmClient({ provider, baseDelayMs: 0 });
+
+    const result = await completeStructured({ model: 'test/model', messages, schema, schemaName: 'prediction', client });
+
+    expect(result.value).toEqual({ outcome: 'YES', probability: 62 });
+    expect(result.attempts.map(attempt => attempt.error === null)).toEqual([false, true]);
+    expect(result.usage.promptTokens).toBe(200);
+
+    const repairRequest = provider.requests[1];
+    expect(repairRequest.messages).toHaveLength(3);
+    expect(repairRequest.messages[1]).toEqual({ role: 'assistant', content: '{"outcome": "YES"}' });
+    expect(repairRequest.messages[2].content).toContain('probability');
+  });
+
+  it('should give up after maxRepairs with every attempt attached', async () => {
+    const provider = createScriptedProvider(['not json', 'still not json']);
+    const client = createLlmClient({ provider, baseDelayMs: 0 });
+
+    const error = await completeStructured({
+      model: 'test/model',
+      messages,
+      schema,
+      schemaName: 'prediction',
+      maxRepairs: 1,
+      client,
+    }).catch(caught => caught);
+
+    expect(isStructuredOutputError(error)).toBe(true);
+    expect(error.attempts).toHaveLength(2);
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  it('should keep the paid attempts when a repair call fails', async () => {
+    const provider = createScriptedProvider(['not json', createLlmError('bad request', { status: 400, retryable: false })]);
+    const client = createLlmClient({ provider, baseDelayMs: 0 });
+
+    const error = await completeStructured({ model: 'test/model', messages, schema, schemaName: 'prediction', client }).catch(
+      caught => caught
+    );
+
+    expect(isStructuredOutputError(error)).toBe(true);
+    expect(error.message).toContain('bad request');
+    expect(error.attempts).toHaveLength(1);
+  });
+
+  it('should only send response_format to models that support it', async () => {
+    const provider = createScriptedProvider(['{"outcome": "NO", "probability": 10}', '{"outcome": "NO", "probability": 10}']);
+    const client = createLlmClient({ provider, baseDelayMs: 0 });
+
+    await completeStructured({ model: 'openai/gpt-5', messages, schema, schemaName: 'prediction', client });
+    await completeStructured({ model: 'test/model', messages, schema, schemaName: 'prediction', client });
+
+    expect(provider.requests[0].responseFormat?.name).toBe('prediction');
+    expect(provider.requests[1].responseFormat).toBeUndefined();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_MODEL_LIMITS, MODEL_IDS, getModelLimits } from '../config/models.js';
+import { fitSectionsToBudget, getResearchTokenBudget, getTokenizer, type Tokenizer } from '../utils/token-budget.js';
+
+// One token per character keeps the arithmetic readable
+const characterTokenizer: Tokenizer = { name: 'characters', count: text => text.length };
+
+// DEFAULT_MODEL_LIMITS: 128K window, 16K output reserve
+const UNLISTED_MODEL = 'example/unlisted-model';
+const AVAILABLE = DEFAULT_MODEL_LIMITS.contextWindow - DEFAULT_MODEL_LIMITS.maxOutputTokens;
+
+describe('Token budget', () => {
+  it('should size research to the model context window', () => {
+    expect(getModelLimits(UNLISTED_MODEL)).toEqual(DEFAULT_MODEL_LIMITS);
+    expect(getResearchTokenBudget(MODEL_IDS.OPENAI_GPT_5)).toBeGreaterThan(
+      getResearchTokenBudget(MODEL_IDS.XAI_GROK_3_MINI)
+    );
+  });
+
+  it('should count tokens with the encoding listed for the model', () => {
+    const claude = getTokenizer(MODEL_IDS.ANTHROPIC_CLAUDE_SONNET_4_5);
+    const gpt = getTokenizer(MODEL_IDS.OPENAI_GPT_5);
+
+    expect(claude.name).toBe('cl100k_base');
+    expect(claude.count('tiktoken is great!')).toBe(6);
+    expect(claude.count('')).toBe(0);
+    expect(gpt.name).toBe('o200k_base');
+    // o200k_base merges non-English text into fewer tokens
+    expect(claude.count('こんにちは世界')).toBe(4);
+    expect(gpt.count('こんにちは世界')).toBe(2);
+  });
+
+  it('should keep every section when the prompt fits', () => {
+    const { sections, report } = fitSectionsToBudget(
+      [
+        { id: 'system', text: 'system', priority: 0, required: true },
+        { id: 'exa', text: 'web research', priority: 1 },
+      ],
+      { model: UNLISTED_MODEL, tokenizer: characterTokenizer }
+    );
+
+    expect(sections.map(section => section.id)).toEqual(['system', 'exa']);
+    expect(report).toMatchObject({ availableTokens: AVAILABLE, usedTokens: 18, cuts: [] });
+  });
+
+  it('should cut low-priority research first, at source boundaries, and record the cuts', () => {
+    const required = 'x'.repeat(AVAILABLE - 300);
+    const sources = ['a'.repeat(100), 'b'.repeat(100), 'c'.repeat(100)].join('\n\n---\n\n');
+    const { sections, report } = fitSectionsToBudget(
+      [
+        { id: 'system', text: required, priority: 0, required: true },
+        { id: 'merged', text: sources, priority: 1 },
+        { id: 'reference-class', text: 'r'.repeat(150), priority: 2 },
+        { id: 'planned-research', text: 'p'.repeat(50), priority: 1 },
+      ],
+      { model: UNLISTED_MODEL, tokenizer: characterTokenizer }
+    );
+
+    expect(sections.map(section => section.id)).toEqual(['system', 'merged', 'reference-class']);
+    expect(sections[1].text.startsWith('a'.repeat(100))).toBe(true);
+    expect(sections[1].text).not.toContain('b');
+    expect(report.cuts).toEqual([
+      { id: 'merged', action: 'truncated', tokens: sources.length, keptTokens: sections[1].text.length },
+      { id: 'planned-research', action: 'dropped', tokens: 50, keptTokens: 0 },
+    ]);
+    expect(report.usedTokens).toBeLessThanOrEqual(AVAILABLE);
+  });
+});
@@ -0,0 +1,74 @@
+import { summarizeScores, type ScoreSummary, type ScoredForecast } from './scoring.js';
+
+/**
+ * Anchoring analysis utilities
+ * Compare forecasts made with market prices in the prompt (anchored) against forecasts made
+ * without them (blind). Probabilities are decimals (0-1) for the first outcome (YES); categorical
+ * markets also carry every outcome's probability, which is what their scores use.
+ */
+
+export interface AnchoringPair {
+  anchored: number; // 0-1
+  blind: number; // 0-1
+  market: number; // 0-1, market price at prediction time
+  outcome?: 0 | 1; // Set once the market has resolved
+  categorical?: {
+    anchored: number[]; // 0-1 per outcome, in market outcome order
+    blind: number[];
+    market: number[];
+    resolvedIndex?: number; // Set once the market has resolved
+  };
+}
+
+export interface AnchoringSummary {
+  count: number;
+  anchoredDistance: number | null; // Mean |anchored - market|
+  blindDistance: number | null; // Mean |blind - market|
+  anchoringBias: number | null; // blindDistance - anchoredDistance (positive = prices pull forecasts toward the market)
+  anchored: ScoreSummary; // Resolved pairs only
+  blind: ScoreSummary;
+  market: ScoreSummary;
+  blindMarketBlend: ScoreSummary; // Mean of blind and market; beats market only if blind adds information
+}
+
+/**
+ * Measure anchoring bias and score anchored, blind and market forecasts on the same pairs
+ */
+export function summarizeAnchoring(pairs: AnchoringPair[]): AnchoringSummary {
+  const mean = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+  const anchoredDistance = mean(pairs.map(pair => Math.abs(pair.anchored - pair.market)));
+  const blindDistance = mean(pairs.map(pair => Math.abs(pair.blind - pair.market)));
+
+  // Categorical pairs are scored over every outcome, binary pairs on the first
+  const resolved = pairs.filter(pair =>
+    pair.categorical ? pair.categorical.resolvedIndex !== undefined : pair.outcome !== undefined
+  );
+  const score = (getProbability: (forecasts: Pick<AnchoringPair, 'anchored' | 'blind' | 'market'>) => number) =>
+    summarizeScores(
+      resolved.map((pair): ScoredForecast => {
+        if (!pair.categorical) {
+          return { probability: getProbability(pair), outcome: pair.outcome! };
+        }
+        const { anchored, blind, market, resolvedIndex } = pair.categorical;
+        return {
+          probabilities: anchored.map((_, index) =>
+            getProbability({ anchored: anchored[index], blind: blind[index], market: market[index] })
+          ),
+          resolvedIndex: resolvedIndex!,
+        };
+      })
+    );
+
+  return {
+    count: pairs.length,
+    anchoredDistance,
+    blindDistance,
+    anchoringBias: anchoredDistance !== null && blindDistance !== null ? blindDistance - anchoredDistance : null,
+    anchored: score(pair => pair.anchored),
+    blind: score(pair => pair.blind),
+    market: score(pair => pair.market),
+    blindMarketBlend: score(pair => (pair.blind + pair.market) / 2),
+  };
+}
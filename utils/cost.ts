@@ -0,0 +1,72 @@
+import { getModelPricing, RESEARCH_PRICING } from '../config/models.js';
+
+/**
+ * Cost calculation utilities
+ * All amounts are in USD; null means the cost is unknown (e.g. unpriced model).
+ */
+
+export interface CostItem {
+  stage: string; // e.g. 'research:exa', 'research:grok', 'prediction'
+  model?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  costUsd: number | null;
+}
+
+export interface CostBreakdown {
+  totalUsd: number; // Sum of priced items
+  items: CostItem[];
+  unpricedStages: string[]; // Stages whose cost is unknown (totalUsd is a lower bound)
+}
+
+/**
+ * Cost of one LLM call from token usage
+ *
+ * @returns Cost in USD, or null when the model has no pricing entry
+ */
+export function calculateLlmCost(
+  model: string,
+  usage: { promptTokens?: number | null; completionTokens?: number | null }
+): number | null {
+  const pricing = getModelPricing(model);
+  if (!pricing) {
+    return null;
+  }
+
+  return (
+    ((usage.promptTokens ?? 0) * pricing.inputPerMillion + (usage.completionTokens ?? 0) * pricing.outputPerMillion) /
+    1_000_000
+  );
+}
+
+/**
+ * Estimated cost of one Exa search with contents
+ *
+ * @param numResults - Results returned by the search
+ * @param contentTypes - Number of content types requested per result (text, highlights, summary)
+ */
+export function calculateExaCost(numResults: number, contentTypes: number): number {
+  const { searchPerRequest, contentPerResult } = RESEARCH_PRICING.exa;
+  return searchPerRequest + numResults * contentTypes * contentPerResult;
+}
+
+/**
+ * Estimated cost of one Exa contents request for known URLs (no search fee)
+ *
+ * @param numResults - Pages returned
+ * @param contentTypes - Number of content types requested per page (text, highlights, summary)
+ */
+export function calculateExaContentsCost(numResults: number, contentTypes: number): number {
+  return numResults * contentTypes * RESEARCH_PRICING.exa.contentPerResult;
+}
+
+/**
+ * Combine stage costs into a breakdown
+ */
+export function summarizeCosts(items: CostItem[]): CostBreakdown {
+  return {
+    totalUsd: items.reduce((sum, item) => sum + (item.costUsd ?? 0), 0),
+    items,
+    unpricedStages: items.filter(item => item.costUsd === null).map(item => item.stage),
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * Ensemble aggregation utilities
+ * Combine several models' probabilities (0-100) into one forecast and measure how much they disagree.
+ */
+
+export const ENSEMBLE_AGGREGATORS = ['mean', 'median', 'trimmed-mean', 'brier-logodds'] as const;
+
+export type EnsembleAggregator = typeof ENSEMBLE_AGGREGATORS[number];
+
+// Share of members dropped from each end by the trimmed mean
+const TRIM_FRACTION = 0.2;
+
+// Keep log-odds finite for members that answer 0 or 100
+const LOG_ODDS_CLAMP = 0.5;
+
+// Unscored models are weighted as a coin flip; very low Brier scores are floored so one model cannot dominate
+const UNSCORED_BRIER = 0.25;
+const MIN_BRIER = 0.05;
+
+export interface EnsembleDisagreement {
+  stdDev: number; // Population standard deviation, percentage points
+  range: number; // Max minus min, percentage points
+}
+
+/**
+ * Check whether a string is a known aggregator
+ */
+export function isEnsembleAggregator(value: string): value is EnsembleAggregator {
+  return (ENSEMBLE_AGGREGATORS as readonly string[]).includes(value);
+}
+
+/**
+ * Pooling weight for a model from its historical Brier score (0-1, lower is better)
+ *
+ * @param brierScore - Mean Brier score over resolved predictions, null when not enough history
+ */
+export function brierWeight(brierScore: number | null): number {
+  return 1 / Math.max(brierScore ?? UNSCORED_BRIER, MIN_BRIER);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function trimmedMean(values: number[]): number {
+  const trim = Math.floor(values.length * TRIM_FRACTION);
+  const sorted = [...values].sort((a, b) => a - b);
+  return mean(sorted.slice(trim, sorted.length - trim));
+}
+
+/**
+ * Weighted mean in log-odds space, mapped back to a probability
+ */
+function logOddsPool(values: number[], weights: number[]): number {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const pooled = values.reduce((sum, value, index) => {
+    const p = Math.min(Math.max(value, LOG_ODDS_CLAMP), 100 - LOG_ODDS_CLAMP) / 100;
+    return sum + weights[index] * Math.log(p / (1 - p));
+  }, 0) / totalWeight;
+
+  return 100 / (1 + Math.exp(-pooled));
+}
+
+/**
+ * Aggregate member probabilities (0-100) into one probability
+ *
+ * @param weights - Per-member weights for 'brier-logodds' (see brierWeight), equal weights when omitted
+ */
+export function aggregateProbabilities(
+  probabilities: number[],
+  aggregator: EnsembleAggregator,
+  weights?: number[]
+): number {
+  if (probabilities.length === 0) {
+    throw new Error('Cannot aggregate an empty ensemble');
+  }
+
+  switch (aggregator) {
+    case 'mean':
+      return mean(probabilities);
+    case 'median':
+      return median(probabilities);
+    case 'trimmed-mean':
+      return trimmedMean(probabilities);
+    case 'brier-logodds':
+      return logOddsPool(probabilities, weights ?? probabilities.map(() => 1));
+  }
+}
+
+/**
+ * Spread of member probabilities (0-100)
+ */
+export function computeDisagreement(probabilities: number[]): EnsembleDisagreement {
+  if (probabilities.length === 0) {
+    return { stdDev: 0, range: 0 };
+  }
+
+  const average = mean(probabilities);
+  return {
+    stdDev: Math.sqrt(mean(probabilities.map(value => (value - average) ** 2))),
+    range: Math.max(...probabilities) - Math.min(...probabilities),
+  };
+}
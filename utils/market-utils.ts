@@ -55,6 +55,44 @@ export function parseOutcomePrices(outcomePrices?: string): ParseResult<number[]
   }
 }
 
+/**
+ * Parse Polymarket outcomes string to array of outcome labels
+ * Expected format: JSON string like '["Yes", "No"]'
+ *
+ * @param outcomes - Raw outcomes string from Polymarket API
+ * @returns ParseResult with array of labels or error
+ */
+export function parseOutcomes(outcomes?: string): ParseResult<string[]> {
+  if (!outcomes) {
+    return {
+      success: false,
+      error: 'outcomes is undefined or empty',
+    };
+  }
+
+  try {
+    const parsed = JSON.parse(outcomes);
+
+    if (!Array.isArray(parsed) || parsed.some(label => typeof label !== 'string')) {
+      return {
+        success: false,
+        error: 'outcomes is not an array of strings',
+      };
+    }
+
+    return {
+      success: true,
+      value: parsed,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: `Failed to parse outcomes: ${errorMessage}`,
+    };
+  }
+}
+
 /**
  * Extract YES outcome price (first element) from outcomePrices string
  *
@@ -151,19 +189,154 @@ export function calculatePredictionDelta(
 
 /**
  * Format outcome prices for display in prompts
+ * Uses the market's outcome labels when available, otherwise YES/NO for two-outcome markets.
  *
  * @param outcomePrices - Raw outcomePrices string from Polymarket API
+ * @param outcomes - Raw outcomes string from Polymarket API (optional)
  * @returns Formatted string for display, or error message
  */
-export function formatOutcomePrices(outcomePrices?: string): string {
+export function formatOutcomePrices(outcomePrices?: string, outcomes?: string): string {
   const parseResult = parseOutcomePrices(outcomePrices);
 
   if (!parseResult.success || !parseResult.value) {
     return 'N/A';
   }
 
-  const [yesPrice, noPrice] = parseResult.value;
-  return `YES: ${(yesPrice * 100).toFixed(1)}%, NO: ${(noPrice * 100).toFixed(1)}%`;
+  const prices = parseResult.value;
+  const labels = parseOutcomes(outcomes).value;
+  const defaultLabels = prices.length === 2 ? ['YES', 'NO'] : [];
+
+  return prices
+    .map((price, index) => {
+      const label = labels?.length === prices.length ? labels[index] : defaultLabels[index] ?? `Outcome ${index + 1}`;
+      return `${label}: ${(price * 100).toFixed(1)}%`;
+    })
+    .join(', ');
+}
+
+/**
+ * One tradable outcome of a market: label, current price and CLOB token ID
+ */
+export interface MarketOutcome {
+  label: string;
+  price: number; // 0-1
+  tokenId?: string;
+}
+
+/**
+ * Parse a market's outcomes, outcomePrices and clobTokenIds into one aligned list
+ * Markets without an outcomes field fall back to Yes/No labels when they have two prices.
+ *
+ * @param market - Market with raw Gamma outcome fields (compatible with PolymarketMarket interface)
+ * @returns ParseResult with one entry per outcome, in Gamma order
+ */
+export function parseMarketOutcomes(market: {
+  outcomes?: string;
+  outcomePrices?: string;
+  clobTokenIds?: string;
+}): ParseResult<MarketOutcome[]> {
+  const pricesResult = parseOutcomePrices(market.outcomePrices);
+  if (!pricesResult.success || !pricesResult.value) {
+    return {
+      success: false,
+      error: pricesResult.error,
+    };
+  }
+
+  const prices = pricesResult.value;
+  const labels = parseOutcomes(market.outcomes).value ?? (prices.length === 2 ? ['Yes', 'No'] : undefined);
+
+  if (!labels || labels.length !== prices.length) {
+    return {
+      success: false,
+      error: `outcomes (${labels?.length ?? 0}) and outcomePrices (${prices.length}) do not align`,
+    };
+  }
+
+  // Token IDs are optional (not needed for prompting or scoring), ignore them if they do not align
+  let tokenIds: string[] = [];
+  try {
+    const parsed = market.clobTokenIds ? JSON.parse(market.clobTokenIds) : [];
+    tokenIds = Array.isArray(parsed) && parsed.length === prices.length ? parsed : [];
+  } catch {
+    tokenIds = [];
+  }
+
+  return {
+    success: true,
+    value: labels.map((label, index) => ({
+      label,
+      price: prices[index],
+      tokenId: tokenIds[index],
+    })),
+  };
+}
+
+/**
+ * Get outcome labels for markets that need a named probability distribution
+ * Returns undefined for plain Yes/No markets (and markets whose outcomes cannot be parsed),
+ * which keep using the binary YES probability.
+ */
+export function getCategoricalOutcomeLabels(market: {
+  outcomes?: string;
+  outcomePrices?: string;
+}): string[] | undefined {
+  const outcomesResult = parseMarketOutcomes(market);
+  if (!outcomesResult.success || !outcomesResult.value || outcomesResult.value.length < 2) {
+    return undefined;
+  }
+
+  const labels = outcomesResult.value.map(outcome => outcome.label);
+  const isYesNo = labels.length === 2 && labels[0].toLowerCase() === 'yes' && labels[1].toLowerCase() === 'no';
+
+  return isYesNo ? undefined : labels;
+}
+
+/**
+ * Per-outcome comparison between the AI distribution and market prices
+ */
+export interface OutcomeDelta {
+  outcome: string;
+  probability: number; // 0-100, AI probability
+  marketPrice: number | null; // 0-1, null when the market has no such outcome
+  delta: number | null; // probability / 100 - marketPrice (positive = AI more bullish than market)
+}
+
+/**
+ * Calculate per-outcome deltas between an AI probability distribution and market prices
+ * Outcomes are matched by label (case-insensitive).
+ *
+ * @param marketOutcomes - Parsed market outcomes (see parseMarketOutcomes)
+ * @param outcomeProbabilities - AI probabilities per outcome label (0-100 scale)
+ */
+export function calculateOutcomeDeltas(
+  marketOutcomes: MarketOutcome[],
+  outcomeProbabilities: Array<{ outcome: string; probability: number }>
+): OutcomeDelta[] {
+  return outcomeProbabilities.map(({ outcome, probability }) => {
+    const marketOutcome = marketOutcomes.find(m => m.label.toLowerCase() === outcome.toLowerCase());
+    const marketPrice = marketOutcome?.price ?? null;
+
+    return {
+      outcome,
+      probability,
+      marketPrice,
+      delta: marketPrice !== null ? probability / 100 - marketPrice : null,
+    };
+  });
+}
+
+/**
+ * Rescale a probability distribution so it sums to 100
+ * Models rarely return an exactly coherent distribution; an all-zero distribution is returned unchanged.
+ */
+export function normalizeOutcomeProbabilities<T extends { probability: number }>(entries: T[]): T[] {
+  const total = entries.reduce((sum, entry) => sum + entry.probability, 0);
+  if (total <= 0) {
+    return entries;
+  }
+
+  return entries.map(entry => ({ ...entry, probability: (entry.probability / total) * 100 }));
 }
 
 /**
@@ -0,0 +1,117 @@
+/**
+ * Reference class utilities
+ * Text similarity for finding past markets like the current one, and a summary of how that
+ * reference class resolved. Prices are decimals (0-1) for the first outcome (YES).
+ */
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'before', 'by', 'de', 'did', 'do', 'does', 'for', 'from', 'has',
+  'have', 'in', 'is', 'it', 'its', 'of', 'on', 'or', 'than', 'that', 'the', 'this', 'to', 'vs', 'was', 'will',
+  'with', 'who', 'what', 'which', 'win', 'end', 'after', 'between', 'more', 'less', 'any', 'yes', 'no',
+]);
+
+/**
+ * Lowercase word tokens without stop words (numbers kept: years and thresholds matter)
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+(?:[.'][a-z0-9]+)*/g) ?? [])
+    .map(token => token.replace(/'s$/, ''))
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+export interface SimilarityMatch<T> {
+  item: T;
+  score: number; // Cosine similarity, 0-1
+}
+
+/**
+ * Rank documents by TF-IDF cosine similarity to a query
+ * IDF comes from the documents themselves, so words shared by most candidates
+ * (e.g. "price", "2025") count for little.
+ */
+export function rankBySimilarity<T>(
+  query: string,
+  items: T[],
+  getText: (item: T) => string,
+  options: { limit?: number; minScore?: number } = {}
+): SimilarityMatch<T>[] {
+  const { limit = 10, minScore = 0 } = options;
+  const documents = items.map(item => tokenize(getText(item)));
+
+  const documentFrequency = new Map<string, number>();
+  for (const tokens of documents) {
+    for (const token of new Set(tokens)) {
+      documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+    }
+  }
+  const idf = (token: string) => Math.log((documents.length + 1) / ((documentFrequency.get(token) ?? 0) + 1)) + 1;
+
+  const toVector = (tokens: string[]) => {
+    const vector = new Map<string, number>();
+    for (const token of tokens) {
+      vector.set(token, (vector.get(token) ?? 0) + 1);
+    }
+    for (const [token, count] of vector) {
+      vector.set(token, count * idf(token));
+    }
+    return vector;
+  };
+  const norm = (vector: Map<string, number>) => Math.sqrt([...vector.values()].reduce((sum, w) => sum + w * w, 0));
+
+  const queryVector = toVector(tokenize(query));
+  const queryNorm = norm(queryVector);
+  if (queryNorm === 0) {
+    return [];
+  }
+
+  return documents
+    .map((tokens, index) => {
+      const vector = toVector(tokens);
+      const vectorNorm = norm(vector);
+      let dot = 0;
+      for (const [token, weight] of queryVector) {
+        dot += weight * (vector.get(token) ?? 0);
+      }
+      return { item: items[index], score: vectorNorm === 0 ? 0 : dot / (queryNorm * vectorNorm) };
+    })
+    .filter(match => match.score > 0 && match.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+export interface ReferenceMarket {
+  question: string;
+  outcome: 0 | 1 | null; // 1 = first outcome (YES) won; null = VOID
+  priorPrice: number | null; // 0-1, last known YES price before resolution
+}
+
+export interface ReferenceClassSummary {
+  count: number;
+  resolved: number; // Excludes VOID
+  yesCount: number;
+  yesRate: number | null; // Share of resolved markets that resolved YES
+  priced: number; // Resolved markets with a prior price
+  meanPriorPrice: number | null; // Mean prior YES price over priced markets
+  priorPriceBrier: number | null; // How well those prior prices forecast the outcome
+}
+
+/**
+ * Summarize how a reference class resolved and what the market priced beforehand
+ */
+export function summarizeReferenceClass(markets: ReferenceMarket[]): ReferenceClassSummary {
+  const resolved = markets.filter(market => market.outcome !== null);
+  const priced = resolved.filter(market => market.priorPrice !== null);
+  const yesCount = resolved.filter(market => market.outcome === 1).length;
+  const mean = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+  return {
+    count: markets.length,
+    resolved: resolved.length,
+    yesCount,
+    yesRate: resolved.length > 0 ? yesCount / resolved.length : null,
+    priced: priced.length,
+    meanPriorPrice: mean(priced.map(market => market.priorPrice!)),
+    priorPriceBrier: mean(priced.map(market => (market.priorPrice! - market.outcome!) ** 2)),
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Research context utilities
+ * Shared by the research strategies that assemble a prompt context from many sources.
+ */
+
+/**
+ * Provider-neutral form of a result, as stored in research_sources
+ */
+export interface ResearchSourceData {
+  url: string;
+  title?: string;
+  publishedDate?: string;
+  author?: string;
+  source?: string; // Publication or site name
+  summary?: string;
+  text?: string;
+  highlights?: string[];
+  score?: number;
+}
+
+/**
+ * Keep leading items until their combined length would exceed a character limit
+ */
+export function takeWithinCharacters<T>(items: T[], getLength: (item: T) => number, maxCharacters: number) {
+  const kept: T[] = [];
+  let characters = 0;
+  for (const item of items) {
+    const length = getLength(item);
+    if (characters + length > maxCharacters) {
+      break;
+    }
+    kept.push(item);
+    characters += length;
+  }
+  return { kept, characters };
+}
+
+export interface ResearchBudgetShare {
+  id: string;
+  share: number; // Relative weight, e.g. 5 and 5 for an even split
+}
+
+// Even Exa/Grok split, for web research strategies called without a research config
+export const DEFAULT_WEB_SHARES: ResearchBudgetShare[] = [
+  { id: 'exa', share: 1 },
+  { id: 'grok', share: 1 },
+];
+
+/**
+ * Split a character budget across research providers in proportion to their shares
+ */
+export function allocateCharacterBudget(maxCharacters: number, shares: ResearchBudgetShare[]) {
+  const total = shares.reduce((sum, { share }) => sum + Math.max(share, 0), 0);
+  return shares.map(({ id, share }) => ({
+    id,
+    maxCharacters: total > 0 ? Math.floor((maxCharacters * Math.max(share, 0)) / total) : 0,
+  }));
+}
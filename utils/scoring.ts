@@ -0,0 +1,108 @@
+/**
+ * Probabilistic forecast scoring utilities
+ * All probabilities are decimals (0-1). Binary forecasts give the first outcome (YES), with outcome 1
+ * if it happened, else 0; categorical forecasts give every outcome, scored against the resolved index.
+ */
+
+// Clamp probabilities away from 0/1 so a single overconfident miss does not produce an infinite log loss
+const LOG_LOSS_EPSILON = 1e-6;
+
+export interface BinaryForecast {
+  probability: number; // 0-1
+  outcome: 0 | 1;
+}
+
+export interface CategoricalForecast {
+  probabilities: number[]; // 0-1 per outcome, in market outcome order
+  resolvedIndex: number; // Outcome that won
+}
+
+export type ScoredForecast = BinaryForecast | CategoricalForecast;
+
+export interface ScoreSummary {
+  count: number;
+  brierScore: number | null;
+  logLoss: number | null;
+  accuracy: number | null;
+}
+
+/**
+ * Brier score for a single binary forecast: (p - o)^2, lower is better (0 = perfect, 0.25 = coin flip)
+ */
+export function brierScore(probability: number, outcome: 0 | 1): number {
+  return (probability - outcome) ** 2;
+}
+
+/**
+ * Log loss for a single binary forecast: -(o * ln(p) + (1 - o) * ln(1 - p)), lower is better
+ */
+export function logLoss(probability: number, outcome: 0 | 1): number {
+  const p = Math.min(Math.max(probability, LOG_LOSS_EPSILON), 1 - LOG_LOSS_EPSILON);
+  return -(outcome * Math.log(p) + (1 - outcome) * Math.log(1 - p));
+}
+
+/**
+ * Whether the forecast picked the right side (exactly 50% counts as a miss)
+ */
+export function isCorrect(probability: number, outcome: 0 | 1): boolean {
+  return outcome === 1 ? probability > 0.5 : probability < 0.5;
+}
+
+/**
+ * Brier score for a forecast over several outcomes: half the sum of (p_i - o_i)^2 over outcomes,
+ * so a two-outcome market scores the same as the binary Brier score (0 = perfect, 1 = worst)
+ */
+export function multiOutcomeBrierScore(probabilities: number[], resolvedIndex: number): number {
+  return probabilities.reduce((sum, p, index) => sum + (p - (index === resolvedIndex ? 1 : 0)) ** 2, 0) / 2;
+}
+
+/**
+ * Log loss for a forecast over several outcomes: -ln(p) of the outcome that won
+ */
+export function multiOutcomeLogLoss(probabilities: number[], resolvedIndex: number): number {
+  return -Math.log(Math.min(Math.max(probabilities[resolvedIndex] ?? 0, LOG_LOSS_EPSILON), 1 - LOG_LOSS_EPSILON));
+}
+
+/**
+ * Whether the outcome that won had the highest probability (ties count as a miss)
+ */
+export function isMultiOutcomeCorrect(probabilities: number[], resolvedIndex: number): boolean {
+  const resolved = probabilities[resolvedIndex] ?? 0;
+  return probabilities.every((p, index) => index === resolvedIndex || p < resolved);
+}
+
+function scoreForecast(forecast: ScoredForecast) {
+  if ('probabilities' in forecast) {
+    const { probabilities, resolvedIndex } = forecast;
+    return {
+      brierScore: multiOutcomeBrierScore(probabilities, resolvedIndex),
+      logLoss: multiOutcomeLogLoss(probabilities, resolvedIndex),
+      correct: isMultiOutcomeCorrect(probabilities, resolvedIndex),
+    };
+  }
+
+  return {
+    brierScore: brierScore(forecast.probability, forecast.outcome),
+    logLoss: logLoss(forecast.probability, forecast.outcome),
+    correct: isCorrect(forecast.probability, forecast.outcome),
+  };
+}
+
+/**
+ * Average Brier score, log loss and accuracy over a set of binary and categorical forecasts
+ */
+export function summarizeScores(forecasts: ScoredForecast[]): ScoreSummary {
+  if (forecasts.length === 0) {
+    return { count: 0, brierScore: null, logLoss: null, accuracy: null };
+  }
+
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const scores = forecasts.map(scoreForecast);
+
+  return {
+    count: forecasts.length,
+    brierScore: mean(scores.map(score => score.brierScore)),
+    logLoss: mean(scores.map(score => score.logLoss)),
+    accuracy: mean(scores.map(score => (score.correct ? 1 : 0))),
+  };
+}
@@ -0,0 +1,119 @@
+import { normalizeOutcomeProbabilities } from './market-utils.js';
+
+/**
+ * Self-consistency utilities
+ * Summarize repeated samples of the same prediction and derive confidence from how much they vary.
+ */
+
+// An interquartile range this wide (percentage points) or wider means no confidence at all
+const IQR_ZERO_CONFIDENCE = 50;
+
+export interface ConsistencySample {
+  outcome: string;
+  probability: number; // 0-100, YES (first outcome)
+  outcomeProbabilities?: Array<{ outcome: string; probability: number }>; // Categorical markets
+}
+
+export interface SelfConsistencySummary {
+  sampleCount: number;
+  medianProbability: number; // 0-100, YES (first outcome)
+  q1: number; // Quartiles the IQR is taken from: of YES, or of iqrOutcome for categorical markets
+  q3: number;
+  iqr: number; // Percentage points, q3 - q1; widest per-outcome IQR for categorical markets
+  iqrOutcome?: string; // Categorical markets: outcome with the widest IQR
+  outcomeVoteShare: Record<string, number>; // 0-1 share of samples per predicted outcome
+  majorityOutcome: string;
+  majorityVoteShare: number; // 0-1
+  confidence: number; // 0-100, derived from iqr and majorityVoteShare
+  medianOutcomeProbabilities?: Array<{ outcome: string; probability: number }>; // Per-outcome medians rescaled to 100
+}
+
+/**
+ * Quantile with linear interpolation between closest ranks
+ *
+ * @param q - Quantile between 0 and 1
+ */
+export function quantile(values: number[], q: number): number {
+  if (values.length === 0) {
+    throw new Error('Cannot take a quantile of no values');
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Confidence (0-100) from sample dispersion
+ * Full confidence needs every sample to agree on the outcome and the probability;
+ * it falls linearly with the IQR (zero at IQR_ZERO_CONFIDENCE points) and with vote share.
+ */
+export function dispersionConfidence(iqr: number, majorityVoteShare: number): number {
+  return 100 * majorityVoteShare * Math.max(1 - iqr / IQR_ZERO_CONFIDENCE, 0);
+}
+
+/**
+ * Summarize repeated samples of one prediction
+ *
+ * @param outcomeLabels - Categorical market labels; medians are taken per outcome
+ */
+export function summarizeSamples(samples: ConsistencySample[], outcomeLabels?: string[]): SelfConsistencySummary {
+  if (samples.length === 0) {
+    throw new Error('Cannot summarize zero samples');
+  }
+
+  const outcomeVoteShare: Record<string, number> = {};
+  for (const sample of samples) {
+    outcomeVoteShare[sample.outcome] = (outcomeVoteShare[sample.outcome] ?? 0) + 1 / samples.length;
+  }
+  const [majorityOutcome, majorityVoteShare] = Object.entries(outcomeVoteShare).reduce((best, entry) =>
+    entry[1] > best[1] ? entry : best
+  );
+
+  const probabilities = samples.map(sample => sample.probability);
+  let q1 = quantile(probabilities, 0.25);
+  let q3 = quantile(probabilities, 0.75);
+  let medianProbability = quantile(probabilities, 0.5);
+  let medianOutcomeProbabilities: SelfConsistencySummary['medianOutcomeProbabilities'];
+  let iqrOutcome: string | undefined;
+
+  if (outcomeLabels && outcomeLabels.length > 0) {
+    const perOutcome = outcomeLabels.map(label => {
+      const values = samples.map(
+        sample => sample.outcomeProbabilities?.find(entry => entry.outcome === label)?.probability ?? 0
+      );
+      return {
+        outcome: label,
+        probability: quantile(values, 0.5),
+        q1: quantile(values, 0.25),
+        q3: quantile(values, 0.75),
+      };
+    });
+
+    medianOutcomeProbabilities = normalizeOutcomeProbabilities(perOutcome).map(({ outcome, probability }) => ({
+      outcome,
+      probability,
+    }));
+    medianProbability = medianOutcomeProbabilities[0].probability;
+    ({ q1, q3, outcome: iqrOutcome } = perOutcome.reduce((widest, entry) =>
+      entry.q3 - entry.q1 > widest.q3 - widest.q1 ? entry : widest
+    ));
+  }
+
+  const iqr = q3 - q1;
+  return {
+    sampleCount: samples.length,
+    medianProbability,
+    q1,
+    q3,
+    iqr,
+    ...(iqrOutcome && { iqrOutcome }),
+    outcomeVoteShare,
+    majorityOutcome,
+    majorityVoteShare,
+    confidence: dispersionConfidence(iqr, majorityVoteShare),
+    ...(medianOutcomeProbabilities && { medianOutcomeProbabilities }),
+  };
+}
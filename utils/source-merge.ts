@@ -0,0 +1,313 @@
+import type { ResearchSourceData } from './research-context.js';
+
+/**
+ * Research source merging
+ * Pools the results of several web research providers, collapses the same article found twice
+ * (by canonical URL, title or text fingerprint) and ranks what is left by relevance, recency and
+ * domain credibility, so the shared context budget goes to distinct evidence.
+ */
+
+export const SOURCE_RANKING_WEIGHTS = { relevance: 0.5, recency: 0.25, credibility: 0.25 };
+const RECENCY_HALF_LIFE_DAYS = 30;
+const UNKNOWN_DATE_RECENCY = 0.3;
+const CORROBORATION_BONUS = 0.1; // Relevance added per extra provider that found the source
+const NEAR_DUPLICATE_SIMILARITY = 0.6; // Jaccard similarity of text shingles
+const MIN_SHINGLES = 8; // Shorter texts are only matched by URL or title
+const MIN_TITLE_WORDS = 6; // Titles shorter than this are too generic to match on
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'msclkid', 'igshid', 'mc_cid', 'mc_eid', 'ref', 'ref_src', 'ref_url',
+  'cmpid', 'smid', 'ocid', 'outputtype', 'amp', '_ga', 'guccounter',
+]);
+const MOBILE_SUBDOMAINS = ['www.', 'm.', 'mobile.', 'amp.'];
+
+const HIGH_CREDIBILITY_DOMAINS = [
+  'reuters.com', 'apnews.com', 'bloomberg.com', 'wsj.com', 'ft.com', 'nytimes.com', 'washingtonpost.com',
+  'bbc.com', 'bbc.co.uk', 'economist.com', 'theguardian.com', 'npr.org', 'politico.com', 'axios.com',
+  'cnbc.com', 'espn.com', 'nature.com', 'science.org', 'who.int', 'europa.eu',
+];
+const LOW_CREDIBILITY_DOMAINS = [
+  'reddit.com', 'x.com', 'twitter.com', 'facebook.com', 'instagram.com', 'tiktok.com', 'youtube.com',
+  'quora.com', 'medium.com', 'substack.com', 'blogspot.com', 'wordpress.com', 'pinterest.com',
+];
+
+export interface SourceCandidate {
+  provider: string; // Research provider ID
+  rank: number; // Position in the provider's result list
+  source: ResearchSourceData;
+  sourceId?: number; // research_sources row, when the run was stored
+}
+
+export interface MergedSource extends ResearchSourceData {
+  canonicalUrl: string;
+  providers: string[]; // Every provider that returned the source, best match first
+  sourceId?: number; // Stored row of the kept copy
+  duplicates: number; // Copies collapsed into this one
+  rankScore: number; // 0-1, weighted relevance, recency and credibility
+}
+
+export interface SourceMergeSummary {
+  candidates: number;
+  duplicates: number; // Candidates collapsed into another source
+  distinct: number;
+  kept: number; // Distinct sources within the budget
+  characters: number;
+  maxCharacters: number;
+  byProvider: Record<string, { candidates: number; kept: number }>;
+}
+
+export interface SourceMergeOptions {
+  maxCharacters: number;
+  endDate?: string; // Market close time; recency is measured up to it (or now, if earlier)
+  now?: Date;
+}
+
+/**
+ * Canonical form of a URL for duplicate detection
+ * Drops the scheme, www/mobile/AMP variants, tracking parameters, fragments and trailing slashes.
+ */
+export function canonicalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim().toLowerCase().replace(/\/+$/, '');
+  }
+
+  let host = parsed.hostname.toLowerCase();
+  for (const prefix of MOBILE_SUBDOMAINS) {
+    if (host.startsWith(prefix)) {
+      host = host.slice(prefix.length);
+    }
+  }
+
+  const path = parsed.pathname
+    .replace(/\/amp(\/|$)/, '/')
+    .replace(/\.amp(\.html)?$/, '$1')
+    .replace(/\/+$/, '');
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([key]) => !key.toLowerCase().startsWith('utm_') && !TRACKING_PARAMS.has(key.toLowerCase()))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+
+  return `${host}${path}${query}`;
+}
+
+/**
+ * Credibility of a source's domain, 0-1 (government and academic sites and major outlets highest,
+ * social media and self-published platforms lowest)
+ */
+export function getDomainCredibility(url: string): number {
+  const host = canonicalizeUrl(url).split(/[/?]/)[0];
+  const matches = (domains: string[]) => domains.some(domain => host === domain || host.endsWith(`.${domain}`));
+
+  if (/\.(gov|edu|mil|int)(\.[a-z]{2})?$/.test(host) || matches(HIGH_CREDIBILITY_DOMAINS)) return 1;
+  if (matches(LOW_CREDIBILITY_DOMAINS)) return 0.3;
+  return 0.6;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+}
+
+/**
+ * Word 3-gram shingles of a source's content, for near-duplicate detection
+ */
+export function getTextFingerprint(source: ResearchSourceData): Set<string> {
+  const tokens = words([source.text, source.summary, source.highlights?.join(' ')].filter(Boolean).join(' '));
+  const shingles = new Set<string>();
+  for (let i = 0; i + 3 <= tokens.length; i++) {
+    shingles.add(tokens.slice(i, i + 3).join(' '));
+  }
+  return shingles;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const shingle of a) {
+    if (b.has(shingle)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Characters a source adds to the research context
+ */
+export function getSourceLength(source: ResearchSourceData): number {
+  return [source.title, source.summary, source.text, source.highlights?.join(' ')]
+    .filter((segment): segment is string => Boolean(segment))
+    .join(' ').length;
+}
+
+function getRecency(publishedDate: string | undefined, reference: Date): number {
+  const published = publishedDate ? new Date(publishedDate).getTime() : NaN;
+  if (isNaN(published)) {
+    return UNKNOWN_DATE_RECENCY;
+  }
+  const ageDays = Math.max(reference.getTime() - published, 0) / DAY_MS;
+  return Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+}
+
+interface SourceGroup {
+  members: SourceCandidate[];
+  canonicalUrls: Set<string>;
+  title: string;
+  fingerprint: Set<string>;
+}
+
+function isSameSource(group: SourceGroup, canonicalUrl: string, title: string, fingerprint: Set<string>): boolean {
+  if (group.canonicalUrls.has(canonicalUrl)) return true;
+  if (title && title === group.title && title.split(' ').length >= MIN_TITLE_WORDS) return true;
+  return (
+    fingerprint.size >= MIN_SHINGLES &&
+    group.fingerprint.size >= MIN_SHINGLES &&
+    jaccard(fingerprint, group.fingerprint) >= NEAR_DUPLICATE_SIMILARITY
+  );
+}
+
+/**
+ * Collapse duplicate sources across providers, rank them and keep the best within maxCharacters
+ * Relevance is the provider's score relative to its best result (or its list position when it
+ * returns no scores), plus a bonus per extra provider that found the same source. Sources that
+ * do not fit are skipped so shorter ones further down can still use the budget.
+ */
+export function mergeResearchSources(candidates: SourceCandidate[], options: SourceMergeOptions) {
+  const now = options.now ?? new Date();
+  const endDate = options.endDate ? new Date(options.endDate) : undefined;
+  const reference = endDate && !isNaN(endDate.getTime()) && endDate < now ? endDate : now;
+
+  const relevance = new Map<SourceCandidate, number>();
+  const providerIds = [...new Set(candidates.map(candidate => candidate.provider))];
+  for (const provider of providerIds) {
+    const results = candidates.filter(candidate => candidate.provider === provider);
+    const maxScore = Math.max(0, ...results.map(candidate => candidate.source.score ?? 0));
+    for (const candidate of results) {
+      relevance.set(
+        candidate,
+        maxScore > 0 ? (candidate.source.score ?? 0) / maxScore : 1 - candidate.rank / results.length
+      );
+    }
+  }
+
+  const groups: SourceGroup[] = [];
+  for (const candidate of [...candidates].sort((a, b) => relevance.get(b)! - relevance.get(a)!)) {
+    const canonicalUrl = canonicalizeUrl(candidate.source.url);
+    const title = words(candidate.source.title ?? '').join(' ');
+    const fingerprint = getTextFingerprint(candidate.source);
+    const group = groups.find(existing => isSameSource(existing, canonicalUrl, title, fingerprint));
+    if (group) {
+      group.members.push(candidate);
+      group.canonicalUrls.add(canonicalUrl);
+      if (fingerprint.size > group.fingerprint.size) group.fingerprint = fingerprint;
+    } else {
+      groups.push({ members: [candidate], canonicalUrls: new Set([canonicalUrl]), title, fingerprint });
+    }
+  }
+
+  const ranked: MergedSource[] = groups
+    .map(({ members }) => {
+      // Keep the fullest copy and fill in what it lacks from the others
+      const [kept] = [...members].sort((a, b) => getSourceLength(b.source) - getSourceLength(a.source));
+      const source: ResearchSourceData = { ...kept.source };
+      for (const { source: other } of members) {
+        source.publishedDate ??= other.publishedDate;
+        source.author ??= other.author;
+        source.source ??= other.source;
+        source.summary ??= other.summary;
+        source.highlights ??= other.highlights;
+      }
+
+      const providers = [...new Set(members.map(member => member.provider))];
+      const bestRelevance = Math.max(...members.map(member => relevance.get(member)!));
+      const rankScore =
+        SOURCE_RANKING_WEIGHTS.relevance * Math.min(bestRelevance + CORROBORATION_BONUS * (providers.length - 1), 1) +
+        SOURCE_RANKING_WEIGHTS.recency * getRecency(source.publishedDate, reference) +
+        SOURCE_RANKING_WEIGHTS.credibility * getDomainCredibility(source.url);
+
+      return {
+        ...source,
+        canonicalUrl: canonicalizeUrl(source.url),
+        providers: [kept.provider, ...providers.filter(provider => provider !== kept.provider)],
+        ...(kept.sourceId !== undefined && { sourceId: kept.sourceId }),
+        duplicates: members.length - 1,
+        rankScore: Math.round(rankScore * 1000) / 1000,
+      };
+    })
+    .sort((a, b) => b.rankScore - a.rankScore);
+
+  const sources: MergedSource[] = [];
+  let characters = 0;
+  for (const source of ranked) {
+    const length = getSourceLength(source);
+    if (characters + length <= options.maxCharacters) {
+      sources.push(source);
+      characters += length;
+    }
+  }
+
+  const byProvider = Object.fromEntries(
+    providerIds.map(provider => [
+      provider,
+      {
+        candidates: candidates.filter(candidate => candidate.provider === provider).length,
+        kept: sources.filter(source => source.providers.includes(provider)).length,
+      },
+    ])
+  );
+
+  const summary: SourceMergeSummary = {
+    candidates: candidates.length,
+    duplicates: candidates.length - groups.length,
+    distinct: groups.length,
+    kept: sources.length,
+    characters,
+    maxCharacters: options.maxCharacters,
+    byProvider,
+  };
+
+  return { sources, summary };
+}
+
+/**
+ * Format merged sources into one research context section
+ */
+export function formatMergedResearchContext(sources: MergedSource[], providerNames: Record<string, string>): string {
+  const sections = sources.map((source, index) => {
+    const parts: string[] = [];
+
+    parts.push(`## Source ${index + 1}: ${source.title || 'Untitled Source'}`);
+    parts.push(`URL: ${source.url}`);
+
+    if (source.publishedDate) {
+      parts.push(`Published: ${source.publishedDate}`);
+    }
+
+    if (source.author) {
+      parts.push(`Author: ${source.author}`);
+    }
+
+    if (source.source) {
+      parts.push(`Publication: ${source.source}`);
+    }
+
+    parts.push(`Found by: ${source.providers.map(provider => providerNames[provider] ?? provider).join(', ')}`);
+
+    if (source.summary) {
+      parts.push(`\n### Summary\n${source.summary}`);
+    }
+
+    if (source.highlights && source.highlights.length > 0) {
+      parts.push(`\n### Key Highlights\n${source.highlights.map(highlight => `- ${highlight.trim()}`).join('\n')}`);
+    }
+
+    if (source.text) {
+      parts.push(`\n### Content\n${source.text}`);
+    }
+
+    return parts.join('\n');
+  });
+
+  return `# Web Research Data\n\nThe following sources were gathered from web research for this prediction, with duplicate articles merged and ranked by relevance, recency and source credibility:\n\n${sections.join('\n\n---\n\n')}`;
+}
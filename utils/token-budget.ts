@@ -0,0 +1,157 @@
+import { getEncoding, type Tiktoken } from 'js-tiktoken';
+import { getModelLimits, type TokenizerEncoding } from '../config/models.js';
+
+/**
+ * Token budgeting for prompts
+ * Sizes research to the model that reads it and fits prompt sections into its context window,
+ * cutting the lowest-priority sections first and recording every cut.
+ */
+
+export interface Tokenizer {
+  name: string;
+  count(text: string): number;
+}
+
+// Encodings load their rank tables once, on first use
+const encodings = new Map<TokenizerEncoding, Tiktoken>();
+
+/**
+ * Tokenizer for a model, using the encoding listed in MODEL_LIMITS
+ */
+export function getTokenizer(model: string): Tokenizer {
+  const { encoding } = getModelLimits(model);
+  if (!encodings.has(encoding)) {
+    encodings.set(encoding, getEncoding(encoding));
+  }
+  const tiktoken = encodings.get(encoding)!;
+
+  return {
+    name: encoding,
+    // Special-token text in research (e.g. '<|endoftext|>') is counted as ordinary text
+    count: text => tiktoken.encode(text, [], []).length,
+  };
+}
+
+export const CHARACTERS_PER_TOKEN = 4; // For sizing character-based research fetches
+const RESEARCH_WINDOW_SHARE = 0.05; // Research fetched per model: 20K tokens for a 400K window
+const MAX_OUTPUT_RESERVE = 32_000; // Reasoning and answer tokens kept free, at most
+const TRUNCATION_MARKER = '\n\n[Truncated to fit the model context window]';
+const BLOCK_SEPARATOR = '\n\n---\n\n'; // Between sources in research sections
+
+/**
+ * Research token budget for a model, a fixed share of its context window
+ */
+export function getResearchTokenBudget(model: string): number {
+  return Math.floor(getModelLimits(model).contextWindow * RESEARCH_WINDOW_SHARE);
+}
+
+export interface PromptSection {
+  id: string;
+  text: string;
+  priority: number; // Higher is kept first
+  required?: boolean; // Never cut (system prompt, market info, schema)
+}
+
+export interface TokenBudgetCut {
+  id: string;
+  action: 'truncated' | 'dropped';
+  tokens: number;
+  keptTokens: number;
+}
+
+export interface TokenBudgetReport {
+  model: string;
+  tokenizer: string;
+  contextWindow: number;
+  reservedOutputTokens: number;
+  availableTokens: number; // Window minus the output reserve
+  usedTokens: number;
+  sections: Array<{ id: string; priority: number; tokens: number; keptTokens: number }>;
+  cuts: TokenBudgetCut[];
+}
+
+export interface TokenBudgetOptions {
+  model: string;
+  tokenizer?: Tokenizer;
+}
+
+/**
+ * Cut text to at most maxTokens, keeping whole leading sources (or lines) where possible
+ */
+function truncateToTokens(text: string, maxTokens: number, tokenizer: Tokenizer): string {
+  const budget = maxTokens - tokenizer.count(TRUNCATION_MARKER);
+  // Counted part by part, so long sections are not re-counted for every prefix
+  const fitPrefix = (parts: string[], separator: string) => {
+    let kept = '';
+    let tokens = 0;
+    for (const part of parts) {
+      const added = kept ? `${separator}${part}` : part;
+      tokens += tokenizer.count(added);
+      if (tokens > budget) break;
+      kept += added;
+    }
+    return kept;
+  };
+
+  if (budget <= 0) {
+    return '';
+  }
+  const kept = fitPrefix(text.split(BLOCK_SEPARATOR), BLOCK_SEPARATOR) || fitPrefix(text.split('\n'), '\n');
+  return kept ? `${kept}${TRUNCATION_MARKER}` : '';
+}
+
+/**
+ * Fit prompt sections into a model's context window
+ * Required sections are always kept. The others are filled in priority order (ties in section
+ * order) within the window, less the output reserve. A section that does not fit is truncated
+ * to what is left, or dropped when nothing is left.
+ * Returns the sections in their original order, empty ones removed.
+ */
+export function fitSectionsToBudget(sections: PromptSection[], options: TokenBudgetOptions) {
+  const tokenizer = options.tokenizer ?? getTokenizer(options.model);
+  const { contextWindow, maxOutputTokens } = getModelLimits(options.model);
+  const reservedOutputTokens = Math.min(maxOutputTokens, MAX_OUTPUT_RESERVE);
+  const availableTokens = contextWindow - reservedOutputTokens;
+
+  const counted = sections.map(section => ({ ...section, tokens: tokenizer.count(section.text) }));
+  const requiredTokens = counted.filter(section => section.required).reduce((sum, { tokens }) => sum + tokens, 0);
+  let remaining = availableTokens - requiredTokens;
+
+  const kept = new Map<string, { text: string; tokens: number }>();
+  const cuts: TokenBudgetCut[] = [];
+  const byPriority = counted
+    .map((section, index) => ({ section, index }))
+    .sort((a, b) => b.section.priority - a.section.priority || a.index - b.index);
+
+  for (const { section } of byPriority) {
+    if (section.required || section.tokens <= remaining) {
+      kept.set(section.id, { text: section.text, tokens: section.tokens });
+      remaining -= section.required ? 0 : section.tokens;
+      continue;
+    }
+
+    const text = remaining > 0 ? truncateToTokens(section.text, remaining, tokenizer) : '';
+    const keptTokens = text ? tokenizer.count(text) : 0;
+    kept.set(section.id, { text, tokens: keptTokens });
+    remaining -= keptTokens;
+    cuts.push({ id: section.id, action: text ? 'truncated' : 'dropped', tokens: section.tokens, keptTokens });
+  }
+
+  const report: TokenBudgetReport = {
+    model: options.model,
+    tokenizer: tokenizer.name,
+    contextWindow,
+    reservedOutputTokens,
+    availableTokens,
+    usedTokens: [...kept.values()].reduce((sum, { tokens }) => sum + tokens, 0),
+    sections: counted.map(({ id, priority, tokens }) => ({ id, priority, tokens, keptTokens: kept.get(id)!.tokens })),
+    cuts,
+  };
+
+  return {
+    sections: counted
+      .map(({ id }) => ({ id, text: kept.get(id)!.text }))
+      .filter(section => section.text.length > 0),
+    report,
+  };
+}